@@ -0,0 +1,497 @@
+/**
+ * Batch Operations
+ *
+ * Runs an ordered list of bd mutations as one unit. Operations can refer to
+ * issues created earlier in the same batch through `$handle` references,
+ * e.g. `{ op: "dep_add", id: "$ui", depends_on: "$api" }`.
+ *
+ * The whole batch is validated before anything runs (required fields,
+ * handle references, existing IDs, dependency cycles). If a step fails,
+ * the steps before it are undone in reverse order: created issues are
+ * deleted, added labels and dependencies removed, closed issues reopened
+ * and updated fields restored. Comments cannot be removed.
+ */
+
+import { type DependencyProblem, validateDependency } from "./dependencies.js";
+import { parseIssue, parseIssueList } from "./domain.js";
+import { BatchError } from "./errors.js";
+import { buildIssueIndex, type IssueIndex, type JsonlIssue } from "./jsonl.js";
+import type { BdRunner } from "./tools.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type BatchOperationKind =
+	| "create"
+	| "update"
+	| "close"
+	| "dep_add"
+	| "label_add"
+	| "comment";
+
+/**
+ * One step of a batch. ID fields accept real issue IDs or `$handle`
+ * references to issues created by earlier steps.
+ */
+export type BatchOperation = {
+	op: BatchOperationKind;
+	/** create: name later steps use as `$handle` */
+	handle?: string;
+	/** Target issue (every op except create) */
+	id?: string;
+	/** create/update */
+	title?: string;
+	/** create: description */
+	body?: string;
+	/** create: issue type */
+	type?: string;
+	/** create/update: bd priority (P0-P4) */
+	priority?: string;
+	/** create: comma-separated labels */
+	labels?: string;
+	/** create: parent issue */
+	parent?: string;
+	/** create: comma-separated blockers; dep_add: the blocker */
+	depends_on?: string;
+	/** create/update */
+	assignee?: string;
+	/** update */
+	status?: string;
+	/** label_add */
+	label?: string;
+	/** close */
+	reason?: string;
+	/** comment */
+	text?: string;
+};
+
+export type BatchStepResult = {
+	step: number;
+	op: BatchOperationKind;
+	id: string;
+	handle?: string;
+};
+
+export type BatchResult = {
+	/** handle → created issue ID */
+	handles: Record<string, string>;
+	steps: BatchStepResult[];
+};
+
+export type BatchOptions = {
+	/** Issues before the batch, used for validation and undoing updates */
+	index?: IssueIndex | null;
+	/** Skip dependency validation (references are still checked) */
+	force?: boolean;
+	signal?: AbortSignal;
+};
+
+type UndoStep = { args: string[]; description: string };
+
+// ============================================================================
+// References
+// ============================================================================
+
+const HANDLE_PATTERN = /^[A-Za-z_][\w-]*$/;
+
+const isHandleRef = (value: string): boolean => value.startsWith("$");
+
+const splitRefs = (value: string | undefined): string[] =>
+	(value ?? "")
+		.split(",")
+		.map((ref) => ref.trim())
+		.filter(Boolean);
+
+const stepLabel = (step: number, operation: BatchOperation): string =>
+	`Step ${step} (${operation.op})`;
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Fields each operation needs
+ */
+const REQUIRED_FIELDS: Record<
+	BatchOperationKind,
+	Array<keyof BatchOperation>
+> = {
+	create: ["title"],
+	update: ["id"],
+	close: ["id"],
+	dep_add: ["id", "depends_on"],
+	label_add: ["id", "label"],
+	comment: ["id", "text"],
+};
+
+const UPDATE_FIELDS: Array<keyof BatchOperation> = [
+	"title",
+	"priority",
+	"assignee",
+	"status",
+];
+
+/**
+ * Check the whole batch before running it. Handles are simulated as
+ * placeholder issues so dependency cycles through new issues are caught.
+ */
+export const validateBatch = (
+	operations: BatchOperation[],
+	options: Pick<BatchOptions, "index" | "force"> = {},
+): BatchError | null => {
+	if (operations.length === 0) {
+		return new BatchError(0, "Batch has no operations");
+	}
+
+	const index = options.index ?? null;
+	const handles = new Set<string>();
+	// Simulated issue list: existing issues plus placeholders for new ones
+	const simulated: JsonlIssue[] = structuredClone(index?.issues ?? []);
+	const simulatedById = new Map(simulated.map((issue) => [issue.id, issue]));
+
+	const fail = (step: number, operation: BatchOperation, message: string) =>
+		new BatchError(step, `${stepLabel(step, operation)}: ${message}`);
+
+	const checkRef = (ref: string): string | null => {
+		if (isHandleRef(ref)) {
+			return handles.has(ref.slice(1))
+				? null
+				: `${ref} is not created by an earlier step`;
+		}
+		if (index && !index.byId.has(ref)) return `Issue not found: ${ref}`;
+		return null;
+	};
+
+	const checkEdge = (from: string, to: string): DependencyProblem | null => {
+		if (options.force || !index) return null;
+		return validateDependency(buildIssueIndex(simulated), from, to);
+	};
+
+	const addEdge = (from: string, to: string, type: string) => {
+		const issue = simulatedById.get(from);
+		if (!issue) return;
+		issue.dependencies = [
+			...(issue.dependencies ?? []),
+			{ issue_id: from, depends_on_id: to, type },
+		];
+	};
+
+	for (const [i, operation] of operations.entries()) {
+		const step = i + 1;
+		const required = REQUIRED_FIELDS[operation.op];
+		if (!required) {
+			return new BatchError(step, `Step ${step}: unknown op "${operation.op}"`);
+		}
+		for (const field of required) {
+			if (!operation[field]) {
+				return fail(step, operation, `missing required field "${field}"`);
+			}
+		}
+		// An empty assignee is an update too: it unassigns the issue
+		if (
+			operation.op === "update" &&
+			!UPDATE_FIELDS.some((field) => operation[field]) &&
+			operation.assignee === undefined
+		) {
+			return fail(step, operation, "nothing to update");
+		}
+
+		const refs = [
+			operation.id,
+			operation.parent,
+			...splitRefs(operation.depends_on),
+		].filter((ref): ref is string => Boolean(ref));
+		for (const ref of refs) {
+			const problem = checkRef(ref);
+			if (problem) return fail(step, operation, problem);
+		}
+
+		if (operation.op === "create") {
+			const { handle } = operation;
+			if (handle !== undefined) {
+				if (!HANDLE_PATTERN.test(handle)) {
+					return fail(
+						step,
+						operation,
+						`invalid handle "${handle}" (letters, digits, _ and -; no leading $)`,
+					);
+				}
+				if (handles.has(handle)) {
+					return fail(step, operation, `handle "${handle}" is already used`);
+				}
+				handles.add(handle);
+			}
+
+			const placeholder: JsonlIssue = {
+				id: `$${handle ?? `#${step}`}`,
+				title: operation.title ?? "",
+				status: "open",
+				priority: 2,
+				issue_type: operation.type ?? "task",
+				created_at: "",
+				updated_at: "",
+			};
+			simulated.push(placeholder);
+			simulatedById.set(placeholder.id, placeholder);
+			if (operation.parent) {
+				addEdge(placeholder.id, operation.parent, "parent-child");
+			}
+			for (const dep of splitRefs(operation.depends_on)) {
+				const problem = checkEdge(placeholder.id, dep);
+				if (problem) return fail(step, operation, problem.message);
+				addEdge(placeholder.id, dep, "blocks");
+			}
+		}
+
+		if (operation.op === "dep_add" && operation.id && operation.depends_on) {
+			const problem = checkEdge(operation.id, operation.depends_on);
+			if (problem) return fail(step, operation, problem.message);
+			addEdge(operation.id, operation.depends_on, "blocks");
+		}
+
+		const closes =
+			operation.op === "close" ||
+			(operation.op === "update" && operation.status === "closed");
+		if (closes && operation.id) {
+			const issue = simulatedById.get(operation.id);
+			if (issue) issue.status = "closed";
+		}
+	}
+
+	return null;
+};
+
+// ============================================================================
+// Execution
+// ============================================================================
+
+/**
+ * Argv for one operation with references already resolved
+ */
+const toArgs = (operation: BatchOperation, id: string): string[] => {
+	switch (operation.op) {
+		case "create": {
+			const args = ["create", "--json"];
+			if (operation.type) args.push("-t", operation.type);
+			if (operation.priority) args.push("-p", operation.priority);
+			if (operation.body) args.push("-d", operation.body);
+			if (operation.labels) args.push("-l", operation.labels);
+			if (operation.parent) args.push("--parent", operation.parent);
+			if (operation.assignee) args.push("-a", operation.assignee);
+			if (operation.depends_on) args.push("--deps", operation.depends_on);
+			args.push("--", operation.title ?? "");
+			return args;
+		}
+		case "update": {
+			const args = ["update", id];
+			if (operation.status) args.push("--status", operation.status);
+			if (operation.title) args.push("--title", operation.title);
+			if (operation.priority) args.push("--priority", operation.priority);
+			if (operation.assignee !== undefined) {
+				args.push("-a", operation.assignee);
+			}
+			return args;
+		}
+		case "close":
+			return operation.reason
+				? ["close", id, "--reason", operation.reason]
+				: ["close", id];
+		case "dep_add":
+			return ["dep", "add", id, operation.depends_on ?? ""];
+		case "label_add":
+			return ["label", "add", id, "--", operation.label ?? ""];
+		case "comment":
+			return ["comment", id, "--", operation.text ?? ""];
+	}
+};
+
+/**
+ * Command that reverses an operation on a pre-existing issue, if any
+ */
+const toUndo = (
+	operation: BatchOperation,
+	id: string,
+	previous: JsonlIssue | undefined,
+): UndoStep | null => {
+	switch (operation.op) {
+		case "close":
+			return { args: ["reopen", id], description: `reopen ${id}` };
+		case "dep_add":
+			return {
+				args: ["dep", "remove", id, operation.depends_on ?? ""],
+				description: `remove dependency ${id} → ${operation.depends_on}`,
+			};
+		case "label_add":
+			return {
+				args: ["label", "remove", id, "--", operation.label ?? ""],
+				description: `remove label ${operation.label} from ${id}`,
+			};
+		case "update": {
+			if (!previous) return null;
+			const args = ["update", id];
+			if (operation.status) args.push("--status", previous.status);
+			if (operation.title) args.push("--title", previous.title);
+			if (operation.priority) args.push("--priority", `P${previous.priority}`);
+			if (operation.assignee !== undefined) {
+				args.push("-a", previous.assignee ?? "");
+			}
+			return args.length > 2 ? { args, description: `restore ${id}` } : null;
+		}
+		default:
+			return null;
+	}
+};
+
+/**
+ * ID of an issue bd created without printing it as JSON: named in its
+ * text output, or the one issue with that exact title that did not exist
+ * before the batch
+ */
+const findCreatedId = async (
+	runBd: BdRunner,
+	title: string,
+	stdout: string,
+	index: IssueIndex | null | undefined,
+): Promise<string | undefined> => {
+	const named = stdout.match(/Created issue:\s+([^\s:]+)/)?.[1];
+	if (named) return named;
+	const found = await runBd(["search", "--json", "--", title]);
+	const matches = parseIssueList(found.json).filter(
+		(issue) => issue.title === title && !index?.byId.has(issue.id),
+	);
+	return matches.length === 1 ? matches[0].id : undefined;
+};
+
+/**
+ * Validate and run a batch, rolling back completed steps on failure
+ */
+export const runBatch = async (
+	runBd: BdRunner,
+	operations: BatchOperation[],
+	options: BatchOptions = {},
+): Promise<BatchResult | BatchError> => {
+	const invalid = validateBatch(operations, options);
+	if (invalid) return invalid;
+
+	const handles = new Map<string, string>();
+	const created: string[] = [];
+	const undo: UndoStep[] = [];
+	const irreversible: string[] = [];
+	const steps: BatchStepResult[] = [];
+
+	const resolve = (ref: string | undefined): string | undefined =>
+		ref && isHandleRef(ref) ? handles.get(ref.slice(1)) : ref;
+	const resolveList = (refs: string | undefined): string | undefined =>
+		refs === undefined
+			? undefined
+			: splitRefs(refs)
+					.map((ref) => resolve(ref) ?? ref)
+					.join(",");
+
+	/**
+	 * Undo completed steps (newest first), then delete created issues
+	 */
+	const rollback = async (): Promise<string[]> => {
+		const failures: string[] = [];
+		// Run without the abort signal: an aborted batch still needs cleanup
+		for (const step of [...undo].reverse()) {
+			const result = await runBd(step.args);
+			if (result.error)
+				failures.push(`${step.description}: ${result.error.message}`);
+		}
+		if (created.length > 0) {
+			const result = await runBd(["delete", ...created, "--force"]);
+			if (result.error) {
+				failures.push(`delete ${created.join(", ")}: ${result.error.message}`);
+			}
+		}
+		return failures;
+	};
+
+	for (const [i, operation] of operations.entries()) {
+		const step = i + 1;
+		const resolved: BatchOperation = {
+			...operation,
+			id: resolve(operation.id),
+			parent: resolve(operation.parent),
+			depends_on:
+				operation.op === "dep_add"
+					? resolve(operation.depends_on)
+					: resolveList(operation.depends_on),
+		};
+		const targetId = resolved.id ?? "";
+		let previous = options.index?.byId.get(targetId);
+		if (operation.op === "close" && !previous) {
+			// The prior status decides whether rollback reopens the issue
+			const shown = await runBd(["show", targetId, "--json"], {
+				signal: options.signal,
+			});
+			previous = parseIssue(shown.json) ?? undefined;
+		}
+
+		const result = await runBd(toArgs(resolved, targetId), {
+			signal: options.signal,
+		});
+		const createdId =
+			operation.op === "create" && !result.error
+				? (parseIssue(result.json)?.id ??
+					(await findCreatedId(
+						runBd,
+						operation.title ?? "",
+						result.stdout,
+						options.index,
+					)))
+				: undefined;
+
+		if (result.error || (operation.op === "create" && !createdId)) {
+			const failures = await rollback();
+			const cause =
+				result.error?.message ??
+				`bd created "${operation.title}" but its ID could not be read`;
+			const hint = [
+				steps.length === 0
+					? "Nothing to roll back."
+					: failures.length === 0
+						? `Rolled back ${steps.length} completed step(s).`
+						: `Rollback incomplete: ${failures.join("; ")}.`,
+				irreversible.length > 0
+					? `Not undone: ${irreversible.join(", ")}.`
+					: "",
+				result.error
+					? (result.error.hint ?? "")
+					: `Find "${operation.title}" with bd_search and delete it; it was not rolled back.`,
+			]
+				.filter(Boolean)
+				.join(" ");
+			return new BatchError(
+				step,
+				`${stepLabel(step, operation)} failed: ${cause}`,
+				hint,
+			);
+		}
+
+		if (createdId) {
+			created.push(createdId);
+			if (operation.handle) handles.set(operation.handle, createdId);
+			steps.push({
+				step,
+				op: operation.op,
+				id: createdId,
+				handle: operation.handle,
+			});
+			continue;
+		}
+
+		steps.push({ step, op: operation.op, id: targetId });
+		// Changes to issues created in this batch vanish with the delete
+		if (created.includes(targetId)) continue;
+		// Closing an issue that was already closed leaves nothing to undo
+		if (operation.op === "close" && previous?.status === "closed") continue;
+		const reverse = toUndo(resolved, targetId, previous);
+		if (reverse) undo.push(reverse);
+		else irreversible.push(`${operation.op} on ${targetId}`);
+	}
+
+	return { handles: Object.fromEntries(handles), steps };
+};
@@ -0,0 +1,231 @@
+/**
+ * Close Gates
+ *
+ * Checks bd_close applies before closing issues: a required reason, a
+ * passing run of the project's verification command, and a record of the
+ * commit the work landed in. Requirements come from the `close` section of
+ * the plugin config and can be scoped to issue types or labels.
+ */
+
+import { type ChildProcess, spawn } from "node:child_process";
+import type { BeadsPluginConfig, CloseRule } from "./config.js";
+import { BdAbortedError, type BdError } from "./errors.js";
+import type { GitRunner } from "./git.js";
+import type { JsonlIssue } from "./jsonl.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Close settings plus the project directory commands run in
+ */
+export type CloseGates = BeadsPluginConfig["close"] & { directory: string };
+
+export type CloseRequirements = {
+	reason: boolean;
+	verify: boolean;
+};
+
+export type VerificationResult = {
+	passed: boolean;
+	exitCode: number | null;
+	/** Killed for exceeding the verification timeout */
+	timedOut: boolean;
+	/** Tail of the combined stdout and stderr */
+	output: string;
+	durationMs: number;
+};
+
+/** Output kept from a verification run */
+const OUTPUT_TAIL_LINES = 20;
+const OUTPUT_TAIL_CHARS = 2000;
+
+/** Time the output pipes get to drain after the shell exits */
+const OUTPUT_DRAIN_MS = 500;
+
+/** Time the command gets to exit after SIGTERM before it is sent SIGKILL */
+const KILL_GRACE_MS = 5_000;
+
+/** Changed files listed in a closing comment */
+const MAX_LISTED_FILES = 20;
+
+// ============================================================================
+// Requirements
+// ============================================================================
+
+/**
+ * What the configured rules require before an issue can be closed
+ */
+export const closeRequirements = (
+	issue: JsonlIssue,
+	rules: CloseRule[],
+): CloseRequirements => {
+	const matching = rules.filter(
+		(rule) =>
+			(rule.type === undefined || rule.type === issue.issue_type) &&
+			(rule.label === undefined || (issue.labels ?? []).includes(rule.label)),
+	);
+	return {
+		reason: matching.some((rule) => rule.requireReason),
+		verify: matching.some((rule) => rule.requireVerify),
+	};
+};
+
+// ============================================================================
+// Verification
+// ============================================================================
+
+const tail = (text: string): string => {
+	const lines = text.trimEnd().split("\n").slice(-OUTPUT_TAIL_LINES).join("\n");
+	return lines.length > OUTPUT_TAIL_CHARS
+		? lines.slice(-OUTPUT_TAIL_CHARS)
+		: lines;
+};
+
+/**
+ * Signal the verification command's whole process group, so commands the
+ * shell started go down with it
+ */
+const killGroup = (child: ChildProcess, signal: NodeJS.Signals) => {
+	try {
+		if (child.pid !== undefined) process.kill(-child.pid, signal);
+	} catch {
+		child.kill(signal);
+	}
+};
+
+/**
+ * Run the verification command through the shell in the project directory.
+ * The result settles when the shell exits, even if processes it left in
+ * the background still hold its output open, and when the timeout fires.
+ */
+export const runVerification = (
+	command: string,
+	cwd: string,
+	options: { timeoutMs: number; signal?: AbortSignal },
+): Promise<VerificationResult | BdError> => {
+	const { signal, timeoutMs } = options;
+	if (signal?.aborted) return Promise.resolve(new BdAbortedError());
+	const startedAt = Date.now();
+
+	return new Promise((resolve) => {
+		let settled = false;
+		let timer: ReturnType<typeof setTimeout> | undefined;
+		let drainTimer: ReturnType<typeof setTimeout> | undefined;
+		const output: Buffer[] = [];
+
+		const child = spawn(command, {
+			cwd,
+			shell: true,
+			detached: true,
+			stdio: ["ignore", "pipe", "pipe"],
+		});
+
+		const result = (
+			exitCode: number | null,
+			timedOut: boolean,
+		): VerificationResult => ({
+			passed: exitCode === 0 && !timedOut,
+			exitCode,
+			timedOut,
+			output: tail(Buffer.concat(output).toString("utf-8")),
+			durationMs: Date.now() - startedAt,
+		});
+
+		const finish = (outcome: VerificationResult | BdError) => {
+			if (settled) return;
+			settled = true;
+			if (timer) clearTimeout(timer);
+			if (drainTimer) clearTimeout(drainTimer);
+			signal?.removeEventListener("abort", onAbort);
+			resolve(outcome);
+		};
+
+		// Test runners may ignore SIGTERM while they shut down workers
+		let killTimer: ReturnType<typeof setTimeout> | undefined;
+		const terminate = () => {
+			killGroup(child, "SIGTERM");
+			killTimer ??= setTimeout(
+				() => killGroup(child, "SIGKILL"),
+				KILL_GRACE_MS,
+			);
+			killTimer.unref?.();
+		};
+
+		const onAbort = () => {
+			terminate();
+			finish(new BdAbortedError());
+		};
+		signal?.addEventListener("abort", onAbort, { once: true });
+
+		if (timeoutMs > 0) {
+			timer = setTimeout(() => {
+				terminate();
+				finish(result(null, true));
+			}, timeoutMs);
+		}
+
+		child.stdout?.on("data", (chunk: Buffer) => output.push(chunk));
+		child.stderr?.on("data", (chunk: Buffer) => output.push(chunk));
+		child.on("error", (error) => {
+			finish({
+				passed: false,
+				exitCode: null,
+				timedOut: false,
+				output: error.message,
+				durationMs: Date.now() - startedAt,
+			});
+		});
+		child.on("exit", (exitCode) => {
+			// Wait briefly for the rest of the output, then clean up whatever
+			// the command left running
+			drainTimer = setTimeout(() => {
+				killGroup(child, "SIGKILL");
+				finish(result(exitCode, false));
+			}, OUTPUT_DRAIN_MS);
+			child.on("close", () => finish(result(exitCode, false)));
+		});
+	});
+};
+
+// ============================================================================
+// Commit Record
+// ============================================================================
+
+const listFiles = (files: string[]): string =>
+	files.length > MAX_LISTED_FILES
+		? `${files.slice(0, MAX_LISTED_FILES).join(", ")} (+${files.length - MAX_LISTED_FILES} more)`
+		: files.join(", ");
+
+/**
+ * Closing comment naming the HEAD commit and the files it and the working
+ * tree changed, or null outside a git repository. Issue data under .beads/
+ * is left out.
+ */
+export const describeWork = async (
+	git: GitRunner,
+	signal?: AbortSignal,
+): Promise<string | null> => {
+	const head = await git(["log", "-1", "--format=%h %s"], { signal });
+	if (head.error || !head.stdout.trim()) return null;
+
+	const [committed, status] = await Promise.all([
+		git(["show", "--name-only", "--format=", "HEAD"], { signal }),
+		git(["status", "--porcelain"], { signal }),
+	]);
+	const tracked = (file: string) => file && !file.startsWith(".beads/");
+	const files = committed.stdout.split("\n").map((f) => f.trim());
+	const uncommitted = status.stdout
+		.split("\n")
+		.map((line) => line.slice(3).trim())
+		.filter(tracked);
+
+	const lines = [`Closed at commit ${head.stdout.trim()}`];
+	if (files.some(tracked))
+		lines.push(`Files: ${listFiles(files.filter(tracked))}`);
+	if (uncommitted.length > 0) {
+		lines.push(`Uncommitted changes: ${listFiles(uncommitted)}`);
+	}
+	return lines.join("\n");
+};
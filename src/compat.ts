@@ -0,0 +1,265 @@
+/**
+ * bd Version Compatibility
+ *
+ * bd's flags have changed between releases. The compatibility runner wraps
+ * a BdRunner, detects the installed bd version once, and learns which flags
+ * each command accepts from `bd <command> --help`. Every call is routed
+ * through FLAG_ALIASES first: a flag the installed bd lacks is replaced by
+ * the spelling that release uses, and a flag with no equivalent fails with
+ * UnsupportedFlagError instead of a cryptic usage error from the CLI.
+ * Anything else, such as a title that starts with "-", is left alone.
+ *
+ * When a command's help cannot be read, FLAG_ALIASES is keyed on the
+ * detected version instead: releases older than an alias's `since` get
+ * the older spelling. Without a version either, arguments pass through
+ * unchanged and bd has the final word.
+ */
+
+import { UnsupportedFlagError } from "./errors.js";
+import type { BdRunner } from "./tools.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type BdVersion = {
+	major: number;
+	minor: number;
+	patch: number;
+	/** Version as printed by bd, e.g. "0.9.2" */
+	raw: string;
+};
+
+/**
+ * Flags one bd command accepts, mapped to whether each takes a value
+ */
+export type CommandFlags = Map<string, boolean>;
+
+/**
+ * Spellings of one option across bd releases
+ */
+export type FlagAlias = {
+	/** Command path, e.g. "update" or "dep add" */
+	command: string;
+	/** Spelling the tools emit */
+	flag: string;
+	/** First release that accepts `flag`; older ones use the first alternative */
+	since?: string;
+	/** Spellings used by other releases, in order of preference */
+	alternatives: string[];
+};
+
+/**
+ * BdRunner that adapts arguments to the installed bd
+ */
+export type CompatBdRunner = BdRunner & {
+	/** Installed bd version, or null when it cannot be determined */
+	version: () => Promise<BdVersion | null>;
+	/** Flags a command accepts, or null when its help cannot be read */
+	commandFlags: (command: string) => Promise<CommandFlags | null>;
+};
+
+/**
+ * Options that are spelled differently by some bd releases
+ */
+export const FLAG_ALIASES: FlagAlias[] = [
+	// 0.1.x set an issue's epic with --epic
+	{
+		command: "update",
+		flag: "--parent",
+		since: "0.2.0",
+		alternatives: ["--epic"],
+	},
+];
+
+/** Commands whose first argument is a subcommand with its own flags */
+const COMMAND_GROUPS = new Set(["dep", "label", "template"]);
+
+/** Time allowed for `bd version` and `bd <command> --help` */
+const DETECT_TIMEOUT_MS = 10_000;
+
+// ============================================================================
+// Detection
+// ============================================================================
+
+/**
+ * Parse the version out of `bd version` output ("bd version 0.9.2 (dev)")
+ */
+export const parseBdVersion = (text: string): BdVersion | null => {
+	const match = text.match(/\bv?(\d+)\.(\d+)\.(\d+)([-+][\w.-]+)?/);
+	if (!match) return null;
+	return {
+		major: Number(match[1]),
+		minor: Number(match[2]),
+		patch: Number(match[3]),
+		raw: match[0].replace(/^v/, ""),
+	};
+};
+
+/**
+ * Whether a version is older than a release like "0.2.0"
+ */
+export const isOlderThan = (version: BdVersion, release: string): boolean => {
+	const target = parseBdVersion(release);
+	if (!target) return false;
+	return (
+		(version.major - target.major ||
+			version.minor - target.minor ||
+			version.patch - target.patch) < 0
+	);
+};
+
+/**
+ * Flags listed in cobra-style help output. A type after the flag name
+ * ("-p, --priority string") means the flag takes a value.
+ */
+export const parseHelpFlags = (help: string): CommandFlags | null => {
+	const flags: CommandFlags = new Map();
+	for (const line of help.split("\n")) {
+		const match = line.match(
+			/^\s+(?:(-[A-Za-z0-9]),\s+)?(--[\w-]+)(?: ([\w.[\]]+))?(?:\s{2,}|\s*$)/,
+		);
+		if (!match) continue;
+		const [, short, long, type] = match;
+		flags.set(long, type !== undefined);
+		if (short) flags.set(short, type !== undefined);
+	}
+	return flags.size > 0 ? flags : null;
+};
+
+/**
+ * Number of leading argv entries naming the command ("dep add" is two)
+ */
+const commandDepth = (args: readonly string[]): number => {
+	const [first, second] = args;
+	if (!first || first.startsWith("-")) return 0;
+	return COMMAND_GROUPS.has(first) && second && !second.startsWith("-") ? 2 : 1;
+};
+
+// ============================================================================
+// Adaptation
+// ============================================================================
+
+/**
+ * Route a command's argv through FLAG_ALIASES. Returns the adapted argv,
+ * or the first aliased flag the installed bd has no spelling for. Only
+ * flags the installed bd lists or FLAG_ALIASES names are touched, and
+ * nothing after "--". Without the command's flags (`null`), aliases are
+ * applied by `version` alone.
+ */
+export const adaptArgs = (
+	args: readonly string[],
+	flags: CommandFlags | null,
+	version: BdVersion | null = null,
+): { args: string[] } | { unsupported: string } => {
+	const depth = commandDepth(args);
+	const command = args.slice(0, depth).join(" ");
+	const adapted = args.slice(0, depth);
+
+	for (let i = depth; i < args.length; i++) {
+		const arg = args[i];
+		if (arg === "--") {
+			adapted.push(...args.slice(i));
+			break;
+		}
+		const match = arg.match(/^(--?[A-Za-z][\w-]*)(=.*)?$/s);
+		if (!match) {
+			adapted.push(arg);
+			continue;
+		}
+
+		const [, name, inline = ""] = match;
+		const alias = FLAG_ALIASES.find(
+			(entry) => entry.command === command && entry.flag === name,
+		);
+		if (!flags) {
+			const older =
+				alias?.since && version && isOlderThan(version, alias.since);
+			adapted.push(older ? alias.alternatives[0] + inline : arg);
+			continue;
+		}
+
+		let spelling = name;
+		if (!flags.has(name)) {
+			if (!alias) {
+				// A positional value that looks like a flag, or a flag bd
+				// will report itself
+				adapted.push(arg);
+				continue;
+			}
+			const alternative = alias.alternatives.find((flag) => flags.has(flag));
+			if (!alternative) return { unsupported: name };
+			spelling = alternative;
+		}
+		adapted.push(spelling + inline);
+
+		// Copy the value as-is so text like "--force" in a title is not
+		// mistaken for a flag
+		if (!inline && flags.get(spelling) && i + 1 < args.length) {
+			adapted.push(args[++i]);
+		}
+	}
+	return { args: adapted };
+};
+
+// ============================================================================
+// Runner
+// ============================================================================
+
+/**
+ * Wrap a runner so every call is adapted to the installed bd. The version
+ * is detected once; each command's help is read the first time it is used.
+ */
+export const createCompatRunner = (runBd: BdRunner): CompatBdRunner => {
+	let detected: Promise<BdVersion | null> | undefined;
+	const helps = new Map<string, Promise<CommandFlags | null>>();
+
+	const version = () => {
+		detected ??= runBd(["version"], { timeoutMs: DETECT_TIMEOUT_MS }).then(
+			(result) => (result.error ? null : parseBdVersion(result.stdout)),
+		);
+		return detected;
+	};
+
+	const commandFlags = (command: string) => {
+		let flags = helps.get(command);
+		if (!flags) {
+			flags = runBd([...command.split(" "), "--help"], {
+				timeoutMs: DETECT_TIMEOUT_MS,
+			}).then((result) =>
+				result.error ? null : parseHelpFlags(result.stdout),
+			);
+			helps.set(command, flags);
+		}
+		return flags;
+	};
+
+	const runner: BdRunner = async (args, options) => {
+		const depth = commandDepth(args);
+		if (depth === 0 || args[0] === "version" || args.includes("--help")) {
+			return runBd(args, options);
+		}
+
+		const command = args.slice(0, depth).join(" ");
+		const flags = await commandFlags(command);
+		const installed = flags ? null : await version();
+
+		const adapted = adaptArgs(args, flags, installed);
+		if ("args" in adapted) return runBd(adapted.args, options);
+
+		return {
+			args,
+			exitCode: null,
+			stdout: "",
+			stderr: "",
+			durationMs: 0,
+			error: new UnsupportedFlagError(
+				command,
+				adapted.unsupported,
+				(await version())?.raw,
+			),
+		};
+	};
+
+	return Object.assign(runner, { version, commandFlags });
+};
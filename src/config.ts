@@ -0,0 +1,303 @@
+/**
+ * Plugin Configuration
+ *
+ * Settings come from two places, later sources winning:
+ * 1. Plugin options in the OpenCode config:
+ *    `"plugin": [["@simonwjackson/opencode-beads", { "guard": "block" }]]`
+ * 2. `.beads/opencode.json` in the project (checked in next to the issues)
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * How strictly the guard steers agents from todowrite to beads
+ * - off: do nothing
+ * - remind: inject beads context at session start
+ * - warn: remind, plus a toast and a tip whenever todowrite is used
+ * - block: remind, and reject todowrite calls with an error
+ * - convert: remind, and convert todowrite lists into bd issues
+ */
+export type GuardMode = "off" | "remind" | "warn" | "block" | "convert";
+
+/**
+ * Extra requirements for closing issues of a type or with a label. A rule
+ * without `type` or `label` applies to every issue.
+ */
+export type CloseRule = {
+	type?: string;
+	label?: string;
+	/** bd_close must be given a reason */
+	requireReason?: boolean;
+	/** The verification command must pass */
+	requireVerify?: boolean;
+};
+
+export type BeadsPluginConfig = {
+	guard: {
+		mode: GuardMode;
+	};
+	/** Live context injected at session start */
+	context: {
+		/** Approximate token budget for the whole injection */
+		maxTokens: number;
+		/** How many ready issues to list */
+		readyLimit: number;
+		/** How many recently closed issues to list */
+		recentlyClosedLimit: number;
+	};
+	/** Gates checked by bd_close */
+	close: {
+		/** Verification command run through the shell, e.g. "bun test" */
+		verify?: string;
+		/** Time the verification command may take */
+		verifyTimeoutMs: number;
+		/** Record git HEAD and changed files as a comment on close */
+		linkCommit: boolean;
+		rules: CloseRule[];
+	};
+	/** Leases taken by bd_claim */
+	claim: {
+		/** How long a claim lasts without session activity */
+		leaseMs: number;
+	};
+};
+
+/**
+ * What the guard does in a given mode
+ */
+export type GuardBehavior = {
+	injectContext: boolean;
+	toastOnTodowrite: boolean;
+	tipAfterTodowrite: boolean;
+	blockTodowrite: boolean;
+	convertTodowrite: boolean;
+};
+
+// ============================================================================
+// Defaults
+// ============================================================================
+
+export const GUARD_MODES: readonly GuardMode[] = [
+	"off",
+	"remind",
+	"warn",
+	"block",
+	"convert",
+];
+
+export const DEFAULT_CONFIG: BeadsPluginConfig = {
+	guard: { mode: "warn" },
+	context: { maxTokens: 1500, readyLimit: 5, recentlyClosedLimit: 3 },
+	close: { verifyTimeoutMs: 600_000, linkCommit: false, rules: [] },
+	claim: { leaseMs: 1_800_000 },
+};
+
+/**
+ * Project-level config file, relative to the project directory
+ */
+export const PROJECT_CONFIG_PATH = join(".beads", "opencode.json");
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+const isGuardMode = (value: unknown): value is GuardMode =>
+	typeof value === "string" && GUARD_MODES.includes(value as GuardMode);
+
+/**
+ * Read the guard mode from a raw config object.
+ * Accepts `{ guard: "block" }`, `{ guard: { mode: "block" } }` and the
+ * legacy `{ todoBridge: true }` option.
+ */
+const readGuardMode = (
+	raw: Record<string, unknown>,
+	source: string,
+): GuardMode | undefined => {
+	const guard = raw.guard;
+	const mode =
+		typeof guard === "object" && guard !== null
+			? (guard as Record<string, unknown>).mode
+			: guard;
+
+	if (mode !== undefined) {
+		if (isGuardMode(mode)) return mode;
+		console.warn(
+			`[BeadsPlugin] Ignoring invalid guard mode ${JSON.stringify(mode)} in ${source} (expected one of: ${GUARD_MODES.join(", ")})`,
+		);
+	}
+	if (raw.todoBridge === true) return "convert";
+	return undefined;
+};
+
+/**
+ * Read non-negative integer settings from a config section, warning about
+ * (and skipping) invalid values
+ */
+const readNumbers = <K extends string>(
+	raw: Record<string, unknown>,
+	section: string,
+	keys: readonly K[],
+	source: string,
+): Partial<Record<K, number>> => {
+	const value = raw[section];
+	if (typeof value !== "object" || value === null) return {};
+	const settings = value as Record<string, unknown>;
+
+	const result: Partial<Record<K, number>> = {};
+	for (const key of keys) {
+		const setting = settings[key];
+		if (setting === undefined) continue;
+		if (
+			typeof setting === "number" &&
+			Number.isInteger(setting) &&
+			setting >= 0
+		) {
+			result[key] = setting;
+		} else {
+			console.warn(
+				`[BeadsPlugin] Ignoring invalid ${section}.${key} ${JSON.stringify(setting)} in ${source} (expected a non-negative integer)`,
+			);
+		}
+	}
+	return result;
+};
+
+const CONTEXT_KEYS = [
+	"maxTokens",
+	"readyLimit",
+	"recentlyClosedLimit",
+] as const;
+
+const isCloseRule = (value: unknown): value is CloseRule => {
+	if (typeof value !== "object" || value === null) return false;
+	const rule = value as Record<string, unknown>;
+	return (
+		(rule.type === undefined || typeof rule.type === "string") &&
+		(rule.label === undefined || typeof rule.label === "string") &&
+		(rule.requireReason === undefined ||
+			typeof rule.requireReason === "boolean") &&
+		(rule.requireVerify === undefined ||
+			typeof rule.requireVerify === "boolean")
+	);
+};
+
+/**
+ * Read the `close` section from a raw config object, warning about (and
+ * skipping) invalid values
+ */
+const readCloseConfig = (
+	raw: Record<string, unknown>,
+	source: string,
+): Partial<BeadsPluginConfig["close"]> => {
+	const value = raw.close;
+	if (typeof value !== "object" || value === null) return {};
+	const settings = value as Record<string, unknown>;
+	const warn = (key: string, expected: string) =>
+		console.warn(
+			`[BeadsPlugin] Ignoring invalid close.${key} ${JSON.stringify(settings[key])} in ${source} (expected ${expected})`,
+		);
+
+	const result: Partial<BeadsPluginConfig["close"]> = readNumbers(
+		raw,
+		"close",
+		["verifyTimeoutMs"],
+		source,
+	);
+	if (settings.verify !== undefined) {
+		if (typeof settings.verify === "string" && settings.verify.trim()) {
+			result.verify = settings.verify;
+		} else {
+			warn("verify", "a command string");
+		}
+	}
+	if (settings.linkCommit !== undefined) {
+		if (typeof settings.linkCommit === "boolean") {
+			result.linkCommit = settings.linkCommit;
+		} else {
+			warn("linkCommit", "true or false");
+		}
+	}
+	if (settings.rules !== undefined) {
+		const rules = Array.isArray(settings.rules)
+			? settings.rules.filter(isCloseRule)
+			: [];
+		if (
+			!Array.isArray(settings.rules) ||
+			rules.length < settings.rules.length
+		) {
+			warn(
+				"rules",
+				"an array of { type?, label?, requireReason?, requireVerify? }",
+			);
+		}
+		result.rules = rules;
+	}
+	return result;
+};
+
+/**
+ * Read `.beads/opencode.json`, returning an empty object when absent or invalid
+ */
+const readProjectConfig = (directory: string): Record<string, unknown> => {
+	const path = join(directory, PROJECT_CONFIG_PATH);
+	if (!existsSync(path)) return {};
+	try {
+		const parsed: unknown = JSON.parse(readFileSync(path, "utf-8"));
+		if (typeof parsed === "object" && parsed !== null) {
+			return parsed as Record<string, unknown>;
+		}
+	} catch (error) {
+		console.warn(`[BeadsPlugin] Failed to read ${PROJECT_CONFIG_PATH}:`, error);
+	}
+	return {};
+};
+
+/**
+ * Resolve the plugin config for a project
+ */
+export const loadPluginConfig = (
+	directory: string,
+	options?: Record<string, unknown>,
+): BeadsPluginConfig => {
+	const optionsRaw = options ?? {};
+	const projectRaw = readProjectConfig(directory);
+	const fromOptions = readGuardMode(optionsRaw, "plugin options");
+	const fromProject = readGuardMode(projectRaw, PROJECT_CONFIG_PATH);
+
+	return {
+		guard: {
+			mode: fromProject ?? fromOptions ?? DEFAULT_CONFIG.guard.mode,
+		},
+		context: {
+			...DEFAULT_CONFIG.context,
+			...readNumbers(optionsRaw, "context", CONTEXT_KEYS, "plugin options"),
+			...readNumbers(projectRaw, "context", CONTEXT_KEYS, PROJECT_CONFIG_PATH),
+		},
+		close: {
+			...DEFAULT_CONFIG.close,
+			...readCloseConfig(optionsRaw, "plugin options"),
+			...readCloseConfig(projectRaw, PROJECT_CONFIG_PATH),
+		},
+		claim: {
+			...DEFAULT_CONFIG.claim,
+			...readNumbers(optionsRaw, "claim", ["leaseMs"], "plugin options"),
+			...readNumbers(projectRaw, "claim", ["leaseMs"], PROJECT_CONFIG_PATH),
+		},
+	};
+};
+
+/**
+ * Resolve what the guard should do for a mode
+ */
+export const guardBehavior = (mode: GuardMode): GuardBehavior => ({
+	injectContext: mode !== "off",
+	toastOnTodowrite: mode === "warn",
+	tipAfterTodowrite: mode === "warn",
+	blockTodowrite: mode === "block",
+	convertTodowrite: mode === "convert",
+});
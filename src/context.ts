@@ -1,20 +1,72 @@
-// Context documentation loader
+/**
+ * Session Context
+ *
+ * Builds the message injected at session start: a short intro, a live
+ * snapshot of the project (in progress, ready, blocked, recently closed)
+ * and the workflow rules, trimmed to fit a token budget.
+ *
+ * The snapshot comes from issues.jsonl when possible and from the bd CLI
+ * otherwise. If neither works the context says so instead of failing.
+ */
+
+import type { BeadsPluginConfig } from "./config.js";
+import { parseIssueList } from "./domain.js";
+import {
+	blockedIssues,
+	type JsonlIssue,
+	type JsonlReader,
+	listIssues,
+	readyIssues,
+} from "./jsonl.js";
+import type { BdRunner } from "./tools.js";
+
+// ============================================================================
+// Templates
+// ============================================================================
+
+/**
+ * Always-included introduction to beads and the bd_* tools
+ */
+export const BEADS_CONTEXT_INTRO = `
+## Issue Tracking with Beads
+
+This project uses **beads** for issue tracking. The \`.beads\` directory contains the issue database.
+
+### Required Behavior:
+1. **Use bd_* tools** for all task management instead of the todowrite tool
+2. **Check existing issues** with \`bd_list\` before creating new work
+3. **Update issue status** as you work (open → in_progress → closed)
+4. **Link related issues** with dependencies when appropriate
+
+### Quick Reference:
+- \`bd_list\` - List issues (filter by status, priority, label; \`format: "compact"\` for large lists)
+- \`bd_ready\` - Show issues ready to work on (no blockers)
+- \`bd_claim\` - Claim the next ready issue (safe when several agents share the repo)
+- \`bd_create\` - Create new issue
+- \`bd_update\` - Update issue (status, priority, assignee)
+- \`bd_close\` - Close completed issues (give a reason saying what was done)
+- \`bd_show\` - View issue details
+- \`bd_epics\` - List epics
+- \`bd_search\` - Search issues by text
+
+**Do NOT use the todowrite tool** - use beads (bd_*) tools instead.
+`.trim();
 
 export const BEADS_WORKFLOW_RULES = `
 ## TASK TRACKING RULES (READ FIRST)
 
-**YOU MUST use \`bd\` (beads) for ALL task/issue tracking in this project.**
+**YOU MUST use the beads tools (\`bd_*\`) for ALL task/issue tracking in this project.**
 
 ### MANDATORY FIRST STEP - BEFORE ANY WORK
 
 **STOP. Before writing ANY code, reading files for implementation, or making changes:**
 
-1. \`bd ready --json\` - Check for ready work first
-2. \`bd create "task title" -t task -p 2 --json\` - Create the issue FIRST
-3. \`bd update <id> --status in_progress --json\` - Mark it in progress
+1. \`bd_ready\` - Check for ready work first
+2. \`bd_create\` - Create the issue FIRST if nothing ready covers the task
+3. \`bd_claim\` - Claim it and mark it in progress
 4. ONLY THEN start implementation
 
-**This is NON-NEGOTIABLE. No exceptions. Create the bd issue BEFORE you start working.**
+**This is NON-NEGOTIABLE. No exceptions. Create the issue BEFORE you start working.**
 
 ### PROHIBITED - Do NOT do these:
 
@@ -22,18 +74,12 @@ export const BEADS_WORKFLOW_RULES = `
 - **NEVER create markdown TODO lists** or \`- [ ]\` task syntax in any file
 - **NEVER create TODO.md, TASKS.md**, or similar tracking files
 - **NEVER use external issue trackers**
-- **NEVER start implementation without first creating a bd issue**
-
-### REQUIRED - Do these instead:
-
-- \`bd ready --json\` - Check for ready work
-- \`bd create "title" -t task -p 2 --json\` - Create issues
-- \`bd update <id> --status in_progress --json\` - Claim work
-- \`bd close <id> --reason "Done" --json\` - Complete work
+- **NEVER run \`bd\` in the shell** - the bd_* tools cover it
+- **NEVER start implementation without first creating an issue**
 
 ---
 
-## bd Quick Reference
+## Beads Quick Reference
 
 ### Issue Types
 \`bug\` | \`feature\` | \`task\` | \`epic\` | \`chore\`
@@ -42,9 +88,184 @@ export const BEADS_WORKFLOW_RULES = `
 \`0\` Critical | \`1\` High | \`2\` Medium | \`3\` Low | \`4\` Backlog
 
 ### Workflow
-1. \`bd ready\` - Find unblocked work
-2. \`bd update <id> --status in_progress\` - Claim it
+1. \`bd_ready\` - Find unblocked work
+2. \`bd_claim\` - Claim it
 3. Work on it
-4. \`bd close <id> --reason "Done"\` - Complete it
+4. \`bd_close\` with a reason - Complete it
 5. Commit \`.beads/issues.jsonl\` with code changes
-`
+`;
+
+// ============================================================================
+// Live State
+// ============================================================================
+
+/**
+ * What is in flight in the project right now
+ */
+export type ProjectSnapshot = {
+	inProgress: JsonlIssue[];
+	ready: JsonlIssue[];
+	blockedCount: number;
+	recentlyClosed: JsonlIssue[];
+};
+
+export type SessionContextOptions = BeadsPluginConfig["context"];
+
+/**
+ * Most recently closed first
+ */
+const byClosedAtDesc = (a: JsonlIssue, b: JsonlIssue): number =>
+	(b.closed_at ?? b.updated_at ?? "").localeCompare(
+		a.closed_at ?? a.updated_at ?? "",
+	);
+
+/**
+ * Load the live project state, or null when neither issues.jsonl nor the
+ * bd CLI can answer
+ */
+export const loadProjectSnapshot = async (
+	reader: JsonlReader,
+	runBd: BdRunner,
+	options: SessionContextOptions,
+): Promise<ProjectSnapshot | null> => {
+	const index = reader.load();
+	if (index) {
+		return {
+			inProgress: listIssues(index, { status: "in_progress" }),
+			ready: readyIssues(index, 0)
+				.filter((issue) => issue.status !== "in_progress")
+				.slice(0, options.readyLimit),
+			blockedCount: blockedIssues(index).length,
+			recentlyClosed: listIssues(index, { status: "closed" })
+				.sort(byClosedAtDesc)
+				.slice(0, options.recentlyClosedLimit),
+		};
+	}
+
+	const inProgress = await runBd(["list", "-s", "in_progress", "--json"]);
+	if (inProgress.error) return null;
+	const working = parseIssueList(inProgress.json);
+
+	// bd ready lists in-progress work too, so ask for enough to fill the
+	// section without it; closed issues come back in no particular order,
+	// so all of them are sorted before the newest are kept (-n 0 lifts the
+	// limit)
+	const [ready, blocked, closed] = await Promise.all([
+		runBd([
+			"ready",
+			"--json",
+			"-n",
+			String(options.readyLimit + working.length),
+		]),
+		runBd(["blocked", "--json"]),
+		runBd(["list", "-s", "closed", "--json", "-n", "0"]),
+	]);
+	if (ready.error || blocked.error || closed.error) return null;
+
+	return {
+		inProgress: working,
+		ready: parseIssueList(ready.json)
+			.filter((issue) => issue.status !== "in_progress")
+			.slice(0, options.readyLimit),
+		blockedCount: Array.isArray(blocked.json) ? blocked.json.length : 0,
+		recentlyClosed: parseIssueList(closed.json)
+			.sort(byClosedAtDesc)
+			.slice(0, options.recentlyClosedLimit),
+	};
+};
+
+// ============================================================================
+// Assembly
+// ============================================================================
+
+/**
+ * Rough token estimate (~4 characters per token)
+ */
+export const estimateTokens = (text: string): number =>
+	Math.ceil(text.length / 4);
+
+const formatIssueLine = (issue: JsonlIssue): string =>
+	`- ${issue.id} [P${issue.priority}] ${issue.title}`;
+
+/** Footer marking a snapshot that left issues out */
+const TRUNCATED_FOOTER = "\n(truncated - use `bd_list` for more)";
+
+/**
+ * Live state section, adding lines only while they fit the budget (empty
+ * when not even the heading fits)
+ */
+const formatSnapshot = (
+	snapshot: ProjectSnapshot | null,
+	budgetTokens: number,
+): string => {
+	if (!snapshot) {
+		const notice =
+			"## Current State\n\nLive issue state is unavailable (bd could not be queried). Run `bd_ready` to see what's actionable.";
+		return estimateTokens(notice) <= budgetTokens ? notice : "";
+	}
+
+	const lines: string[] = [];
+	let truncated = false;
+
+	/**
+	 * Add a line if it fits, leaving room for the truncation footer
+	 */
+	const add = (line: string): boolean => {
+		const text = [...lines, line, TRUNCATED_FOOTER].join("\n");
+		if (estimateTokens(text) > budgetTokens) {
+			truncated = true;
+			return false;
+		}
+		lines.push(line);
+		return true;
+	};
+
+	const addSection = (heading: string, issues: JsonlIssue[]) => {
+		if (issues.length === 0) return;
+		if (!add(`\n### ${heading}`)) return;
+		for (const issue of issues) {
+			if (!add(formatIssueLine(issue))) return;
+		}
+	};
+
+	if (!add("## Current State")) return "";
+	addSection("In Progress", snapshot.inProgress);
+	addSection("Ready", snapshot.ready);
+	if (snapshot.blockedCount > 0) {
+		add(`\n${snapshot.blockedCount} issue(s) blocked - see \`bd_blocked\`.`);
+	}
+	addSection("Recently Closed", snapshot.recentlyClosed);
+
+	if (
+		snapshot.inProgress.length === 0 &&
+		snapshot.ready.length === 0 &&
+		snapshot.recentlyClosed.length === 0
+	) {
+		add("\nNo open issues yet - use `bd_create` to add work.");
+	}
+	if (truncated) lines.push(TRUNCATED_FOOTER);
+	return lines.join("\n");
+};
+
+/**
+ * Build the session-start context within the configured token budget.
+ *
+ * Sections are added in priority order - intro, live state, workflow
+ * rules - and the rules are dropped when they no longer fit.
+ */
+export const buildSessionContext = (
+	snapshot: ProjectSnapshot | null,
+	options: SessionContextOptions,
+): string => {
+	const sections = [BEADS_CONTEXT_INTRO];
+	let remaining = options.maxTokens - estimateTokens(BEADS_CONTEXT_INTRO);
+
+	const state = formatSnapshot(snapshot, Math.max(remaining, 0));
+	if (state) sections.push(state);
+	remaining -= estimateTokens(state);
+
+	const rules = BEADS_WORKFLOW_RULES.trim();
+	if (estimateTokens(rules) <= remaining) sections.push(rules);
+
+	return `<system-reminder>\n${sections.join("\n\n")}\n</system-reminder>`;
+};
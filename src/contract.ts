@@ -0,0 +1,955 @@
+/**
+ * bd Tool Contract Suite
+ *
+ * Exercises every tool factory from createAllTools against a BdRunner and
+ * checks the observable behaviour the plugin relies on. Run it against the
+ * in-memory runner for offline tests, or against createBdRunner in a
+ * freshly `bd init`-ed directory to catch flag drift in the real CLI.
+ *
+ * BD_WORKSPACE_CONTRACT_CASES cover the tools that also work on the
+ * workspace directory (close gates, claims, TODO import, export, release
+ * notes, diff). They need that directory: a scratch git repository with at
+ * least one commit, whose .beads/issues.jsonl the runner keeps current.
+ *
+ * The suite is runner-agnostic and has no test-framework dependency:
+ * wire runBdContract into whichever test runner your project uses.
+ */
+
+import type { ToolContext, ToolResult } from "@opencode-ai/plugin/tool";
+import { existsSync, rmSync, writeFileSync } from "node:fs";
+import { join, resolve } from "node:path";
+import type { BeadsPluginConfig } from "./config.js";
+import { type BdErrorInfo, getBdErrorInfo } from "./errors.js";
+import { createJsonlReader } from "./jsonl.js";
+import { createLeaseStore, sessionAssignee } from "./lease.js";
+import { createSessionTracker, type SessionTracker } from "./session.js";
+import {
+	type BdRunner,
+	createAllTools,
+	createBdWorkspaces,
+	createWorkspaceTools,
+} from "./tools.js";
+import { defaultWorkspace, discoverWorkspaces } from "./workspace.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type Tools = ReturnType<typeof createWorkspaceTools> & {
+	bd_workspaces: ReturnType<typeof createBdWorkspaces>;
+};
+
+export type ContractCall = {
+	output: string;
+	error: BdErrorInfo | null;
+};
+
+export type ContractContext = {
+	/** Invoke a tool by name with the given args (as session "contract") */
+	call: (
+		name: keyof Tools,
+		args?: Record<string, unknown>,
+		sessionId?: string,
+	) => Promise<ContractCall>;
+	/** Values shared between cases (e.g. created issue IDs) */
+	state: Map<string, string>;
+	/** Session bindings behind bd_current (bound by the plugin, not a tool) */
+	sessions: SessionTracker;
+	/** Workspace directory, when the run was given one */
+	directory?: string;
+};
+
+export type ContractCase = {
+	name: string;
+	/** Tools this case exercises */
+	tools: Array<keyof Tools>;
+	run: (ctx: ContractContext) => Promise<void>;
+};
+
+export type ContractResult = {
+	name: string;
+	passed: boolean;
+	error?: string;
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export class ContractViolation extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "ContractViolation";
+	}
+}
+
+const expect = (condition: unknown, message: string): void => {
+	if (!condition) throw new ContractViolation(message);
+};
+
+const expectOk = (result: ContractCall, what: string): string => {
+	expect(
+		!result.error,
+		`${what} failed: ${result.error?.message ?? ""} (${result.error?.code ?? ""})`,
+	);
+	return result.output;
+};
+
+const parseJsonArray = (
+	output: string,
+	what: string,
+): Array<Record<string, unknown>> => {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(output);
+	} catch {
+		// Tools report empty results with a plain message
+		return [];
+	}
+	expect(Array.isArray(parsed), `${what} did not return a JSON array`);
+	return parsed as Array<Record<string, unknown>>;
+};
+
+const parseJson = <T>(output: string, what: string): T => {
+	try {
+		return JSON.parse(output) as T;
+	} catch {
+		throw new ContractViolation(`${what} did not return JSON`);
+	}
+};
+
+const ids = (issues: Array<Record<string, unknown>>): string[] =>
+	issues.map((issue) => String(issue.id));
+
+const requireState = (ctx: ContractContext, key: string): string => {
+	const value = ctx.state.get(key);
+	expect(value, `missing ${key} from an earlier case`);
+	return value as string;
+};
+
+/**
+ * Create an issue and look up its ID by (unique) title
+ */
+const createIssue = async (
+	ctx: ContractContext,
+	key: string,
+	args: Record<string, unknown>,
+): Promise<string> => {
+	expectOk(await ctx.call("bd_create", args), `bd_create ${key}`);
+	const found = parseJsonArray(
+		expectOk(
+			await ctx.call("bd_search", { query: String(args.title) }),
+			"bd_search",
+		),
+		"bd_search",
+	);
+	const match = found.find((issue) => issue.title === args.title);
+	expect(match, `created issue "${args.title}" not found by bd_search`);
+	const id = String(match?.id);
+	ctx.state.set(key, id);
+	return id;
+};
+
+/** Session the contract calls tools as, unless a case names another */
+const CONTRACT_SESSION = "contract";
+
+const requireDirectory = (ctx: ContractContext): string => {
+	expect(ctx.directory, "workspace cases need a workspace directory");
+	return ctx.directory as string;
+};
+
+const createContext = (
+	abort: AbortSignal,
+	sessionID = CONTRACT_SESSION,
+): ToolContext => ({
+	sessionID,
+	messageID: "contract",
+	agent: "contract",
+	directory: ".",
+	worktree: ".",
+	abort,
+	metadata: () => {},
+	ask: async () => {},
+});
+
+const normalize = (result: ToolResult): ContractCall =>
+	typeof result === "string"
+		? { output: result, error: null }
+		: { output: result.output, error: getBdErrorInfo(result.metadata) };
+
+// ============================================================================
+// Cases
+// ============================================================================
+
+/**
+ * Unique suffix so repeated runs against a real database don't collide
+ */
+const RUN = Date.now().toString(36);
+
+export const BD_CONTRACT_CASES: ContractCase[] = [
+	{
+		name: "create issues with priority, labels and assignee",
+		tools: ["bd_create", "bd_search", "bd_show"],
+		run: async (ctx) => {
+			const api = await createIssue(ctx, "api", {
+				title: `Contract API ${RUN}`,
+				body: "Build the API; handles $(quotes) and `backticks`",
+				priority: "high",
+				labels: "contract,backend",
+				assignee: "contract-agent",
+			});
+			await createIssue(ctx, "ui", {
+				title: `Contract UI ${RUN}`,
+				priority: "medium",
+				labels: "contract",
+			});
+			const shown = expectOk(await ctx.call("bd_show", { id: api }), "bd_show");
+			expect(
+				shown.includes(api),
+				"bd_show output does not mention the issue ID",
+			);
+			expect(shown.includes("$(quotes)"), "bd_show lost shell metacharacters");
+		},
+	},
+	{
+		name: "list with filters",
+		tools: ["bd_list"],
+		run: async (ctx) => {
+			const api = requireState(ctx, "api");
+			const ui = requireState(ctx, "ui");
+			const byLabel = ids(
+				parseJsonArray(
+					expectOk(await ctx.call("bd_list", { label: "backend" }), "bd_list"),
+					"bd_list",
+				),
+			);
+			expect(byLabel.includes(api), "bd_list label filter missed the issue");
+			expect(!byLabel.includes(ui), "bd_list label filter leaked an issue");
+
+			const byPriority = ids(
+				parseJsonArray(
+					expectOk(await ctx.call("bd_list", { priority: "high" }), "bd_list"),
+					"bd_list",
+				),
+			);
+			expect(
+				byPriority.includes(api),
+				"bd_list priority filter missed the issue",
+			);
+
+			const byAssignee = ids(
+				parseJsonArray(
+					expectOk(
+						await ctx.call("bd_list", { assignee: "contract-agent" }),
+						"bd_list",
+					),
+					"bd_list",
+				),
+			);
+			expect(
+				byAssignee.includes(api),
+				"bd_list assignee filter missed the issue",
+			);
+		},
+	},
+	{
+		name: "update fields",
+		tools: ["bd_update"],
+		run: async (ctx) => {
+			const ui = requireState(ctx, "ui");
+			expectOk(
+				await ctx.call("bd_update", {
+					ids: ui,
+					status: "in_progress",
+					title: `Contract UI ${RUN} (renamed)`,
+				}),
+				"bd_update",
+			);
+			const inProgress = ids(
+				parseJsonArray(
+					expectOk(
+						await ctx.call("bd_list", { status: "in_progress" }),
+						"bd_list",
+					),
+					"bd_list",
+				),
+			);
+			expect(inProgress.includes(ui), "bd_update did not change the status");
+		},
+	},
+	{
+		name: "dependencies drive ready and blocked",
+		tools: ["bd_dep_add", "bd_deps", "bd_ready", "bd_blocked", "bd_dep_remove"],
+		run: async (ctx) => {
+			const api = requireState(ctx, "api");
+			const ui = requireState(ctx, "ui");
+			expectOk(
+				await ctx.call("bd_dep_add", { id: ui, depends_on: api }),
+				"bd_dep_add",
+			);
+			const tree = expectOk(await ctx.call("bd_deps", { id: ui }), "bd_deps");
+			expect(tree.includes(api), "bd_deps does not show the dependency");
+
+			const blocked = ids(
+				parseJsonArray(
+					expectOk(await ctx.call("bd_blocked"), "bd_blocked"),
+					"bd_blocked",
+				),
+			);
+			expect(blocked.includes(ui), "bd_blocked missed the dependent issue");
+
+			const ready = ids(
+				parseJsonArray(
+					expectOk(await ctx.call("bd_ready", { limit: 100 }), "bd_ready"),
+					"bd_ready",
+				),
+			);
+			expect(ready.includes(api), "bd_ready missed the unblocked issue");
+			expect(!ready.includes(ui), "bd_ready listed a blocked issue");
+
+			expectOk(
+				await ctx.call("bd_dep_remove", { id: ui, depends_on: api }),
+				"bd_dep_remove",
+			);
+			const after = ids(
+				parseJsonArray(
+					expectOk(await ctx.call("bd_blocked"), "bd_blocked"),
+					"bd_blocked",
+				),
+			);
+			expect(!after.includes(ui), "bd_dep_remove left the issue blocked");
+		},
+	},
+	{
+		name: "dependency preflight rejects cycles",
+		tools: ["bd_dep_add", "bd_dep_remove"],
+		run: async (ctx) => {
+			const api = requireState(ctx, "api");
+			const ui = requireState(ctx, "ui");
+			const self = await ctx.call("bd_dep_add", { id: ui, depends_on: ui });
+			expect(
+				self.error?.code === "invalid_dependency",
+				"bd_dep_add accepted a self-dependency",
+			);
+
+			expectOk(
+				await ctx.call("bd_dep_add", { id: ui, depends_on: api }),
+				"bd_dep_add",
+			);
+			const reversed = await ctx.call("bd_dep_add", {
+				id: api,
+				depends_on: ui,
+			});
+			expect(
+				reversed.error?.code === "invalid_dependency",
+				"bd_dep_add accepted an edge that creates a cycle",
+			);
+			expectOk(
+				await ctx.call("bd_dep_remove", { id: ui, depends_on: api }),
+				"bd_dep_remove",
+			);
+		},
+	},
+	{
+		name: "labels",
+		tools: ["bd_label_add", "bd_label_remove", "bd_labels"],
+		run: async (ctx) => {
+			const ui = requireState(ctx, "ui");
+			expectOk(
+				await ctx.call("bd_label_add", { id: ui, label: "frontend" }),
+				"bd_label_add",
+			);
+			const labels = expectOk(await ctx.call("bd_labels"), "bd_labels");
+			expect(labels.includes("frontend"), "bd_labels missed an added label");
+			expectOk(
+				await ctx.call("bd_label_remove", { id: ui, label: "frontend" }),
+				"bd_label_remove",
+			);
+		},
+	},
+	{
+		name: "comments",
+		tools: ["bd_comment", "bd_comments"],
+		run: async (ctx) => {
+			const api = requireState(ctx, "api");
+			const text = "Comment with ; rm -rf / and \\ backslash";
+			expectOk(
+				await ctx.call("bd_comment", { id: api, body: text }),
+				"bd_comment",
+			);
+			const comments = expectOk(
+				await ctx.call("bd_comments", { id: api }),
+				"bd_comments",
+			);
+			expect(
+				comments.includes("rm -rf /"),
+				"bd_comments lost the comment text",
+			);
+		},
+	},
+	{
+		name: "epics",
+		tools: ["bd_epic_create", "bd_epics", "bd_epic_show"],
+		run: async (ctx) => {
+			const title = `Contract Epic ${RUN}`;
+			expectOk(await ctx.call("bd_epic_create", { title }), "bd_epic_create");
+			const epics = parseJsonArray(
+				expectOk(await ctx.call("bd_epics"), "bd_epics"),
+				"bd_epics",
+			);
+			const epic = epics.find((issue) => issue.title === title);
+			expect(epic, "bd_epics missed the created epic");
+			const epicId = String(epic?.id);
+			ctx.state.set("epic", epicId);
+
+			expectOk(
+				await ctx.call("bd_update", {
+					ids: requireState(ctx, "api"),
+					epic: epicId,
+				}),
+				"bd_update epic",
+			);
+			const shown = expectOk(
+				await ctx.call("bd_epic_show", { id: epicId }),
+				"bd_epic_show",
+			);
+			expect(shown.includes(epicId), "bd_epic_show does not mention the epic");
+		},
+	},
+	{
+		name: "search, count and stale",
+		tools: ["bd_search", "bd_count", "bd_stale"],
+		run: async (ctx) => {
+			const found = parseJsonArray(
+				expectOk(await ctx.call("bd_search", { query: RUN }), "bd_search"),
+				"bd_search",
+			);
+			expect(found.length >= 2, "bd_search missed created issues");
+			const count = expectOk(
+				await ctx.call("bd_count", { label: "contract" }),
+				"bd_count",
+			);
+			expect(/\d/.test(count), "bd_count did not return a number");
+			expectOk(await ctx.call("bd_stale", { days: 1 }), "bd_stale");
+		},
+	},
+	{
+		name: "batch, plan and graph",
+		tools: ["bd_batch", "bd_plan", "bd_graph"],
+		run: async (ctx) => {
+			const label = `contract-batch-${RUN}`;
+			type Batched = { handles?: Record<string, string> };
+			const batch = parseJson<Batched>(
+				expectOk(
+					await ctx.call("bd_batch", {
+						operations: [
+							{
+								op: "create",
+								handle: "first",
+								title: `Batch first ${RUN}`,
+								labels: label,
+							},
+							{
+								op: "create",
+								handle: "second",
+								title: `Batch second ${RUN}`,
+								labels: label,
+								depends_on: "$first",
+							},
+							{ op: "comment", id: "$second", text: "Batched comment" },
+						],
+					}),
+					"bd_batch",
+				),
+				"bd_batch",
+			);
+			const first = batch.handles?.first;
+			const second = batch.handles?.second;
+			expect(first && second, "bd_batch did not return the created IDs");
+
+			const failed = await ctx.call("bd_batch", {
+				operations: [
+					{ op: "create", title: `Batch rolled back ${RUN}`, labels: label },
+					{ op: "close", id: `contract-missing-${RUN}` },
+				],
+			});
+			expect(
+				failed.error?.code === "batch_failed",
+				"bd_batch reported a failed step as success",
+			);
+			const left = parseJsonArray(
+				expectOk(
+					await ctx.call("bd_search", { query: `Batch rolled back ${RUN}` }),
+					"bd_search",
+				),
+				"bd_search",
+			);
+			expect(left.length === 0, "bd_batch left a rolled-back issue behind");
+
+			type Plan = { waves?: Array<{ issues: Array<{ id: string }> }> };
+			const plan = parseJson<Plan>(
+				expectOk(await ctx.call("bd_plan", { label }), "bd_plan"),
+				"bd_plan",
+			);
+			const waveOf = (id: string | undefined) =>
+				plan.waves?.findIndex((wave) => wave.issues.some((i) => i.id === id));
+			expect(
+				waveOf(first) === 0 && waveOf(second) === 1,
+				"bd_plan did not put the dependent issue in a later wave",
+			);
+
+			const graph = expectOk(
+				await ctx.call("bd_graph", { label, format: "dot" }),
+				"bd_graph",
+			);
+			expect(
+				graph.includes(String(first)) && graph.includes(String(second)),
+				"bd_graph missed an issue in scope",
+			);
+		},
+	},
+	{
+		name: "epic plans create once and reuse on re-runs",
+		tools: ["bd_epic_plan"],
+		run: async (ctx) => {
+			const outline = [
+				`# Contract Plan ${RUN}`,
+				`1. Plan step one ${RUN}`,
+				`2. Plan step two ${RUN}`,
+			].join("\n");
+			type Planned = { created?: number; existing?: number };
+			const plan = async () =>
+				parseJson<Planned>(
+					expectOk(await ctx.call("bd_epic_plan", { outline }), "bd_epic_plan"),
+					"bd_epic_plan",
+				);
+			const first = await plan();
+			expect(first.created === 3, "bd_epic_plan did not create the tree");
+			const again = await plan();
+			expect(
+				again.created === 0 && again.existing === 3,
+				"bd_epic_plan duplicated issues on a re-run",
+			);
+
+			const malformed = await ctx.call("bd_epic_plan", { outline: "" });
+			expect(malformed.error, "bd_epic_plan accepted an empty outline");
+		},
+	},
+	{
+		name: "close, reopen and delete",
+		tools: ["bd_close", "bd_reopen", "bd_delete_issue"],
+		run: async (ctx) => {
+			const ui = requireState(ctx, "ui");
+			expectOk(await ctx.call("bd_close", { ids: ui }), "bd_close");
+			const closed = ids(
+				parseJsonArray(
+					expectOk(await ctx.call("bd_list", { status: "closed" }), "bd_list"),
+					"bd_list",
+				),
+			);
+			expect(closed.includes(ui), "bd_close did not close the issue");
+			expectOk(await ctx.call("bd_reopen", { ids: ui }), "bd_reopen");
+			expectOk(
+				await ctx.call("bd_delete_issue", { ids: ui }),
+				"bd_delete_issue",
+			);
+			const shown = await ctx.call("bd_show", { id: ui });
+			expect(
+				shown.error?.code === "issue_not_found",
+				"deleted issue is still shown",
+			);
+		},
+	},
+	{
+		name: "failures are reported, not faked",
+		tools: ["bd_close", "bd_show"],
+		run: async (ctx) => {
+			const missing = `contract-missing-${RUN}`;
+			const result = await ctx.call("bd_close", { ids: missing });
+			expect(result.error, "closing a missing issue reported success");
+			const shown = await ctx.call("bd_show", { id: missing });
+			expect(shown.error, "showing a missing issue reported success");
+		},
+	},
+	{
+		name: "database and maintenance tools respond",
+		tools: [
+			"bd_status",
+			"bd_stats",
+			"bd_info",
+			"bd_validate",
+			"bd_doctor",
+			"bd_sync",
+			"bd_templates",
+			"bd_create_from_template",
+			"bd_cleanup",
+			"bd_compact",
+			"bd_duplicates",
+			"bd_repair_deps",
+			"bd_prime",
+		],
+		run: async (ctx) => {
+			// These depend on environment (remotes, templates, daemon), so the
+			// contract only requires a tool result rather than a thrown error.
+			const calls: Array<[keyof Tools, Record<string, unknown>]> = [
+				["bd_status", {}],
+				["bd_stats", {}],
+				["bd_info", {}],
+				["bd_validate", {}],
+				["bd_doctor", {}],
+				["bd_sync", {}],
+				["bd_templates", {}],
+				["bd_cleanup", { older_than: 3650 }],
+				["bd_compact", { older_than: 3650 }],
+				["bd_duplicates", {}],
+				["bd_repair_deps", {}],
+				["bd_prime", {}],
+				["bd_create_from_template", { template: `missing-${RUN}`, title: "x" }],
+			];
+			for (const [name, args] of calls) {
+				const result = await ctx.call(name, args);
+				expect(
+					typeof result.output === "string",
+					`${name} did not return a tool result`,
+				);
+			}
+		},
+	},
+];
+
+/**
+ * Close gates the workspace cases run bd_close with: issues labelled
+ * contract-gated need a reason and a verification run, which always fails
+ */
+const CONTRACT_CLOSE: BeadsPluginConfig["close"] = {
+	verify: "exit 1",
+	verifyTimeoutMs: 60_000,
+	linkCommit: false,
+	rules: [
+		{ label: "contract-gated", requireReason: true, requireVerify: true },
+	],
+};
+
+/**
+ * Cases for the tools built by createWorkspaceTools on top of
+ * createAllTools; run them with a workspace directory
+ */
+export const BD_WORKSPACE_CONTRACT_CASES: ContractCase[] = [
+	{
+		name: "claims are exclusive until released",
+		tools: ["bd_claim", "bd_current", "bd_release"],
+		run: async (ctx) => {
+			const id = await createIssue(ctx, "claim", {
+				title: `Contract Claim ${RUN}`,
+				labels: "contract-claim",
+			});
+			const unbound = expectOk(await ctx.call("bd_current"), "bd_current");
+			expect(!unbound.includes(id), "bd_current showed an unbound issue");
+
+			const claimed = expectOk(await ctx.call("bd_claim", { id }), "bd_claim");
+			expect(claimed.includes(id), "bd_claim did not name the issue");
+			const assigned = ids(
+				parseJsonArray(
+					expectOk(
+						await ctx.call("bd_list", {
+							status: "in_progress",
+							assignee: sessionAssignee(CONTRACT_SESSION),
+						}),
+						"bd_list",
+					),
+					"bd_list",
+				),
+			);
+			expect(assigned.includes(id), "bd_claim did not assign the issue");
+
+			const taken = await ctx.call("bd_claim", { id }, "contract-other");
+			expect(
+				taken.error?.code === "claim_conflict",
+				"bd_claim took an issue another session holds",
+			);
+
+			// The plugin binds claimed issues to the session after the call
+			ctx.sessions.bind(CONTRACT_SESSION, {
+				id,
+				title: `Contract Claim ${RUN}`,
+				status: "in_progress",
+				boundAt: new Date().toISOString(),
+			});
+			const current = expectOk(await ctx.call("bd_current"), "bd_current");
+			expect(current.includes(id), "bd_current did not show the bound issue");
+			ctx.sessions.unbind(CONTRACT_SESSION);
+
+			const released = expectOk(await ctx.call("bd_release"), "bd_release");
+			expect(released.includes(id), "bd_release did not release the claim");
+			const open = ids(
+				parseJsonArray(
+					expectOk(
+						await ctx.call("bd_list", {
+							status: "open",
+							label: "contract-claim",
+						}),
+						"bd_list",
+					),
+					"bd_list",
+				),
+			);
+			expect(open.includes(id), "bd_release did not reopen the issue");
+
+			expectOk(
+				await ctx.call("bd_claim", { id }, "contract-other"),
+				"bd_claim after release",
+			);
+			expectOk(
+				await ctx.call("bd_release", { ids: id }, "contract-other"),
+				"bd_release",
+			);
+		},
+	},
+	{
+		name: "close gates require a reason and passing verification",
+		tools: ["bd_close", "bd_comments"],
+		run: async (ctx) => {
+			const gated = await createIssue(ctx, "gated", {
+				title: `Contract Gated ${RUN}`,
+				labels: "contract-gated",
+			});
+			const bare = await ctx.call("bd_close", { ids: gated });
+			expect(
+				bare.error?.code === "close_blocked",
+				"bd_close closed a gated issue without a reason",
+			);
+			const failing = await ctx.call("bd_close", {
+				ids: gated,
+				reason: "Done",
+			});
+			expect(
+				failing.error?.code === "close_blocked",
+				"bd_close closed an issue whose verification failed",
+			);
+
+			const done = await createIssue(ctx, "done", {
+				title: `Contract Done ${RUN}`,
+				type: "feature",
+			});
+			const closed = expectOk(
+				await ctx.call("bd_close", {
+					ids: done,
+					reason: "Shipped",
+					link_commit: true,
+				}),
+				"bd_close",
+			);
+			expect(
+				closed.includes("Closed at commit"),
+				"bd_close did not record the commit",
+			);
+			const comments = expectOk(
+				await ctx.call("bd_comments", { id: done }),
+				"bd_comments",
+			);
+			expect(
+				comments.includes("Closed at commit"),
+				"bd_close did not comment the commit on the issue",
+			);
+		},
+	},
+	{
+		name: "release notes and diff since a ref",
+		tools: ["bd_release_notes", "bd_diff"],
+		run: async (ctx) => {
+			const done = requireState(ctx, "done");
+			const notes = expectOk(
+				await ctx.call("bd_release_notes", { since: "HEAD" }),
+				"bd_release_notes",
+			);
+			expect(
+				notes.includes(done),
+				"bd_release_notes missed an issue closed since the ref",
+			);
+
+			const diff = parseJson<{ changes?: Array<{ id: string }> }>(
+				expectOk(
+					await ctx.call("bd_diff", { from: "HEAD", format: "json" }),
+					"bd_diff",
+				),
+				"bd_diff",
+			);
+			expect(
+				diff.changes?.some((change) => change.id === done),
+				"bd_diff missed an issue changed since the ref",
+			);
+			const unknown = await ctx.call("bd_diff", { from: `missing-${RUN}` });
+			expect(
+				unknown.error?.code === "invalid_argument",
+				"bd_diff accepted an unknown ref",
+			);
+		},
+	},
+	{
+		name: "TODO import creates each issue once",
+		tools: ["bd_import_todos"],
+		run: async (ctx) => {
+			const file = `contract-todos-${RUN}.md`;
+			const path = join(requireDirectory(ctx), file);
+			writeFileSync(path, `# Notes\n\n- [ ] Contract todo ${RUN}\n`);
+			try {
+				type Imported = {
+					proposed?: unknown[];
+					created?: unknown[];
+					skipped?: { already_imported?: number };
+				};
+				const importTodos = async (args: Record<string, unknown>) =>
+					parseJson<Imported>(
+						expectOk(
+							await ctx.call("bd_import_todos", { path: file, ...args }),
+							"bd_import_todos",
+						),
+						"bd_import_todos",
+					);
+
+				const preview = await importTodos({ dry_run: true });
+				expect(
+					preview.proposed?.length === 1,
+					"bd_import_todos dry run did not propose the item",
+				);
+				const first = await importTodos({});
+				expect(
+					first.created?.length === 1,
+					"bd_import_todos did not create the issue",
+				);
+				const again = await importTodos({});
+				expect(
+					again.created?.length === 0 && again.skipped?.already_imported === 1,
+					"bd_import_todos imported an item twice",
+				);
+			} finally {
+				rmSync(path, { force: true });
+			}
+		},
+	},
+	{
+		name: "export writes only inside the workspace",
+		tools: ["bd_export"],
+		run: async (ctx) => {
+			const done = requireState(ctx, "done");
+			const csv = expectOk(
+				await ctx.call("bd_export", { format: "csv", status: "closed" }),
+				"bd_export",
+			);
+			expect(csv.includes(done), "bd_export missed a matching issue");
+
+			const file = `contract-export-${RUN}.md`;
+			const path = join(requireDirectory(ctx), file);
+			try {
+				expectOk(await ctx.call("bd_export", { output: file }), "bd_export");
+				expect(existsSync(path), "bd_export did not write the file");
+			} finally {
+				rmSync(path, { force: true });
+			}
+			const outside = await ctx.call("bd_export", {
+				output: `../contract-export-${RUN}.md`,
+			});
+			expect(
+				outside.error?.code === "invalid_argument",
+				"bd_export wrote outside the workspace",
+			);
+		},
+	},
+	{
+		name: "workspaces are discovered",
+		tools: ["bd_workspaces"],
+		run: async (ctx) => {
+			const listed = expectOk(await ctx.call("bd_workspaces"), "bd_workspaces");
+			expect(
+				listed.includes(resolve(requireDirectory(ctx))),
+				"bd_workspaces did not list the workspace",
+			);
+		},
+	},
+];
+
+// ============================================================================
+// Runner
+// ============================================================================
+
+/**
+ * Tools for the workspace cases, set up the way the plugin sets them up
+ */
+const createContractTools = (
+	runBd: BdRunner,
+	directory: string,
+	sessions: SessionTracker,
+): Tools => {
+	const discovery = discoverWorkspaces(directory);
+	return {
+		...createWorkspaceTools(runBd, {
+			directory,
+			reader: createJsonlReader(directory),
+			close: CONTRACT_CLOSE,
+			sessions,
+			leases: createLeaseStore(directory, 60_000),
+		}),
+		bd_workspaces: createBdWorkspaces(
+			discovery,
+			defaultWorkspace(discovery, directory),
+		),
+	};
+};
+
+/**
+ * Run the contract cases in order against a bd runner. Workspace cases
+ * also need the workspace `directory`.
+ *
+ * Cases share state (later cases use issues created by earlier ones), so a
+ * failure can cascade; the first failure is the one to look at.
+ */
+export const runBdContract = async (
+	runBd: BdRunner,
+	cases: ContractCase[] = BD_CONTRACT_CASES,
+	directory?: string,
+): Promise<ContractResult[]> => {
+	const sessions = createSessionTracker();
+	const tools: Partial<Tools> = directory
+		? createContractTools(runBd, directory, sessions)
+		: createAllTools(runBd);
+	const controller = new AbortController();
+	const ctx: ContractContext = {
+		state: new Map(),
+		sessions,
+		directory,
+		call: async (name, args = {}, sessionId) => {
+			const definition = tools[name] as unknown as
+				| {
+						execute: (
+							args: unknown,
+							context: ToolContext,
+						) => Promise<ToolResult>;
+				  }
+				| undefined;
+			if (!definition) {
+				throw new ContractViolation(`${name} needs a workspace directory`);
+			}
+			return normalize(
+				await definition.execute(
+					args,
+					createContext(controller.signal, sessionId),
+				),
+			);
+		},
+	};
+
+	const results: ContractResult[] = [];
+	for (const contractCase of cases) {
+		try {
+			await contractCase.run(ctx);
+			results.push({ name: contractCase.name, passed: true });
+		} catch (error) {
+			results.push({
+				name: contractCase.name,
+				passed: false,
+				error: error instanceof Error ? error.message : String(error),
+			});
+		}
+	}
+	return results;
+};
@@ -0,0 +1,225 @@
+/**
+ * Dependency Validation
+ *
+ * Checks a proposed "blocks" dependency against the current issue graph
+ * before bd is asked to add it. Agents regularly add self-dependencies,
+ * reversed edges, links to closed or missing issues, and cycles that leave
+ * work blocked forever; each of these is rejected with an explanation and
+ * suggested alternatives.
+ *
+ * Arrows in messages read "depends on": A → B means A waits for B.
+ */
+
+import { InvalidDependencyError } from "./errors.js";
+import type { IssueIndex } from "./jsonl.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DependencyProblemKind =
+	| "self"
+	| "missing"
+	| "duplicate"
+	| "closed"
+	| "ancestor"
+	| "reversed"
+	| "cycle";
+
+export type DependencyProblem = {
+	kind: DependencyProblemKind;
+	message: string;
+	suggestions: string[];
+};
+
+// ============================================================================
+// Graph Queries
+// ============================================================================
+
+/**
+ * Shortest chain of "depends on" edges from one issue to another, both
+ * ends included, or null when `to` is not reachable
+ */
+export const findDependencyPath = (
+	index: IssueIndex,
+	from: string,
+	to: string,
+): string[] | null => {
+	const previous = new Map<string, string>();
+	const queue = [from];
+	const seen = new Set([from]);
+	while (queue.length > 0) {
+		const id = queue.shift() as string;
+		if (id === to) {
+			const path = [id];
+			for (let step = previous.get(id); step; step = previous.get(step)) {
+				path.unshift(step);
+			}
+			return path;
+		}
+		for (const blocker of index.blockers.get(id) ?? []) {
+			if (seen.has(blocker)) continue;
+			seen.add(blocker);
+			previous.set(blocker, id);
+			queue.push(blocker);
+		}
+	}
+	return null;
+};
+
+/**
+ * Parent, grandparent, … of an issue in the parent/child hierarchy
+ */
+const ancestorsOf = (index: IssueIndex, id: string): string[] => {
+	const ancestors: string[] = [];
+	for (
+		let parent = index.parent.get(id);
+		parent && !ancestors.includes(parent);
+		parent = index.parent.get(parent)
+	) {
+		ancestors.push(parent);
+	}
+	return ancestors;
+};
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+/**
+ * Problems with depending on `dependsOnId` that do not involve the
+ * dependent's existing edges
+ */
+const checkTarget = (
+	index: IssueIndex,
+	dependsOnId: string,
+	ancestors: string[],
+	dependent: string,
+): DependencyProblem | null => {
+	const target = index.byId.get(dependsOnId);
+	if (!target) {
+		return {
+			kind: "missing",
+			message: `Issue not found: ${dependsOnId}`,
+			suggestions: ["Check the ID with bd_list or bd_search"],
+		};
+	}
+	if (target.status === "closed") {
+		return {
+			kind: "closed",
+			message: `${dependsOnId} is already closed, so ${dependent} would not actually wait for it`,
+			suggestions: [
+				`Reopen ${dependsOnId} with bd_reopen if the work is not finished`,
+				"Skip the dependency if the work is done",
+			],
+		};
+	}
+	if (ancestors.includes(dependsOnId)) {
+		return {
+			kind: "ancestor",
+			message: `${dependsOnId} is an ancestor of ${dependent}; a parent cannot finish before its children, so ${dependent} would wait forever`,
+			suggestions: [
+				"Rely on the existing parent/child link instead",
+				"Depend on a sibling issue that must finish first",
+			],
+		};
+	}
+	return null;
+};
+
+/**
+ * Validate adding "issueId depends on dependsOnId" to the current graph
+ */
+export const validateDependency = (
+	index: IssueIndex,
+	issueId: string,
+	dependsOnId: string,
+): DependencyProblem | null => {
+	if (issueId === dependsOnId) {
+		return {
+			kind: "self",
+			message: `${issueId} cannot depend on itself`,
+			suggestions: ["Pass the ID of the issue that must finish first"],
+		};
+	}
+	if (!index.byId.has(issueId)) {
+		return {
+			kind: "missing",
+			message: `Issue not found: ${issueId}`,
+			suggestions: ["Check the ID with bd_list or bd_search"],
+		};
+	}
+	if (index.blockers.get(issueId)?.includes(dependsOnId)) {
+		return {
+			kind: "duplicate",
+			message: `${issueId} already depends on ${dependsOnId}`,
+			suggestions: ["Nothing to do; the dependency exists"],
+		};
+	}
+
+	const targetProblem = checkTarget(
+		index,
+		dependsOnId,
+		ancestorsOf(index, issueId),
+		issueId,
+	);
+	if (targetProblem) return targetProblem;
+
+	if (index.blockers.get(dependsOnId)?.includes(issueId)) {
+		return {
+			kind: "reversed",
+			message: `${dependsOnId} already depends on ${issueId}; adding this would create cycle ${issueId} → ${dependsOnId} → ${issueId}`,
+			suggestions: [
+				`If ${issueId} should finish first, the existing dependency is already correct`,
+				`To reverse the order, remove it first: bd_dep_remove id=${dependsOnId} depends_on=${issueId}`,
+			],
+		};
+	}
+
+	const path = findDependencyPath(index, dependsOnId, issueId);
+	if (path) {
+		const cycle = [issueId, ...path].join(" → ");
+		const last = path[path.length - 2];
+		return {
+			kind: "cycle",
+			message: `Adding this dependency would create cycle ${cycle}`,
+			suggestions: [
+				`Remove an existing link in the chain, e.g. bd_dep_remove id=${last} depends_on=${issueId}`,
+				"Review the chain with bd_graph before changing the order",
+			],
+		};
+	}
+
+	return null;
+};
+
+/**
+ * Validate the dependencies of an issue that is about to be created
+ */
+export const validateNewIssueDependencies = (
+	index: IssueIndex,
+	dependsOnIds: string[],
+	parentId?: string,
+): DependencyProblem | null => {
+	const ancestors = parentId ? [parentId, ...ancestorsOf(index, parentId)] : [];
+	for (const dependsOnId of dependsOnIds) {
+		const problem = checkTarget(index, dependsOnId, ancestors, "the new issue");
+		if (problem) return problem;
+	}
+	return null;
+};
+
+/**
+ * Error reported to the model for a rejected dependency
+ */
+export const toDependencyError = (
+	problem: DependencyProblem,
+): InvalidDependencyError =>
+	new InvalidDependencyError(
+		problem.kind,
+		problem.message,
+		[
+			...problem.suggestions,
+			"Pass force: true to add it anyway if this is intentional",
+		].join("; "),
+	);
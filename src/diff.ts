@@ -0,0 +1,284 @@
+/**
+ * Issue Diff
+ *
+ * Semantic diff between two snapshots of the tracker: which issues were
+ * created, deleted, closed or reopened, which fields changed, and which
+ * labels, dependencies and comments were added or removed. Reviewers see
+ * what an agent did to the issues instead of a raw JSONL diff.
+ */
+
+import type { JsonlDependency, JsonlIssue } from "./jsonl.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type IssueChangeKind =
+	| "created"
+	| "deleted"
+	| "closed"
+	| "reopened"
+	| "updated";
+
+export type FieldChange = {
+	field: string;
+	from: unknown;
+	to: unknown;
+};
+
+export type DependencyRef = {
+	depends_on_id: string;
+	type: string;
+};
+
+export type CommentRef = {
+	author?: string;
+	text: string;
+};
+
+export type IssueChange = {
+	id: string;
+	title: string;
+	change: IssueChangeKind;
+	fields: FieldChange[];
+	labels_added: string[];
+	labels_removed: string[];
+	deps_added: DependencyRef[];
+	deps_removed: DependencyRef[];
+	comments_added: CommentRef[];
+};
+
+export type IssueDiff = {
+	from: string;
+	to: string;
+	summary: Record<IssueChangeKind, number>;
+	changes: IssueChange[];
+};
+
+/** Fields compared between snapshots, in display order */
+const TRACKED_FIELDS = [
+	"title",
+	"status",
+	"priority",
+	"assignee",
+	"issue_type",
+	"description",
+] as const;
+
+const CHANGE_ORDER: IssueChangeKind[] = [
+	"created",
+	"closed",
+	"reopened",
+	"updated",
+	"deleted",
+];
+
+// ============================================================================
+// Diffing
+// ============================================================================
+
+const dependencyKey = (dep: JsonlDependency): string =>
+	`${dep.type}\0${dep.depends_on_id}`;
+
+type SnapshotComment = CommentRef & { created_at?: unknown };
+
+const commentsOf = (issue: JsonlIssue | undefined): SnapshotComment[] =>
+	Array.isArray(issue?.comments)
+		? (issue.comments as Array<Record<string, unknown>>)
+				.filter((comment) => typeof comment?.text === "string")
+				.map((comment) => ({
+					author:
+						typeof comment.author === "string" ? comment.author : undefined,
+					text: comment.text as string,
+					created_at: comment.created_at,
+				}))
+		: [];
+
+const commentKey = (comment: SnapshotComment): string =>
+	`${comment.author ?? ""}\0${String(comment.created_at ?? "")}\0${comment.text}`;
+
+const difference = <T>(
+	items: T[],
+	others: T[],
+	key: (item: T) => string,
+): T[] => {
+	const keys = new Set(others.map(key));
+	return items.filter((item) => !keys.has(key(item)));
+};
+
+const diffIssue = (
+	before: JsonlIssue | undefined,
+	after: JsonlIssue | undefined,
+): IssueChange | null => {
+	const issue = (after ?? before) as JsonlIssue;
+	const fields: FieldChange[] = [];
+	if (before && after) {
+		for (const field of TRACKED_FIELDS) {
+			const from = before[field] ?? null;
+			const to = after[field] ?? null;
+			if (from !== to) fields.push({ field, from, to });
+		}
+	}
+
+	const beforeDeps = before?.dependencies ?? [];
+	const afterDeps = after?.dependencies ?? [];
+	const beforeComments = commentsOf(before);
+	const afterComments = commentsOf(after);
+	const toRef = (dep: JsonlDependency): DependencyRef => ({
+		depends_on_id: dep.depends_on_id,
+		type: dep.type,
+	});
+
+	const change: IssueChange = {
+		id: issue.id,
+		title: issue.title,
+		change: !before
+			? "created"
+			: !after
+				? "deleted"
+				: before.status !== "closed" && after.status === "closed"
+					? "closed"
+					: before.status === "closed" && after.status !== "closed"
+						? "reopened"
+						: "updated",
+		fields,
+		labels_added: after
+			? difference(after.labels ?? [], before?.labels ?? [], String)
+			: [],
+		// A deleted issue's labels and dependencies go with it
+		labels_removed:
+			before && after
+				? difference(before.labels ?? [], after.labels ?? [], String)
+				: [],
+		deps_added: after
+			? difference(afterDeps, beforeDeps, dependencyKey).map(toRef)
+			: [],
+		deps_removed:
+			before && after
+				? difference(beforeDeps, afterDeps, dependencyKey).map(toRef)
+				: [],
+		comments_added: difference(afterComments, beforeComments, commentKey).map(
+			({ author, text }) => ({ author, text }),
+		),
+	};
+
+	const unchanged =
+		change.change === "updated" &&
+		fields.length === 0 &&
+		change.labels_added.length === 0 &&
+		change.labels_removed.length === 0 &&
+		change.deps_added.length === 0 &&
+		change.deps_removed.length === 0 &&
+		change.comments_added.length === 0;
+	return unchanged ? null : change;
+};
+
+/**
+ * Compare two snapshots of the issues
+ */
+export const diffIssues = (
+	before: JsonlIssue[],
+	after: JsonlIssue[],
+	refs: { from: string; to: string },
+): IssueDiff => {
+	const beforeById = new Map(before.map((issue) => [issue.id, issue]));
+	const afterById = new Map(after.map((issue) => [issue.id, issue]));
+	const ids = [...new Set([...beforeById.keys(), ...afterById.keys()])];
+
+	const changes = ids
+		.map((id) => diffIssue(beforeById.get(id), afterById.get(id)))
+		.filter((change): change is IssueChange => change !== null)
+		.sort(
+			(a, b) =>
+				CHANGE_ORDER.indexOf(a.change) - CHANGE_ORDER.indexOf(b.change) ||
+				a.id.localeCompare(b.id, undefined, { numeric: true }),
+		);
+
+	const summary = Object.fromEntries(
+		CHANGE_ORDER.map((kind) => [
+			kind,
+			changes.filter((change) => change.change === kind).length,
+		]),
+	) as Record<IssueChangeKind, number>;
+
+	return { ...refs, summary, changes };
+};
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+const CHANGE_HEADINGS: Record<
+	IssueChangeKind,
+	[heading: string, marker: string]
+> = {
+	created: ["Created", "+"],
+	closed: ["Closed", "✓"],
+	reopened: ["Reopened", "↺"],
+	updated: ["Updated", "~"],
+	deleted: ["Deleted", "-"],
+};
+
+const shortText = (text: string, max = 60): string => {
+	const line = text.replace(/\s+/g, " ").trim();
+	return line.length > max ? `${line.slice(0, max - 1)}…` : line;
+};
+
+const formatValue = (field: string, value: unknown): string => {
+	if (value === null || value === undefined || value === "") return "(none)";
+	if (field === "priority") return `P${value}`;
+	return String(value);
+};
+
+const detailLines = (change: IssueChange): string[] => {
+	const lines: string[] = [];
+	for (const { field, from, to } of change.fields) {
+		// Status is already implied by the closed/reopened heading
+		if (field === "status" && change.change !== "updated") continue;
+		lines.push(
+			field === "description"
+				? "description edited"
+				: `${field}: ${formatValue(field, from)} → ${formatValue(field, to)}`,
+		);
+	}
+	const labels = [
+		...change.labels_added.map((label) => `+${label}`),
+		...change.labels_removed.map((label) => `-${label}`),
+	];
+	if (labels.length > 0) lines.push(`labels: ${labels.join(" ")}`);
+	const deps = [
+		...change.deps_added.map((dep) => `+${dep.type} ${dep.depends_on_id}`),
+		...change.deps_removed.map((dep) => `-${dep.type} ${dep.depends_on_id}`),
+	];
+	if (deps.length > 0) lines.push(`deps: ${deps.join(", ")}`);
+	for (const comment of change.comments_added) {
+		lines.push(
+			`comment${comment.author ? ` by ${comment.author}` : ""}: "${shortText(comment.text)}"`,
+		);
+	}
+	return lines;
+};
+
+/**
+ * Readable summary of a diff, grouped by kind of change
+ */
+export const renderIssueDiff = (diff: IssueDiff): string => {
+	const header = `Issue changes ${diff.from} → ${diff.to}`;
+	if (diff.changes.length === 0) return `${header}\n\nNo changes`;
+
+	const counts = CHANGE_ORDER.filter((kind) => diff.summary[kind] > 0)
+		.map((kind) => `${diff.summary[kind]} ${kind}`)
+		.join(" · ");
+	const lines = [header, counts];
+	for (const kind of CHANGE_ORDER) {
+		const changes = diff.changes.filter((change) => change.change === kind);
+		if (changes.length === 0) continue;
+		const [heading, marker] = CHANGE_HEADINGS[kind];
+		lines.push("", heading);
+		for (const change of changes) {
+			lines.push(`  ${marker} ${change.id} ${shortText(change.title)}`);
+			lines.push(...detailLines(change).map((line) => `      ${line}`));
+		}
+	}
+	return lines.join("\n");
+};
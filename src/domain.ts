@@ -0,0 +1,357 @@
+/**
+ * Issue Domain Model
+ *
+ * Typed issues, dependencies and comments, with runtime schemas that parse
+ * whatever bd printed (or issues.jsonl stored) into one stable shape.
+ * Different bd releases spell priorities as 1 or "P1", omit empty label
+ * lists or print `null`, and report dependencies either as records or as
+ * summaries of the linked issue; the schemas absorb those differences so
+ * tools, toasts and context injection work with real objects.
+ */
+
+import { tool } from "@opencode-ai/plugin/tool";
+
+const z = tool.schema;
+
+// ============================================================================
+// Vocabulary
+// ============================================================================
+
+export const ISSUE_STATUSES = [
+	"open",
+	"in_progress",
+	"blocked",
+	"closed",
+] as const;
+
+export const ISSUE_TYPES = ["bug", "feature", "task", "epic", "chore"] as const;
+
+/**
+ * Priority names accepted by tools, highest first (P0-P4)
+ */
+export const PRIORITY_NAMES = [
+	"critical",
+	"high",
+	"medium",
+	"low",
+	"backlog",
+] as const;
+
+/** A known status, or one a newer bd release added */
+export type Status = (typeof ISSUE_STATUSES)[number] | (string & {});
+export type IssueType = (typeof ISSUE_TYPES)[number];
+/** 0 (critical) to 4 (backlog) */
+export type Priority = 0 | 1 | 2 | 3 | 4;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type Dependency = {
+	/** Issue that has the dependency */
+	issue_id: string;
+	/** Issue it depends on (the blocker, or the parent for parent-child) */
+	depends_on_id: string;
+	/** "blocks", "parent-child", "related", "discovered-from", ... */
+	type: string;
+	created_at?: string;
+};
+
+export type Comment = {
+	id?: number;
+	author: string;
+	text: string;
+	created_at: string;
+};
+
+export type Issue = {
+	id: string;
+	title: string;
+	description?: string;
+	status: Status;
+	priority: Priority;
+	issue_type: IssueType;
+	assignee?: string;
+	labels: string[];
+	dependencies: Dependency[];
+	design?: string;
+	acceptance_criteria?: string;
+	notes?: string;
+	external_ref?: string;
+	estimated_minutes?: number;
+	created_at: string;
+	updated_at: string;
+	closed_at?: string;
+	close_reason?: string;
+	comments?: Comment[];
+	/** Workspace the issue came from, in listings across workspaces */
+	workspace?: string;
+};
+
+/**
+ * Another issue as listed in `bd show` output
+ */
+export type LinkedIssue = {
+	id: string;
+	title?: string;
+	status?: Status;
+	priority?: Priority;
+	issue_type?: IssueType;
+	dependency_type?: string;
+};
+
+/**
+ * `bd show` shape: dependencies and dependents as linked issues
+ */
+export type IssueDetails = Omit<Issue, "dependencies"> & {
+	dependencies: LinkedIssue[];
+	dependents: LinkedIssue[];
+};
+
+export type BlockedIssue = Issue & {
+	blocked_by: string[];
+	blocked_by_count: number;
+};
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+const STATUS_ALIASES: Record<string, Status> = {
+	"in-progress": "in_progress",
+	inprogress: "in_progress",
+	done: "closed",
+	resolved: "closed",
+};
+
+const optionalText = z.string().optional().catch(undefined);
+
+/**
+ * Statuses this plugin does not know (e.g. "tombstone", "deferred") are
+ * kept as they are, so they never read as open work; a missing status
+ * reads as open
+ */
+export const StatusSchema = z
+	.preprocess(
+		(value) =>
+			typeof value === "string"
+				? (STATUS_ALIASES[value.toLowerCase()] ?? value.toLowerCase())
+				: value,
+		z.union([z.enum(ISSUE_STATUSES), z.string().min(1)]),
+	)
+	.catch("open");
+
+/** Accepts 0-4, "0"-"4" and "P0"-"P4"; anything else reads as P2 */
+export const PrioritySchema = z
+	.preprocess(
+		(value) =>
+			typeof value === "string" ? Number(value.replace(/^P/i, "")) : value,
+		z.literal([0, 1, 2, 3, 4]),
+	)
+	.catch(2);
+
+/** Unknown types read as task */
+export const IssueTypeSchema = z
+	.preprocess(
+		(value) => (typeof value === "string" ? value.toLowerCase() : value),
+		z.enum(ISSUE_TYPES),
+	)
+	.catch("task");
+
+type ParseResult<T> = { success: true; data: T } | { success: false };
+
+/**
+ * Array of items that match a schema; invalid items are dropped rather
+ * than failing the whole list
+ */
+const listOf = <T>(schema: { safeParse: (value: unknown) => ParseResult<T> }) =>
+	z
+		.array(z.unknown())
+		.catch([])
+		.transform((items) =>
+			items.flatMap((item) => {
+				const result = schema.safeParse(item);
+				return result.success ? [result.data] : [];
+			}),
+		);
+
+/** A dependency record, or a linked-issue summary from `bd show` */
+export const DependencySchema = z.preprocess(
+	(value) => {
+		if (typeof value !== "object" || value === null) return value;
+		const v = value as Record<string, unknown>;
+		return "depends_on_id" in v
+			? v
+			: { ...v, depends_on_id: v.id, type: v.dependency_type ?? v.type };
+	},
+	z.object({
+		issue_id: z.string().catch(""),
+		depends_on_id: z.string().min(1),
+		type: z.string().catch("blocks"),
+		created_at: optionalText,
+	}),
+);
+
+export const CommentSchema = z.object({
+	id: z.number().optional().catch(undefined),
+	author: z.string().catch(""),
+	text: z.string(),
+	created_at: z.string().catch(""),
+});
+
+export const LinkedIssueSchema = z.preprocess(
+	(value) => {
+		if (typeof value !== "object" || value === null) return value;
+		const v = value as Record<string, unknown>;
+		return "depends_on_id" in v
+			? { id: v.depends_on_id, dependency_type: v.type }
+			: v;
+	},
+	z.object({
+		id: z.string().min(1),
+		title: optionalText,
+		status: StatusSchema.optional(),
+		priority: PrioritySchema.optional(),
+		issue_type: IssueTypeSchema.optional(),
+		dependency_type: optionalText,
+	}),
+);
+
+const issueFields = {
+	id: z.string().min(1),
+	title: z.string(),
+	description: optionalText,
+	status: StatusSchema,
+	priority: PrioritySchema,
+	issue_type: IssueTypeSchema,
+	assignee: optionalText,
+	labels: listOf(z.string()),
+	design: optionalText,
+	acceptance_criteria: optionalText,
+	notes: optionalText,
+	external_ref: optionalText,
+	estimated_minutes: z.number().optional().catch(undefined),
+	created_at: z.string().catch(""),
+	updated_at: z.string().catch(""),
+	closed_at: optionalText,
+	close_reason: optionalText,
+	comments: listOf(CommentSchema).optional(),
+};
+
+export const IssueSchema = z
+	.object({ ...issueFields, dependencies: listOf(DependencySchema) })
+	.transform(
+		(issue): Issue => ({
+			...issue,
+			// bd show summaries do not repeat the owning issue's ID
+			dependencies: issue.dependencies.map((dep) => ({
+				...dep,
+				issue_id: dep.issue_id || issue.id,
+			})),
+		}),
+	);
+
+export const IssueDetailsSchema = z.object({
+	...issueFields,
+	dependencies: listOf(LinkedIssueSchema),
+	dependents: listOf(LinkedIssueSchema),
+});
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/** bd prints some single results as a one-item array */
+const unwrap = (json: unknown): unknown =>
+	Array.isArray(json) && json.length === 1 ? json[0] : json;
+
+/**
+ * One issue from bd JSON or an issues.jsonl record, or null
+ */
+export const parseIssue = (json: unknown): Issue | null => {
+	const result = IssueSchema.safeParse(unwrap(json));
+	return result.success ? result.data : null;
+};
+
+/**
+ * Issues from bd JSON output; entries that are not issues are skipped
+ */
+export const parseIssueList = (json: unknown): Issue[] =>
+	(Array.isArray(json) ? json : json ? [json] : []).flatMap((item) => {
+		const issue = parseIssue(item);
+		return issue ? [issue] : [];
+	});
+
+/**
+ * `bd show` output (or showIssue) with linked dependencies and dependents
+ */
+export const parseIssueDetails = (json: unknown): IssueDetails | null => {
+	const result = IssueDetailsSchema.safeParse(unwrap(json));
+	return result.success ? result.data : null;
+};
+
+/**
+ * `bd blocked` output: issues plus the IDs blocking them
+ */
+export const parseBlockedIssues = (json: unknown): BlockedIssue[] =>
+	(Array.isArray(json) ? json : []).flatMap((item) => {
+		const issue = parseIssue(item);
+		if (!issue) return [];
+		const blockedBy = listOf(z.string()).parse(
+			(item as Record<string, unknown>).blocked_by,
+		);
+		return [
+			{ ...issue, blocked_by: blockedBy, blocked_by_count: blockedBy.length },
+		];
+	});
+
+export const parseComments = (json: unknown): Comment[] =>
+	listOf(CommentSchema).parse(json);
+
+/**
+ * Project prefix of an issue ID ("my-project" for "my-project-a1b2.3")
+ */
+export const issuePrefix = (id: string): string =>
+	id.replace(/-[A-Za-z0-9]+(?:\.\d+)*$/, "");
+
+const escapeRegExp = (text: string): string =>
+	text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Pattern for issue IDs with one of the given project prefixes: the
+ * prefix, a hash or number, optional child suffixes (e.g. "proj-a1b2",
+ * "bd-12", "my-project-a1b2.3"). Anchoring on the prefix keeps words like
+ * "non-blocking" out and takes hyphenated prefixes whole. Null when there
+ * are no prefixes.
+ */
+export const issueIdPattern = (prefixes: Iterable<string>): RegExp | null => {
+	const alternatives = [...new Set(prefixes)]
+		.filter(Boolean)
+		// Longest first, so "my-project" wins over "my"
+		.sort((a, b) => b.length - a.length)
+		.map(escapeRegExp);
+	if (alternatives.length === 0) return null;
+	return new RegExp(
+		`(?<![\\w.-])(?:${alternatives.join("|")})-[A-Za-z0-9]+(?:\\.\\d+)*(?![\\w-])`,
+		"g",
+	);
+};
+
+/**
+ * Every issue ID with one of the given prefixes mentioned in a piece of text
+ */
+export const findIssueIds = (
+	text: string,
+	prefixes: Iterable<string>,
+): string[] => {
+	const pattern = issueIdPattern(prefixes);
+	return pattern ? (text.match(pattern) ?? []) : [];
+};
+
+/**
+ * First issue ID with one of the given prefixes mentioned in a piece of text
+ */
+export const findIssueId = (
+	text: string,
+	prefixes: Iterable<string>,
+): string | null => findIssueIds(text, prefixes)[0] ?? null;
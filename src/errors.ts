@@ -0,0 +1,338 @@
+/**
+ * Typed bd Errors
+ *
+ * Failures from the bd CLI are classified into error classes so tools can
+ * report an actionable message instead of a fake success, and the plugin
+ * can react to the kind of failure rather than sniffing output strings.
+ */
+
+import type { ToolResult } from "@opencode-ai/plugin/tool";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type BdErrorCode =
+	| "bd_not_installed"
+	| "not_initialized"
+	| "issue_not_found"
+	| "invalid_flag"
+	| "lock_contention"
+	| "timeout"
+	| "aborted"
+	| "command_failed"
+	| "invalid_dependency"
+	| "batch_failed"
+	| "invalid_outline"
+	| "invalid_argument"
+	| "unsupported_flag"
+	| "close_blocked"
+	| "claim_conflict";
+
+/**
+ * Serializable error summary attached to tool result metadata
+ */
+export type BdErrorInfo = {
+	code: BdErrorCode;
+	message: string;
+	hint?: string;
+};
+
+// ============================================================================
+// Error Classes
+// ============================================================================
+
+/**
+ * Base class for every bd failure
+ */
+export class BdError extends Error {
+	readonly code: BdErrorCode;
+	readonly hint?: string;
+
+	constructor(code: BdErrorCode, message: string, hint?: string) {
+		super(message);
+		this.name = "BdError";
+		this.code = code;
+		this.hint = hint;
+	}
+
+	toInfo(): BdErrorInfo {
+		return { code: this.code, message: this.message, hint: this.hint };
+	}
+}
+
+export class BdNotInstalledError extends BdError {
+	constructor(command = "bd") {
+		super(
+			"bd_not_installed",
+			`${command} is not installed or not on PATH`,
+			"Install beads (https://github.com/steveyegge/beads) and make sure `bd` is on PATH.",
+		);
+		this.name = "BdNotInstalledError";
+	}
+}
+
+export class BdNotInitializedError extends BdError {
+	constructor() {
+		super(
+			"not_initialized",
+			"No beads database found in this project",
+			"Run `bd init` in the project root to create the .beads directory.",
+		);
+		this.name = "BdNotInitializedError";
+	}
+}
+
+export class IssueNotFoundError extends BdError {
+	readonly issueId?: string;
+
+	constructor(issueId?: string) {
+		super(
+			"issue_not_found",
+			issueId ? `Issue not found: ${issueId}` : "Issue not found",
+			"Check the ID with bd_list or bd_search; IDs include the project prefix (e.g. proj-12).",
+		);
+		this.name = "IssueNotFoundError";
+		this.issueId = issueId;
+	}
+}
+
+export class InvalidFlagError extends BdError {
+	readonly flag?: string;
+
+	constructor(detail: string, flag?: string) {
+		super(
+			"invalid_flag",
+			`bd rejected the arguments: ${detail}`,
+			"Your bd version may not support this option; check `bd --version` and `bd help`.",
+		);
+		this.name = "InvalidFlagError";
+		this.flag = flag;
+	}
+}
+
+export class LockContentionError extends BdError {
+	constructor(
+		message = "The beads database is locked by another process",
+		hint = "Another bd command or the daemon is writing; retry in a moment.",
+	) {
+		super("lock_contention", message, hint);
+		this.name = "LockContentionError";
+	}
+}
+
+export class BdTimeoutError extends BdError {
+	constructor(command: string, timeoutMs: number) {
+		super(
+			"timeout",
+			`bd ${command} timed out after ${timeoutMs}ms`,
+			"Check `bd doctor` for a stuck daemon or lock, then retry.",
+		);
+		this.name = "BdTimeoutError";
+	}
+}
+
+export class BdAbortedError extends BdError {
+	constructor() {
+		super("aborted", "bd command aborted");
+		this.name = "BdAbortedError";
+	}
+}
+
+export class BdCommandError extends BdError {
+	readonly exitCode: number | null;
+
+	constructor(message: string, exitCode: number | null) {
+		super("command_failed", message);
+		this.name = "BdCommandError";
+		this.exitCode = exitCode;
+	}
+}
+
+/**
+ * A proposed dependency was rejected by the plugin before calling bd
+ */
+export class InvalidDependencyError extends BdError {
+	/** Which check failed (e.g. "cycle", "self", "closed") */
+	readonly reason: string;
+
+	constructor(reason: string, message: string, hint?: string) {
+		super("invalid_dependency", message, hint);
+		this.name = "InvalidDependencyError";
+		this.reason = reason;
+	}
+}
+
+/**
+ * A bd_batch step was invalid or failed; earlier steps were rolled back
+ */
+export class BatchError extends BdError {
+	/** 1-based index of the failing step */
+	readonly step: number;
+
+	constructor(step: number, message: string, hint?: string) {
+		super("batch_failed", message, hint);
+		this.name = "BatchError";
+		this.step = step;
+	}
+}
+
+/**
+ * A bd_epic_plan outline could not be parsed or resolved
+ */
+export class InvalidOutlineError extends BdError {
+	constructor(message: string, hint?: string) {
+		super("invalid_outline", message, hint);
+		this.name = "InvalidOutlineError";
+	}
+}
+
+/**
+ * A tool argument was rejected by the plugin before calling bd
+ */
+export class InvalidArgumentError extends BdError {
+	readonly argument: string;
+
+	constructor(argument: string, message: string, hint?: string) {
+		super("invalid_argument", message, hint);
+		this.name = "InvalidArgumentError";
+		this.argument = argument;
+	}
+}
+
+/**
+ * The installed bd does not accept an option a tool needs. Raised by the
+ * compatibility runner before bd is called.
+ */
+export class UnsupportedFlagError extends BdError {
+	readonly command: string;
+	readonly flag: string;
+
+	constructor(command: string, flag: string, version?: string) {
+		super(
+			"unsupported_flag",
+			`\`bd ${command} ${flag}\` is unsupported by your bd version${version ? ` (${version})` : ""}`,
+			"Upgrade beads (https://github.com/steveyegge/beads) or retry without this option.",
+		);
+		this.name = "UnsupportedFlagError";
+		this.command = command;
+		this.flag = flag;
+	}
+}
+
+/**
+ * bd_close refused to close: a required reason or verification is missing
+ */
+export class CloseBlockedError extends BdError {
+	constructor(message: string, hint?: string) {
+		super("close_blocked", message, hint);
+		this.name = "CloseBlockedError";
+	}
+}
+
+/**
+ * The issue is claimed by another session or assignee
+ */
+export class ClaimConflictError extends BdError {
+	readonly issueId: string;
+
+	constructor(issueId: string, holder: string, expiresAt?: string) {
+		super(
+			"claim_conflict",
+			expiresAt
+				? `${issueId} is claimed by ${holder} until ${expiresAt}`
+				: `${issueId} is assigned to ${holder} and in progress`,
+			"Claim another issue, or call bd_claim without an ID to take the next ready one.",
+		);
+		this.name = "ClaimConflictError";
+		this.issueId = issueId;
+	}
+}
+
+// ============================================================================
+// Classification
+// ============================================================================
+
+/**
+ * Strip bd's "Error:" prefix and keep the first meaningful line
+ */
+const firstLine = (text: string): string =>
+	text
+		.split("\n")
+		.map((line) => line.trim().replace(/^error:\s*/i, ""))
+		.find((line) => line.length > 0) ?? "";
+
+/**
+ * Map a failed bd invocation (non-zero exit) to a typed error
+ */
+export const classifyBdFailure = (
+	stderr: string,
+	stdout: string,
+	exitCode: number | null,
+): BdError => {
+	const text = `${stderr}\n${stdout}`;
+
+	if (/no beads database found|not initialized|run ['`"]?bd init/i.test(text)) {
+		return new BdNotInitializedError();
+	}
+
+	const notFound =
+		text.match(/issue\s+['"]?([\w.-]+)['"]?\s+not found/i) ??
+		text.match(
+			/(?:issue not found|no issue found(?: with id)?)[:\s]*['"]?([\w.-]+)?/i,
+		);
+	if (notFound) {
+		return new IssueNotFoundError(notFound[1]);
+	}
+
+	const flag = text.match(
+		/unknown (?:shorthand )?flag:?\s*['"]?(-{1,2}[\w-]+)|invalid argument[^\n]*/i,
+	);
+	if (flag) {
+		return new InvalidFlagError(firstLine(flag[0]), flag[1]);
+	}
+
+	if (
+		/database is locked|SQLITE_BUSY|lock (?:held|contention)|could not acquire lock/i.test(
+			text,
+		)
+	) {
+		return new LockContentionError();
+	}
+
+	const detail = firstLine(stderr) || firstLine(stdout);
+	return new BdCommandError(
+		detail || `bd exited with code ${exitCode ?? "unknown"}`,
+		exitCode,
+	);
+};
+
+/**
+ * Actionable text for a bd error, as shown to the model
+ */
+export const formatBdError = (error: BdErrorInfo): string =>
+	error.hint
+		? `Error: ${error.message}\nHint: ${error.hint}`
+		: `Error: ${error.message}`;
+
+/**
+ * Tool result for a bd error: actionable text for the model, with the
+ * error recorded in metadata so the plugin can react to it
+ */
+export const bdErrorResult = (error: BdError): ToolResult => ({
+	title: error.message,
+	output: formatBdError(error.toInfo()),
+	metadata: { bdError: error.toInfo() },
+});
+
+/**
+ * Read a bd error back out of tool result metadata
+ */
+export const getBdErrorInfo = (metadata: unknown): BdErrorInfo | null => {
+	if (typeof metadata !== "object" || metadata === null) return null;
+	const error = (metadata as Record<string, unknown>).bdError;
+	if (typeof error !== "object" || error === null) return null;
+	const e = error as Record<string, unknown>;
+	if (typeof e.code !== "string" || typeof e.message !== "string") return null;
+	return error as BdErrorInfo;
+};
@@ -0,0 +1,283 @@
+/**
+ * Issue Export
+ *
+ * Renders a filtered set of issues for people outside beads: a Markdown
+ * status report grouped by epic and status, CSV for spreadsheets, or a
+ * GitHub-issues JSON payload for migrating to another tracker.
+ */
+
+import { mkdirSync, writeFileSync } from "node:fs";
+import { dirname, isAbsolute, relative, resolve } from "node:path";
+import { InvalidArgumentError } from "./errors.js";
+import { descendantIds, nearestEpic } from "./graph.js";
+import {
+	type IssueIndex,
+	type JsonlIssue,
+	type ListFilters,
+	listIssues,
+	openBlockers,
+} from "./jsonl.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ExportFormat = "markdown" | "csv" | "github";
+
+export type ExportFilters = ListFilters & {
+	/** Epic ID: only the epic's descendants */
+	epic?: string;
+};
+
+/**
+ * One issue in the GitHub REST "create an issue" shape, plus its state
+ */
+export type GithubIssue = {
+	title: string;
+	body: string;
+	labels: string[];
+	assignees: string[];
+	state: "open" | "closed";
+};
+
+// ============================================================================
+// Selection
+// ============================================================================
+
+/**
+ * Issues matching bd_list-style filters, optionally limited to an epic
+ */
+export const selectExportIssues = (
+	index: IssueIndex,
+	filters: ExportFilters,
+): JsonlIssue[] => {
+	const { epic, limit, ...listFilters } = filters;
+	let issues = listIssues(index, listFilters);
+	if (epic) {
+		const ids = descendantIds(index, epic);
+		issues = issues.filter((issue) => ids.has(issue.id));
+	}
+	return limit && limit > 0 ? issues.slice(0, limit) : issues;
+};
+
+/**
+ * Effective status: open issues with open blockers count as blocked
+ */
+const reportStatus = (index: IssueIndex, issue: JsonlIssue): string =>
+	issue.status !== "closed" && openBlockers(index, issue.id).length > 0
+		? "blocked"
+		: issue.status;
+
+// ============================================================================
+// Markdown
+// ============================================================================
+
+const STATUS_SECTIONS: Array<[status: string, heading: string]> = [
+	["in_progress", "In progress"],
+	["blocked", "Blocked"],
+	["open", "Open"],
+	["closed", "Closed"],
+];
+
+const reportLine = (index: IssueIndex, issue: JsonlIssue): string => {
+	const details = [`P${issue.priority}`, issue.issue_type];
+	if (issue.assignee) details.push(`@${issue.assignee}`);
+	const blockers = openBlockers(index, issue.id);
+	const blocked =
+		issue.status !== "closed" && blockers.length > 0
+			? ` — blocked by ${blockers.join(", ")}`
+			: "";
+	return `- **${issue.id}** ${issue.title} (${details.join(", ")})${blocked}`;
+};
+
+/**
+ * Markdown status report: one section per epic (plus issues without an
+ * epic), each split by status with a progress line
+ */
+export const renderMarkdownReport = (
+	index: IssueIndex,
+	issues: JsonlIssue[],
+	options: { title?: string; now?: Date } = {},
+): string => {
+	const now = options.now ?? new Date();
+	const counts = new Map<string, number>();
+	for (const issue of issues) {
+		const status = reportStatus(index, issue);
+		counts.set(status, (counts.get(status) ?? 0) + 1);
+	}
+	const summary = STATUS_SECTIONS.filter(([status]) => counts.has(status))
+		.map(
+			([status, heading]) => `${counts.get(status)} ${heading.toLowerCase()}`,
+		)
+		.join(" · ");
+
+	const lines = [
+		`# ${options.title ?? "Issue Report"}`,
+		"",
+		`_Generated ${now.toISOString().slice(0, 10)} · ${issues.length} ${issues.length === 1 ? "issue" : "issues"}${summary ? `: ${summary}` : ""}_`,
+	];
+	if (issues.length === 0) return lines.join("\n");
+
+	// Epics head their issues' group rather than being listed as items
+	const groups = new Map<string, JsonlIssue[]>();
+	const epics = new Map<string, JsonlIssue>();
+	for (const issue of issues) {
+		if (issue.issue_type === "epic") continue;
+		const epic = nearestEpic(index, issue.id);
+		const key = epic?.id ?? "";
+		if (epic) epics.set(epic.id, epic);
+		groups.set(key, [...(groups.get(key) ?? []), issue]);
+	}
+
+	const keys = [...groups.keys()].sort((a, b) =>
+		a === "" ? 1 : b === "" ? -1 : a.localeCompare(b),
+	);
+	for (const key of keys) {
+		const members = groups.get(key) ?? [];
+		const epic = epics.get(key);
+		const closed = members.filter((issue) => issue.status === "closed").length;
+		lines.push(
+			"",
+			epic ? `## ${epic.title} (${epic.id})` : "## Other issues",
+			"",
+			`${closed}/${members.length} closed`,
+		);
+		for (const [status, heading] of STATUS_SECTIONS) {
+			const section = members.filter(
+				(issue) => reportStatus(index, issue) === status,
+			);
+			if (section.length === 0) continue;
+			lines.push("", `### ${heading}`, "");
+			lines.push(...section.map((issue) => reportLine(index, issue)));
+		}
+	}
+	return lines.join("\n");
+};
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+const CSV_COLUMNS = [
+	"id",
+	"title",
+	"status",
+	"priority",
+	"type",
+	"assignee",
+	"labels",
+	"epic",
+	"blocked_by",
+	"created_at",
+	"updated_at",
+	"closed_at",
+];
+
+const csvCell = (value: string): string =>
+	/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * RFC 4180 CSV with one row per issue
+ */
+export const renderCsv = (index: IssueIndex, issues: JsonlIssue[]): string => {
+	const rows = issues.map((issue) =>
+		[
+			issue.id,
+			issue.title,
+			reportStatus(index, issue),
+			`P${issue.priority}`,
+			issue.issue_type,
+			issue.assignee ?? "",
+			(issue.labels ?? []).join(";"),
+			nearestEpic(index, issue.id)?.id ?? "",
+			openBlockers(index, issue.id).join(";"),
+			issue.created_at ?? "",
+			issue.updated_at ?? "",
+			issue.closed_at ?? "",
+		]
+			.map(csvCell)
+			.join(","),
+	);
+	return [CSV_COLUMNS.join(","), ...rows].join("\r\n");
+};
+
+// ============================================================================
+// GitHub Issues
+// ============================================================================
+
+/**
+ * Issues as GitHub REST payloads. Type, priority and epic become labels;
+ * the body keeps the description and the original beads references.
+ */
+export const toGithubIssues = (
+	index: IssueIndex,
+	issues: JsonlIssue[],
+): GithubIssue[] =>
+	issues.map((issue) => {
+		const epic = nearestEpic(index, issue.id);
+		const blockers = openBlockers(index, issue.id);
+		const body = [issue.description?.trim() ?? ""];
+		const references = [`Migrated from beads issue \`${issue.id}\`.`];
+		if (epic) references.push(`Epic: ${epic.title} (\`${epic.id}\`)`);
+		if (blockers.length > 0) {
+			references.push(
+				`Blocked by: ${blockers.map((id) => `\`${id}\``).join(", ")}`,
+			);
+		}
+		body.push(references.join("\n"));
+
+		return {
+			title: issue.title,
+			body: body.filter(Boolean).join("\n\n"),
+			labels: [
+				...(issue.labels ?? []),
+				`type:${issue.issue_type}`,
+				`priority:P${issue.priority}`,
+				...(epic ? [`epic:${epic.id}`] : []),
+			],
+			assignees: issue.assignee ? [issue.assignee] : [],
+			state: issue.status === "closed" ? "closed" : "open",
+		};
+	});
+
+/**
+ * Render issues in an export format
+ */
+export const renderExport = (
+	index: IssueIndex,
+	issues: JsonlIssue[],
+	format: ExportFormat,
+	options: { title?: string; now?: Date } = {},
+): string => {
+	switch (format) {
+		case "csv":
+			return renderCsv(index, issues);
+		case "github":
+			return JSON.stringify(toGithubIssues(index, issues), null, 2);
+		default:
+			return renderMarkdownReport(index, issues, options);
+	}
+};
+
+/**
+ * Write an export to a path inside the project. Returns the path relative
+ * to the project, or an error for paths that escape it.
+ */
+export const writeExport = (
+	directory: string,
+	path: string,
+	content: string,
+): string | InvalidArgumentError => {
+	const target = resolve(directory, path);
+	const inside = relative(resolve(directory), target);
+	if (!inside || inside.startsWith("..") || isAbsolute(inside)) {
+		return new InvalidArgumentError(
+			"output",
+			`Export path must be a file inside the project: ${path}`,
+			'Use a relative path such as "reports/status.md", or omit output to get the result inline',
+		);
+	}
+	mkdirSync(dirname(target), { recursive: true });
+	writeFileSync(target, content.endsWith("\n") ? content : `${content}\n`);
+	return inside.split("\\").join("/");
+};
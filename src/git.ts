@@ -0,0 +1,74 @@
+/**
+ * Git Runner
+ *
+ * Minimal argv-based git invocation for tools that need repository
+ * information (tracked files, history). Like the bd runner, arguments never
+ * go through a shell and failures are reported as typed errors.
+ */
+
+import { execFile } from "node:child_process";
+import { BdAbortedError, BdCommandError, type BdError } from "./errors.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type GitResult = {
+	stdout: string;
+	/** Set when git failed or could not be run */
+	error?: BdError;
+};
+
+export type GitRunner = (
+	args: readonly string[],
+	options?: { signal?: AbortSignal },
+) => Promise<GitResult>;
+
+/**
+ * Time a single git call may take before it is killed
+ */
+export const DEFAULT_GIT_TIMEOUT_MS = 30_000;
+
+// ============================================================================
+// Runner
+// ============================================================================
+
+/**
+ * Create a git runner for the given working directory
+ */
+export const createGitRunner =
+	(cwd: string, timeoutMs = DEFAULT_GIT_TIMEOUT_MS): GitRunner =>
+	(args, options = {}) =>
+		new Promise((resolve) => {
+			execFile(
+				"git",
+				[...args],
+				{
+					cwd,
+					signal: options.signal,
+					timeout: timeoutMs,
+					maxBuffer: 64 * 1024 * 1024,
+				},
+				(error, stdout, stderr) => {
+					if (!error) {
+						resolve({ stdout });
+						return;
+					}
+					if (error.name === "AbortError") {
+						resolve({ stdout: "", error: new BdAbortedError() });
+						return;
+					}
+					const detail =
+						String(stderr).trim().split("\n")[0] ||
+						(error.code === "ENOENT" ? "git is not installed" : error.message);
+					const exitCode = typeof error.code === "number" ? error.code : null;
+					resolve({
+						stdout: "",
+						error: new BdCommandError(
+							`git ${args[0] ?? ""}: ${detail}`,
+							exitCode,
+						),
+					});
+				},
+			);
+		});
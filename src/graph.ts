@@ -0,0 +1,290 @@
+/**
+ * Issue Graph
+ *
+ * Builds the dependency ("blocks") and parent/child graph for a set of
+ * issues and renders it as Mermaid, Graphviz DOT or an ASCII tree.
+ *
+ * Edges point in execution order: a blocker points at the issue it blocks,
+ * and a parent points at its children.
+ */
+
+import { type IssueIndex, type JsonlIssue, openBlockers } from "./jsonl.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type GraphFormat = "mermaid" | "dot" | "ascii";
+
+export type GraphEdgeType = "blocks" | "parent-child";
+
+export type GraphEdge = {
+	from: string;
+	to: string;
+	type: GraphEdgeType;
+};
+
+/**
+ * Which issues to include in a graph
+ */
+export type GraphScope = {
+	/** Epic ID: the epic and all of its descendants */
+	epic?: string;
+	/** Only issues carrying this label */
+	label?: string;
+	/** Include closed issues (default: false) */
+	includeClosed?: boolean;
+};
+
+export type IssueGraph = {
+	nodes: JsonlIssue[];
+	edges: GraphEdge[];
+	/** Node ID → IDs of its open blockers (across the whole index) */
+	openBlockers: Map<string, string[]>;
+};
+
+// ============================================================================
+// Building
+// ============================================================================
+
+/**
+ * IDs of every issue below an epic in the parent/child hierarchy
+ */
+export const descendantIds = (
+	index: IssueIndex,
+	rootId: string,
+): Set<string> => {
+	const found = new Set<string>();
+	const queue = [...(index.children.get(rootId) ?? [])];
+	while (queue.length > 0) {
+		const id = queue.shift() as string;
+		if (found.has(id) || id === rootId) continue;
+		found.add(id);
+		queue.push(...(index.children.get(id) ?? []));
+	}
+	return found;
+};
+
+/**
+ * Nearest epic above an issue in the parent/child hierarchy
+ */
+export const nearestEpic = (
+	index: IssueIndex,
+	id: string,
+): JsonlIssue | undefined => {
+	const seen = new Set<string>();
+	for (
+		let parent = index.parent.get(id);
+		parent && !seen.has(parent);
+		parent = index.parent.get(parent)
+	) {
+		seen.add(parent);
+		const issue = index.byId.get(parent);
+		if (issue?.issue_type === "epic") return issue;
+	}
+	return undefined;
+};
+
+/**
+ * Build the graph for the issues in scope. Edges to issues outside the
+ * scope are dropped.
+ */
+export const buildIssueGraph = (
+	index: IssueIndex,
+	scope: GraphScope = {},
+): IssueGraph => {
+	let nodes = index.issues;
+	if (scope.epic) {
+		const ids = descendantIds(index, scope.epic).add(scope.epic);
+		nodes = nodes.filter((issue) => ids.has(issue.id));
+	}
+	if (scope.label) {
+		const label = scope.label;
+		nodes = nodes.filter((issue) => issue.labels?.includes(label));
+	}
+	if (!scope.includeClosed) {
+		nodes = nodes.filter((issue) => issue.status !== "closed");
+	}
+
+	const inScope = new Set(nodes.map((issue) => issue.id));
+	const edges: GraphEdge[] = [];
+	for (const issue of nodes) {
+		for (const dep of issue.dependencies ?? []) {
+			if (!inScope.has(dep.depends_on_id)) continue;
+			if (dep.type === "blocks" || dep.type === "parent-child") {
+				edges.push({ from: dep.depends_on_id, to: issue.id, type: dep.type });
+			}
+		}
+	}
+
+	return {
+		nodes,
+		edges,
+		openBlockers: new Map(
+			nodes.map((issue) => [issue.id, openBlockers(index, issue.id)]),
+		),
+	};
+};
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/**
+ * Effective display state: open issues with open blockers show as blocked
+ */
+const displayStatus = (graph: IssueGraph, issue: JsonlIssue): string =>
+	issue.status !== "closed" &&
+	(graph.openBlockers.get(issue.id)?.length ?? 0) > 0
+		? "blocked"
+		: issue.status;
+
+const shortTitle = (title: string, max = 40): string =>
+	title.length > max ? `${title.slice(0, max - 1)}…` : title;
+
+const mermaidId = (id: string): string => id.replace(/[^A-Za-z0-9_]/g, "_");
+
+const mermaidText = (text: string): string =>
+	text.replace(/"/g, "#quot;").replace(/[<>]/g, "");
+
+/**
+ * Mermaid flowchart; status sets the fill, P0/P1 get a heavier border
+ */
+export const renderMermaid = (graph: IssueGraph): string => {
+	const lines = ["flowchart TD"];
+	for (const issue of graph.nodes) {
+		const heading = mermaidText(`${issue.id}: ${shortTitle(issue.title)}`);
+		const label = `${heading}<br/>P${issue.priority} · ${displayStatus(graph, issue)}`;
+		lines.push(`  ${mermaidId(issue.id)}["${label}"]`);
+	}
+	for (const edge of graph.edges) {
+		const arrow = edge.type === "parent-child" ? "-.->" : "-->";
+		lines.push(`  ${mermaidId(edge.from)} ${arrow} ${mermaidId(edge.to)}`);
+	}
+
+	lines.push(
+		"  classDef open fill:#e8f0fe,stroke:#4a6fa5",
+		"  classDef in_progress fill:#fff4cc,stroke:#b08800",
+		"  classDef blocked fill:#fde2e1,stroke:#c0392b",
+		"  classDef closed fill:#e6e6e6,stroke:#999,color:#777",
+		"  classDef p0 stroke-width:4px",
+		"  classDef p1 stroke-width:2px",
+	);
+	for (const issue of graph.nodes) {
+		const id = mermaidId(issue.id);
+		lines.push(`  class ${id} ${displayStatus(graph, issue)}`);
+		if (issue.priority <= 1) lines.push(`  class ${id} p${issue.priority}`);
+	}
+	return lines.join("\n");
+};
+
+const DOT_FILL: Record<string, string> = {
+	open: "#e8f0fe",
+	in_progress: "#fff4cc",
+	blocked: "#fde2e1",
+	closed: "#e6e6e6",
+};
+
+const dotText = (text: string): string =>
+	text.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+
+/**
+ * Graphviz DOT digraph; status sets the fill, priority the border width
+ */
+export const renderDot = (graph: IssueGraph): string => {
+	const lines = [
+		"digraph beads {",
+		"  rankdir=LR;",
+		'  node [shape=box, style="rounded,filled", fontname="Helvetica"];',
+	];
+	for (const issue of graph.nodes) {
+		const status = displayStatus(graph, issue);
+		const label = `${issue.id}\\n${dotText(shortTitle(issue.title))}\\nP${issue.priority} · ${status}`;
+		const penwidth = Math.max(1, 4 - issue.priority);
+		lines.push(
+			`  "${dotText(issue.id)}" [label="${label}", fillcolor="${DOT_FILL[status] ?? "#ffffff"}", penwidth=${penwidth}];`,
+		);
+	}
+	for (const edge of graph.edges) {
+		const style =
+			edge.type === "parent-child" ? " [style=dashed, arrowhead=none]" : "";
+		lines.push(`  "${dotText(edge.from)}" -> "${dotText(edge.to)}"${style};`);
+	}
+	lines.push("}");
+	return lines.join("\n");
+};
+
+const STATUS_MARKERS: Record<string, string> = {
+	open: "[ ]",
+	in_progress: "[~]",
+	blocked: "[!]",
+	closed: "[x]",
+};
+
+/**
+ * ASCII tree following the parent/child hierarchy, with blockers listed
+ * next to each issue
+ */
+export const renderAscii = (graph: IssueGraph): string => {
+	const byId = new Map(graph.nodes.map((issue) => [issue.id, issue]));
+	const children = new Map<string, string[]>();
+	const blockedBy = new Map<string, string[]>();
+	const hasParent = new Set<string>();
+	for (const edge of graph.edges) {
+		if (edge.type === "parent-child") {
+			children.set(edge.from, [...(children.get(edge.from) ?? []), edge.to]);
+			hasParent.add(edge.to);
+		} else {
+			blockedBy.set(edge.to, [...(blockedBy.get(edge.to) ?? []), edge.from]);
+		}
+	}
+
+	const lines: string[] = [];
+	const seen = new Set<string>();
+	const visit = (id: string, prefix: string, connector: string) => {
+		const issue = byId.get(id);
+		if (!issue) return;
+		const status = displayStatus(graph, issue);
+		const blockers = blockedBy.get(id) ?? [];
+		const suffix = blockers.length > 0 ? ` ⇐ ${blockers.join(", ")}` : "";
+		const repeat = seen.has(id) ? " (see above)" : "";
+		lines.push(
+			`${prefix}${connector}${STATUS_MARKERS[status] ?? "[?]"} ${issue.id} P${issue.priority} ${shortTitle(issue.title, 60)}${suffix}${repeat}`,
+		);
+		if (repeat) return;
+		seen.add(id);
+
+		const kids = children.get(id) ?? [];
+		const childPrefix =
+			prefix + (connector === "" ? "" : connector === "└── " ? "    " : "│   ");
+		kids.forEach((childId, i) => {
+			visit(childId, childPrefix, i === kids.length - 1 ? "└── " : "├── ");
+		});
+	};
+
+	for (const issue of graph.nodes) {
+		if (!hasParent.has(issue.id)) visit(issue.id, "", "");
+	}
+	// Issues only reachable through a parent/child cycle
+	for (const issue of graph.nodes) {
+		if (!seen.has(issue.id)) visit(issue.id, "", "");
+	}
+
+	lines.push(
+		"",
+		"[ ] open  [~] in progress  [!] blocked  [x] closed  ⇐ blocked by",
+	);
+	return lines.join("\n");
+};
+
+export const renderGraph = (graph: IssueGraph, format: GraphFormat): string => {
+	if (graph.nodes.length === 0) return "No issues in scope";
+	switch (format) {
+		case "dot":
+			return renderDot(graph);
+		case "ascii":
+			return renderAscii(graph);
+		default:
+			return renderMermaid(graph);
+	}
+};
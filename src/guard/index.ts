@@ -2,129 +2,74 @@
  * BeadsGuardPlugin
  *
  * Enforces beads usage when a .beads directory exists in the project.
- * - Injects context on session creation reminding to use beads
+ * - Injects context on session creation: a beads reminder plus the live
+ *   project state (in progress, ready, blocked, recently closed)
  * - Intercepts todowrite tool calls and suggests using beads instead
- * - Shows toast notifications for guidance
+ * - Shows a project health toast at session start and guidance toasts
+ *
+ * The enforcement mode (off / remind / warn / block / convert) is read from
+ * plugin options or .beads/opencode.json, the same way as BeadsPlugin.
  */
 
 import type { Plugin } from "@opencode-ai/plugin";
-import { existsSync, readFileSync } from "node:fs";
-import { join } from "node:path";
-
-/**
- * Context message injected when beads is detected
- */
-const BEADS_CONTEXT = `
-<system-reminder>
-## Issue Tracking with Beads
-
-This project uses **beads** for issue tracking. The \`.beads\` directory contains the issue database.
-
-### Required Behavior:
-1. **Use bd_* tools** for all task management instead of the todowrite tool
-2. **Check existing issues** with \`bd_list\` before creating new work
-3. **Update issue status** as you work (open → in_progress → closed)
-4. **Link related issues** with dependencies when appropriate
-
-### Quick Reference:
-- \`bd_list\` - List issues (filter by status, priority, label)
-- \`bd_ready\` - Show issues ready to work on (no blockers)
-- \`bd_create\` - Create new issue
-- \`bd_update\` - Update issue (status, priority, assignee)
-- \`bd_close\` - Close completed issues
-- \`bd_show\` - View issue details
-- \`bd_epics\` - List epics
-- \`bd_search\` - Search issues by text
-
-### Workflow:
-1. Start session → \`bd_ready\` to see what's actionable
-2. Pick an issue → \`bd_update\` status to in_progress
-3. Complete work → \`bd_close\` the issue
-4. New task needed? → \`bd_create\` (not todowrite!)
-
-**Do NOT use the todowrite tool** - use beads (bd_*) tools instead.
-</system-reminder>
-`.trim();
-
-/**
- * Message shown when todowrite is intercepted
- */
-const TODOWRITE_WARNING =
-	"This project uses beads for issue tracking. Consider using bd_create instead of todowrite for persistent task management.";
-
-/**
- * Check if beads is initialized in the directory
- */
-const hasBeadsDirectory = (directory: unknown): boolean => {
-	if (typeof directory !== "string") {
-		console.error("[BeadsGuard] directory is not a string:", typeof directory, directory);
-		return false;
-	}
-	const beadsPath = join(directory, ".beads");
-	return existsSync(beadsPath);
-};
+import { createCompatRunner } from "../compat.js";
+import { guardBehavior, loadPluginConfig } from "../config.js";
+import { buildSessionContext, loadProjectSnapshot } from "../context.js";
+import { createJsonlReader } from "../jsonl.js";
+import { createTodoBridge, formatTodoSync, parseTodos } from "../todos.js";
+import { createBdRunner } from "../tools.js";
+import { findBeadsRoot } from "../workspace.js";
+import {
+	TODOWRITE_BLOCKED,
+	TODOWRITE_TIP,
+	TODOWRITE_WARNING,
+} from "./messages.js";
+import { fetchProjectStatus } from "./status.js";
+import { getHealthToastConfig, showToast } from "./toasts.js";
+import {
+	hasBeadsDirectory,
+	hasBeadsIssues,
+	isSessionCreatedEvent,
+} from "./utils.js";
 
 /**
- * Check if beads has any issues (not just initialized)
+ * BeadsGuardPlugin - Enforces beads usage in projects with .beads directory
  */
-const hasBeadsIssues = (directory: unknown): boolean => {
-	if (typeof directory !== "string") {
-		return false;
-	}
-	const issuesPath = join(directory, ".beads", "issues.jsonl");
-	if (!existsSync(issuesPath)) return false;
-
-	try {
-		const content = readFileSync(issuesPath, "utf-8");
-		return content.trim().length > 0;
-	} catch {
-		return false;
+export const BeadsGuardPlugin: Plugin = async (
+	{ client, directory },
+	options,
+) => {
+	// Nearest .beads workspace, walking up to the git root
+	const root = hasBeadsDirectory(directory) ? findBeadsRoot(directory) : null;
+
+	if (!root) {
+		// No beads directory, plugin does nothing
+		return {};
 	}
-};
-
-/**
- * Type guard for session.created event
- */
-type SessionCreatedEvent = {
-	type: "session.created";
-	properties: {
-		info: {
-			id: string;
-		};
-	};
-};
 
-const isSessionCreatedEvent = (
-	event: unknown,
-): event is SessionCreatedEvent => {
-	if (typeof event !== "object" || event === null) return false;
-	const e = event as Record<string, unknown>;
-	if (e.type !== "session.created") return false;
-	if (typeof e.properties !== "object" || e.properties === null) return false;
-	const props = e.properties as Record<string, unknown>;
-	if (typeof props.info !== "object" || props.info === null) return false;
-	const info = props.info as Record<string, unknown>;
-	return typeof info.id === "string";
-};
-
-/**
- * BeadsGuardPlugin - Enforces beads usage in projects with .beads directory
- */
-export const BeadsGuardPlugin: Plugin = async ({ client, directory }) => {
-	const beadsExists = hasBeadsDirectory(directory);
+	// Guard enforcement mode from plugin options / .beads/opencode.json
+	const config = loadPluginConfig(root, options);
+	const guard = guardBehavior(config.guard.mode);
 
-	if (!beadsExists) {
-		// No beads directory, plugin does nothing
+	if (config.guard.mode === "off") {
 		return {};
 	}
 
+	// Session context and health read issues.jsonl, falling back to the bd CLI
+	// (adapted to the installed bd version, as in BeadsPlugin)
+	const runBd = createCompatRunner(createBdRunner(root));
+	const reader = createJsonlReader(root);
+
+	// Convert mode: mirror todowrite lists into bd issues
+	const todoBridge = guard.convertTodowrite ? createTodoBridge(runBd) : null;
+
 	// Track sessions we've already injected context into
 	const injectedSessions = new Set<string>();
 
 	return {
 		event: async ({ event }) => {
 			// Inject context when a new session is created
-			if (isSessionCreatedEvent(event)) {
+			if (isSessionCreatedEvent(event) && guard.injectContext) {
 				const sessionId = event.properties.info.id;
 
 				// Avoid duplicate injections
@@ -132,22 +77,26 @@ export const BeadsGuardPlugin: Plugin = async ({ client, directory }) => {
 				injectedSessions.add(sessionId);
 
 				try {
+					// Live project state, trimmed to the configured budget
+					const snapshot = await loadProjectSnapshot(
+						reader,
+						runBd,
+						config.context,
+					);
+					const context = buildSessionContext(snapshot, config.context);
+
 					// Inject beads context without triggering AI response
 					await client.session.prompt({
 						path: { id: sessionId },
 						body: {
 							noReply: true,
-							parts: [{ type: "text", text: BEADS_CONTEXT }],
+							parts: [{ type: "text", text: context }],
 						},
 					});
 
-					// Show a toast to the user
-					await client.tui.showToast({
-						body: {
-							message: "Beads detected - use bd_* tools for task management",
-							variant: "info",
-						},
-					});
+					// One-line project health toast
+					const status = await fetchProjectStatus(reader, runBd);
+					await showToast(client, getHealthToastConfig(status));
 				} catch (error) {
 					// Silently fail - don't break the session
 					console.error("[BeadsGuard] Failed to inject context:", error);
@@ -156,27 +105,39 @@ export const BeadsGuardPlugin: Plugin = async ({ client, directory }) => {
 		},
 
 		"tool.execute.before": async (input) => {
+			// Reject todowrite outright in block mode
+			if (input.tool === "todowrite" && guard.blockTodowrite) {
+				throw new Error(TODOWRITE_BLOCKED);
+			}
+
 			// Intercept todowrite calls and warn about beads
-			if (input.tool === "todowrite" && beadsExists) {
-				try {
-					await client.tui.showToast({
-						body: {
-							message: TODOWRITE_WARNING,
-							variant: "warning",
-						},
-					});
-				} catch {
-					// Silently fail
-				}
+			if (input.tool === "todowrite" && guard.toastOnTodowrite) {
+				await showToast(client, {
+					message: TODOWRITE_WARNING,
+					variant: "warning",
+				});
 			}
 		},
 
 		"tool.execute.after": async (input, output) => {
+			// In convert mode, turn the todo list into bd issues
+			if (input.tool === "todowrite" && todoBridge) {
+				const entries = await todoBridge.sync(
+					input.sessionID,
+					parseTodos(input.args),
+				);
+				const summary = formatTodoSync(entries);
+				if (summary) {
+					output.output = `${output.output ?? ""}\n\n${summary}`;
+				}
+				return;
+			}
+
 			// After todowrite, remind about beads
-			if (input.tool === "todowrite" && beadsExists) {
+			if (input.tool === "todowrite" && guard.tipAfterTodowrite) {
 				// Modify output to include reminder
 				if (typeof output.output === "string") {
-					output.output = `${output.output}\n\n💡 Tip: This project uses beads for issue tracking. Consider using bd_create for persistent task management.`;
+					output.output = `${output.output}\n\n${TODOWRITE_TIP}`;
 				}
 			}
 		},
@@ -1 +1,35 @@
-// User-facing messages
+/**
+ * Guard Messages
+ *
+ * User- and agent-facing text shared by both plugins.
+ */
+
+/**
+ * Warning toast shown when todowrite is used
+ */
+export const TODOWRITE_WARNING =
+	"This project uses beads for issue tracking. Consider using bd_create instead of todowrite.";
+
+/**
+ * Error returned to the agent when todowrite is blocked
+ */
+export const TODOWRITE_BLOCKED =
+	"todowrite is disabled in this project because it uses beads for issue tracking. Use bd_create to add work, bd_update to change status, and bd_close when done.";
+
+/**
+ * Tip appended to todowrite output in warn mode
+ */
+export const TODOWRITE_TIP =
+	"💡 Tip: This project uses beads for issue tracking. Consider using bd_create for persistent task management.";
+
+/**
+ * Session-start toast when project status is unavailable
+ */
+export const BEADS_DETECTED =
+	"Beads detected - use bd_* tools for task management";
+
+/**
+ * Warning toast when a session ends with its issue still in progress
+ */
+export const sessionEndedInProgress = (id: string, title: string): string =>
+	`Session ended with ${id} still in progress: ${title}`;
@@ -1 +1,99 @@
-// Status fetching
+/**
+ * Project Status
+ *
+ * Summarizes project health (ready, in progress, blocked, stale) for the
+ * session-start toast. Counts come from issues.jsonl when it is the source
+ * of truth and from the bd CLI otherwise.
+ */
+
+import {
+	blockedIssues,
+	type JsonlReader,
+	readyIssues,
+	staleIssues,
+} from "../jsonl.js";
+import type { BdRunner } from "../tools.js";
+import type { ProjectStatus } from "./types.js";
+
+/**
+ * Days without an update after which an issue counts as stale
+ */
+export const DEFAULT_STALE_DAYS = 30;
+
+/**
+ * Limit passed to bd list queries so counts are not capped at bd's default
+ */
+const COUNT_QUERY_LIMIT = "1000";
+
+const lengthOf = (json: unknown): number =>
+	Array.isArray(json) ? json.length : 0;
+
+/**
+ * Ready issues nobody has started: bd's ready list includes in_progress work
+ */
+const isUnstarted = (issue: unknown): boolean =>
+	typeof issue === "object" &&
+	issue !== null &&
+	(issue as { status?: unknown }).status === "open";
+
+/**
+ * Fetch project status counts, or null when bd cannot be queried
+ */
+export const fetchProjectStatus = async (
+	reader: JsonlReader,
+	runBd: BdRunner,
+	staleDays = DEFAULT_STALE_DAYS,
+): Promise<ProjectStatus | null> => {
+	const index = reader.load();
+	if (index) {
+		return {
+			open: index.byStatus.get("open")?.length ?? 0,
+			ready: readyIssues(index, 0).filter(isUnstarted).length,
+			inProgress: index.byStatus.get("in_progress")?.length ?? 0,
+			blocked: blockedIssues(index).length,
+			stale: staleIssues(index, staleDays, 0).length,
+		};
+	}
+
+	const [open, inProgress, ready, blocked, stale] = await Promise.all([
+		runBd(["list", "-s", "open", "--json", "-n", COUNT_QUERY_LIMIT]),
+		runBd(["list", "-s", "in_progress", "--json", "-n", COUNT_QUERY_LIMIT]),
+		runBd(["ready", "--json", "-n", COUNT_QUERY_LIMIT]),
+		runBd(["blocked", "--json"]),
+		runBd([
+			"stale",
+			"--json",
+			"-d",
+			String(staleDays),
+			"-n",
+			COUNT_QUERY_LIMIT,
+		]),
+	]);
+	const results = [open, inProgress, ready, blocked, stale];
+	if (results.some((result) => result.error)) return null;
+
+	return {
+		open: lengthOf(open.json),
+		ready: Array.isArray(ready.json)
+			? ready.json.filter(isUnstarted).length
+			: 0,
+		inProgress: lengthOf(inProgress.json),
+		blocked: lengthOf(blocked.json),
+		stale: lengthOf(stale.json),
+	};
+};
+
+/**
+ * One-line health summary, e.g. "3 ready · 2 in progress · 1 blocked · 4 stale"
+ */
+export const formatProjectStatus = (status: ProjectStatus): string => {
+	if (status.open + status.inProgress + status.blocked === 0) {
+		return "No open issues";
+	}
+	return [
+		`${status.ready} ready`,
+		`${status.inProgress} in progress`,
+		`${status.blocked} blocked`,
+		`${status.stale} stale`,
+	].join(" · ");
+};
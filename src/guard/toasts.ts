@@ -1 +1,233 @@
-// Toast configuration
+/**
+ * Toast Configuration
+ *
+ * Which toast (if any) follows a bd_* tool call, plus the session-start
+ * health toast. Shared by both plugins.
+ */
+
+import { BEADS_DETECTED } from "./messages.js";
+import { formatProjectStatus } from "./status.js";
+import type { ProjectStatus, ToastClient, ToastConfig } from "./types.js";
+import { countIds, parseIssueId, pluralize } from "./utils.js";
+
+/**
+ * Tools that never show a toast
+ */
+export const READ_ONLY_TOOLS = new Set([
+	"bd_list",
+	"bd_show",
+	"bd_search",
+	"bd_count",
+	"bd_stale",
+	"bd_comments",
+	"bd_labels",
+	"bd_deps",
+	"bd_graph",
+	"bd_epics",
+	"bd_epic_show",
+	"bd_status",
+	"bd_stats",
+	"bd_info",
+	"bd_templates",
+	"bd_duplicates",
+	"bd_ready",
+	"bd_blocked",
+	"bd_plan",
+	"bd_release_notes",
+	"bd_diff",
+	"bd_current",
+	"bd_prime",
+]);
+
+/**
+ * Get toast configuration for a tool execution
+ */
+export const getToastConfig = (
+	tool: string,
+	args: Record<string, unknown>,
+	result: string,
+): ToastConfig | null => {
+	// Skip read-only operations (no toast needed)
+	if (READ_ONLY_TOOLS.has(tool)) return null;
+
+	// Tool-specific toast configurations
+	const configs: Record<string, () => ToastConfig | null> = {
+		// Core Issue Operations
+		bd_create: () => {
+			const id = parseIssueId(result);
+			return {
+				message: `Issue created${id ? `: ${id}` : ""}`,
+				variant: "success",
+			};
+		},
+		bd_update: () => {
+			const count = countIds(args.ids);
+			return {
+				message: `${count} ${pluralize(count, "issue")} updated`,
+				variant: "success",
+			};
+		},
+		bd_close: () => {
+			const count = countIds(args.ids);
+			return {
+				message: `${count} ${pluralize(count, "issue")} closed`,
+				variant: "success",
+			};
+		},
+		bd_reopen: () => {
+			const count = countIds(args.ids);
+			return {
+				message: `${count} ${pluralize(count, "issue")} reopened`,
+				variant: "success",
+			};
+		},
+		bd_delete_issue: () => {
+			const count = countIds(args.ids);
+			return {
+				message: `${count} ${pluralize(count, "issue")} deleted`,
+				variant: "success",
+			};
+		},
+		bd_batch: () => {
+			const count = Array.isArray(args.operations) ? args.operations.length : 0;
+			return {
+				message: `Batch applied: ${count} ${pluralize(count, "operation")}`,
+				variant: "success",
+			};
+		},
+
+		// Claims
+		bd_claim: () => {
+			const id = parseIssueId(result);
+			return id ? { message: `Claimed ${id}`, variant: "success" } : null;
+		},
+		bd_release: () => {
+			const count = result.match(/✓ Released/g)?.length ?? 0;
+			return count > 0
+				? {
+						message: `${count} ${pluralize(count, "claim")} released`,
+						variant: "info",
+					}
+				: null;
+		},
+
+		// Comments
+		bd_comment: () => ({
+			message: `Comment added to ${args.id}`,
+			variant: "success",
+		}),
+
+		// Labels
+		bd_label_add: () => ({
+			message: `Label "${args.label}" added to ${args.id}`,
+			variant: "success",
+		}),
+		bd_label_remove: () => ({
+			message: `Label "${args.label}" removed from ${args.id}`,
+			variant: "success",
+		}),
+
+		// Dependencies
+		bd_dep_add: () => ({
+			message: `Dependency added: ${args.id} → ${args.depends_on}`,
+			variant: "success",
+		}),
+		bd_dep_remove: () => ({
+			message: `Dependency removed: ${args.id} → ${args.depends_on}`,
+			variant: "success",
+		}),
+
+		// Epics
+		bd_epic_create: () => {
+			const title = typeof args.title === "string" ? args.title : "";
+			const shortTitle = title.length > 30 ? `${title.slice(0, 30)}...` : title;
+			return {
+				message: `Epic created: ${shortTitle}`,
+				variant: "success",
+			};
+		},
+		bd_epic_plan: () => ({
+			message: "Epic plan applied",
+			variant: "success",
+		}),
+
+		// Database & Sync
+		bd_sync: () => ({
+			message: "Beads synced with remote",
+			variant: "info",
+		}),
+		bd_validate: () => ({
+			message: "Database validation complete",
+			variant: "info",
+		}),
+		bd_doctor: () => ({
+			message: "Health check complete",
+			variant: "info",
+		}),
+
+		// Templates
+		bd_create_from_template: () => {
+			const id = parseIssueId(result);
+			return {
+				message: `Issue created from template${id ? `: ${id}` : ""}`,
+				variant: "success",
+			};
+		},
+
+		// Maintenance
+		bd_cleanup: () => ({
+			message: "Cleanup completed",
+			variant: "info",
+		}),
+		bd_compact: () => ({
+			message: "Database compacted",
+			variant: "info",
+		}),
+		bd_repair_deps: () => ({
+			message: args.fix ? "Dependencies repaired" : "Dependency check complete",
+			variant: "info",
+		}),
+
+		// Import & Export
+		bd_import_todos: () => {
+			if (args.dry_run) {
+				return { message: "TODO import preview ready", variant: "info" };
+			}
+			const count = (result.match(/"fingerprint"/g) ?? []).length;
+			return {
+				message: `Imported ${count} ${pluralize(count, "TODO")}`,
+				variant: "success",
+			};
+		},
+		bd_export: () =>
+			args.output
+				? { message: `Exported to ${args.output}`, variant: "success" }
+				: null,
+	};
+
+	return configs[tool]?.() ?? null;
+};
+
+/**
+ * Session-start toast summarizing project health
+ */
+export const getHealthToastConfig = (
+	status: ProjectStatus | null,
+): ToastConfig => ({
+	message: status ? `Beads: ${formatProjectStatus(status)}` : BEADS_DETECTED,
+	variant: status && status.blocked > 0 ? "warning" : "info",
+});
+
+/**
+ * Show a toast, ignoring failures so a missing TUI never breaks a session
+ */
+export const showToast = async (
+	client: ToastClient,
+	toast: ToastConfig,
+): Promise<void> => {
+	try {
+		await client.tui.showToast({ body: toast });
+	} catch {
+		// Silently fail
+	}
+};
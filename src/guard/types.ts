@@ -1 +1,70 @@
-// Type definitions
+/**
+ * Guard Types
+ *
+ * Shared by BeadsPlugin and BeadsGuardPlugin.
+ */
+
+// ============================================================================
+// Toasts
+// ============================================================================
+
+export type ToastVariant = "success" | "info" | "warning" | "error";
+
+export type ToastConfig = { message: string; variant: ToastVariant };
+
+/**
+ * The part of the OpenCode client the guard uses to show toasts
+ */
+export type ToastClient = {
+	tui: {
+		showToast: (options: { body: ToastConfig }) => Promise<unknown>;
+	};
+};
+
+// ============================================================================
+// Project Status
+// ============================================================================
+
+/**
+ * Issue counts summarizing project health
+ */
+export type ProjectStatus = {
+	/** Open issues (not in progress, not closed) */
+	open: number;
+	/** Open or in-progress issues with no open blockers */
+	ready: number;
+	inProgress: number;
+	/** Non-closed issues with at least one open blocker */
+	blocked: number;
+	/** Non-closed issues not updated within the stale window */
+	stale: number;
+};
+
+// ============================================================================
+// Events
+// ============================================================================
+
+export type SessionCreatedEvent = {
+	type: "session.created";
+	properties: {
+		info: {
+			id: string;
+		};
+	};
+};
+
+export type SessionDeletedEvent = {
+	type: "session.deleted";
+	properties: {
+		info: {
+			id: string;
+		};
+	};
+};
+
+export type SessionCompactedEvent = {
+	type: "session.compacted";
+	properties: {
+		sessionID: string;
+	};
+};
@@ -1 +1,131 @@
-// Utility functions
+/**
+ * Guard Utilities
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { parseIssue } from "../domain.js";
+import { issuesFilePath } from "../jsonl.js";
+import { findBeadsRoot } from "../workspace.js";
+import type {
+	SessionCompactedEvent,
+	SessionCreatedEvent,
+	SessionDeletedEvent,
+} from "./types.js";
+
+// ============================================================================
+// Beads Detection
+// ============================================================================
+
+/**
+ * Check if beads is initialized in the directory or a parent directory up
+ * to the git root
+ */
+export const hasBeadsDirectory = (directory: unknown): boolean => {
+	if (typeof directory !== "string") {
+		console.error(
+			"[BeadsGuard] directory is not a string:",
+			typeof directory,
+			directory,
+		);
+		return false;
+	}
+	return findBeadsRoot(directory) !== null;
+};
+
+/**
+ * Check if beads has any issues (not just initialized)
+ */
+export const hasBeadsIssues = (directory: unknown): boolean => {
+	if (typeof directory !== "string") {
+		return false;
+	}
+	const root = findBeadsRoot(directory);
+	if (!root) return false;
+	const issuesPath = issuesFilePath(root);
+	if (!existsSync(issuesPath)) return false;
+
+	try {
+		const content = readFileSync(issuesPath, "utf-8");
+		return content.trim().length > 0;
+	} catch {
+		return false;
+	}
+};
+
+// ============================================================================
+// Argument Helpers
+// ============================================================================
+
+/**
+ * Try to parse issue ID from bd command output (JSON or plain text)
+ */
+export const parseIssueId = (result: string): string | null => {
+	try {
+		return parseIssue(JSON.parse(result))?.id ?? null;
+	} catch {
+		// Plain text names the issue after a fixed label
+		// (e.g., "✓ Created issue: proj-a1b2", "✓ Claimed proj-a1b2: Title")
+		return result.match(/(?:Created issue:|Claimed)\s+([^\s:]+)/)?.[1] ?? null;
+	}
+};
+
+/**
+ * Split a comma-separated ids argument
+ */
+export const splitIds = (ids: unknown): string[] =>
+	typeof ids === "string"
+		? ids
+				.split(",")
+				.map((id) => id.trim())
+				.filter(Boolean)
+		: [];
+
+/**
+ * Count items in a comma-separated string
+ */
+export const countIds = (ids: unknown): number => splitIds(ids).length;
+
+/**
+ * Format count with plural/singular
+ */
+export const pluralize = (
+	count: number,
+	singular: string,
+	plural?: string,
+): string => {
+	return count === 1 ? singular : (plural ?? `${singular}s`);
+};
+
+// ============================================================================
+// Event Guards
+// ============================================================================
+
+const isSessionInfoEvent = (event: unknown, type: string): boolean => {
+	if (typeof event !== "object" || event === null) return false;
+	const e = event as Record<string, unknown>;
+	if (e.type !== type) return false;
+	if (typeof e.properties !== "object" || e.properties === null) return false;
+	const props = e.properties as Record<string, unknown>;
+	if (typeof props.info !== "object" || props.info === null) return false;
+	const info = props.info as Record<string, unknown>;
+	return typeof info.id === "string";
+};
+
+export const isSessionCreatedEvent = (
+	event: unknown,
+): event is SessionCreatedEvent => isSessionInfoEvent(event, "session.created");
+
+export const isSessionDeletedEvent = (
+	event: unknown,
+): event is SessionDeletedEvent => isSessionInfoEvent(event, "session.deleted");
+
+export const isSessionCompactedEvent = (
+	event: unknown,
+): event is SessionCompactedEvent => {
+	if (typeof event !== "object" || event === null) return false;
+	const e = event as Record<string, unknown>;
+	if (e.type !== "session.compacted") return false;
+	if (typeof e.properties !== "object" || e.properties === null) return false;
+	const props = e.properties as Record<string, unknown>;
+	return typeof props.sessionID === "string";
+};
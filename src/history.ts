@@ -0,0 +1,66 @@
+/**
+ * Issue History
+ *
+ * beads commits `.beads/issues.jsonl` alongside the code, so the state of
+ * the tracker at any git ref can be read back with `git show`. Release
+ * notes and diffs compare that snapshot with the current issues.
+ */
+
+import { InvalidArgumentError, type BdError } from "./errors.js";
+import type { GitRunner } from "./git.js";
+import { type JsonlIssue, parseIssues } from "./jsonl.js";
+
+/**
+ * Issues as of a git ref. A ref from before beads was initialized yields an
+ * empty list.
+ */
+export const loadIssuesAtRef = async (
+	git: GitRunner,
+	ref: string,
+	signal?: AbortSignal,
+): Promise<JsonlIssue[] | BdError> => {
+	if (!ref.trim() || ref.startsWith("-")) {
+		return new InvalidArgumentError("ref", `Invalid git ref: ${ref}`);
+	}
+
+	const verified = await git(
+		["rev-parse", "--verify", "--quiet", `${ref}^{commit}`],
+		{ signal },
+	);
+	if (verified.error) {
+		if (verified.error.code === "aborted") return verified.error;
+		return new InvalidArgumentError(
+			"ref",
+			`Unknown git ref: ${ref}`,
+			"Use a tag, branch or commit, e.g. v1.2.0 or HEAD~10",
+		);
+	}
+
+	// "./" resolves the path from the working directory, not the repo root
+	const result = await git(["show", `${ref}:./.beads/issues.jsonl`], {
+		signal,
+	});
+	if (result.error) {
+		if (
+			/does not exist|exists on disk, but not in/i.test(result.error.message)
+		) {
+			return [];
+		}
+		return result.error;
+	}
+	return parseIssues(result.stdout);
+};
+
+/**
+ * Issues that are closed now but were open (or did not exist) before
+ */
+export const closedSince = (
+	before: JsonlIssue[],
+	after: JsonlIssue[],
+): JsonlIssue[] => {
+	const previous = new Map(before.map((issue) => [issue.id, issue]));
+	return after.filter(
+		(issue) =>
+			issue.status === "closed" && previous.get(issue.id)?.status !== "closed",
+	);
+};
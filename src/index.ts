@@ -2,320 +2,271 @@
  * OpenCode Beads Plugin
  *
  * A comprehensive plugin for the beads (bd) issue tracker.
- * Provides 36 tools for managing issues, dependencies, epics, and more.
+ * Provides 48 tools for managing issues, dependencies, epics, and more.
  *
  * The plugin automatically:
  * - Provides bd_* tools for issue management
+ * - Finds the nearest .beads workspace (also in monorepo subpackages) and
+ *   lets every tool target another one with its `workspace` argument
  * - Injects context on session start when .beads directory exists
- * - Warns when todowrite is used (suggests using beads instead)
+ * - Guards against todowrite according to the configured mode
+ *   (off / remind / warn / block / convert, see config.ts)
+ * - Tracks the issue each session claims and warns if it is left in progress
+ * - Renews bd_claim leases while a session is active and reclaims expired ones
  *
  * Exports:
  * - BeadsPlugin: Main plugin with tools + guard (recommended)
  * - BeadsGuardPlugin: Guard-only plugin (for custom setups)
  */
 
-import type { Plugin } from "@opencode-ai/plugin";
+import type { Plugin, ToolDefinition } from "@opencode-ai/plugin";
 import { existsSync } from "node:fs";
 import { join } from "node:path";
-import { createAllTools, createBdRunner, type ShellExecutor } from "./tools.js";
+import { createCompatRunner } from "./compat.js";
+import { guardBehavior, loadPluginConfig } from "./config.js";
+import { buildSessionContext, loadProjectSnapshot } from "./context.js";
+import { BdError, getBdErrorInfo, InvalidArgumentError } from "./errors.js";
+import {
+	sessionEndedInProgress,
+	TODOWRITE_BLOCKED,
+	TODOWRITE_TIP,
+	TODOWRITE_WARNING,
+} from "./guard/messages.js";
+import { fetchProjectStatus } from "./guard/status.js";
+import {
+	getHealthToastConfig,
+	getToastConfig,
+	showToast,
+} from "./guard/toasts.js";
+import {
+	isSessionCompactedEvent,
+	isSessionCreatedEvent,
+	isSessionDeletedEvent,
+	pluralize,
+	splitIds,
+} from "./guard/utils.js";
+import { createJsonlReader } from "./jsonl.js";
+import { createLeaseStore, type Lease, reclaimExpiredLeases } from "./lease.js";
+import {
+	type CurrentIssue,
+	createSessionTracker,
+	formatCurrentIssueContext,
+	toCurrentIssue,
+} from "./session.js";
+import { createTodoBridge, formatTodoSync, parseTodos } from "./todos.js";
+import {
+	createBdListAcross,
+	createBdRunner,
+	createBdWorkspaces,
+	createWorkspaceTools,
+} from "./tools.js";
+import {
+	ALL_WORKSPACES,
+	defaultWorkspace,
+	discoverWorkspaces,
+	resolveWorkspace,
+	type Workspace,
+	withWorkspaceArg,
+} from "./workspace.js";
 
 // Re-export utilities only (NOT BeadsGuardPlugin to prevent double-loading)
 // BeadsGuardPlugin functionality is now integrated into BeadsPlugin
 // For standalone guard use: import { BeadsGuardPlugin } from "@simonwjackson/opencode-beads/guard"
-export { hasBeadsDirectory, hasBeadsIssues } from "./guard/index.js";
+export { hasBeadsDirectory, hasBeadsIssues } from "./guard/utils.js";
+// OpenCode treats every export as a plugin; the issue model, errors and
+// other library code are exported from ./lib, test helpers from ./testing
 
 // ============================================================================
-// Toast Configuration
+// Plugin Definition
 // ============================================================================
 
-type ToastVariant = "success" | "info" | "warning" | "error";
-type ToastConfig = { message: string; variant: ToastVariant };
-
-/**
- * Try to parse issue ID from bd command output (JSON or plain text)
- */
-const parseIssueId = (result: string): string | null => {
-	try {
-		const parsed: unknown = JSON.parse(result);
-		if (typeof parsed === "object" && parsed !== null && "id" in parsed) {
-			const obj = parsed as { id: unknown };
-			if (typeof obj.id === "string") return obj.id;
-		}
-	} catch {
-		// Try to extract ID from plain text (e.g., "Created issue abc123")
-		const match = result.match(/([a-f0-9]{6,})/i);
-		if (match) return match[1];
+export const BeadsPlugin: Plugin = async ({ client, directory }, options) => {
+	// Validate directory is a string (defensive check for plugin API issues)
+	if (typeof directory !== "string") {
+		console.error(
+			"[BeadsPlugin] directory is not a string:",
+			typeof directory,
+			directory,
+		);
+		return {};
 	}
-	return null;
-};
 
-/**
- * Count items in a comma-separated string
- */
-const countIds = (ids: unknown): number => {
-	if (typeof ids !== "string") return 0;
-	return ids.split(",").filter((id) => id.trim()).length;
-};
+	// Beads workspaces in the repository; the nearest one is the default
+	const discovery = discoverWorkspaces(directory);
+	const primary = defaultWorkspace(discovery, directory);
 
-/**
- * Format count with plural/singular
- */
-const pluralize = (
-	count: number,
-	singular: string,
-	plural?: string,
-): string => {
-	return count === 1 ? singular : (plural ?? `${singular}s`);
-};
-
-/**
- * Get toast configuration for a tool execution
- */
-const getToastConfig = (
-	tool: string,
-	args: Record<string, unknown>,
-	result: string,
-): ToastConfig | null => {
-	// Skip read-only operations (no toast needed)
-	const readOnlyTools = new Set([
-		"bd_list",
-		"bd_show",
-		"bd_search",
-		"bd_count",
-		"bd_stale",
-		"bd_comments",
-		"bd_labels",
-		"bd_deps",
-		"bd_epics",
-		"bd_epic_show",
-		"bd_status",
-		"bd_stats",
-		"bd_info",
-		"bd_templates",
-		"bd_duplicates",
-		"bd_ready",
-		"bd_blocked",
-		"bd_prime",
-	]);
-
-	if (readOnlyTools.has(tool)) return null;
-
-	// Tool-specific toast configurations
-	const configs: Record<string, () => ToastConfig> = {
-		// Core Issue Operations
-		bd_create: () => {
-			const id = parseIssueId(result);
-			return {
-				message: `Issue created${id ? `: ${id}` : ""}`,
-				variant: "success",
-			};
-		},
-		bd_update: () => {
-			const count = countIds(args.ids);
-			return {
-				message: `${count} ${pluralize(count, "issue")} updated`,
-				variant: "success",
-			};
-		},
-		bd_close: () => {
-			const count = countIds(args.ids);
-			return {
-				message: `${count} ${pluralize(count, "issue")} closed`,
-				variant: "success",
-			};
-		},
-		bd_reopen: () => {
-			const count = countIds(args.ids);
-			return {
-				message: `${count} ${pluralize(count, "issue")} reopened`,
-				variant: "success",
-			};
-		},
-		bd_delete_issue: () => {
-			const count = countIds(args.ids);
-			return {
-				message: `${count} ${pluralize(count, "issue")} deleted`,
-				variant: "success",
-			};
-		},
+	// Track which issue each session is working on
+	const sessions = createSessionTracker();
 
-		// Comments
-		bd_comment: () => ({
-			message: `Comment added to ${args.id}`,
-			variant: "success",
-		}),
-
-		// Labels
-		bd_label_add: () => ({
-			message: `Label "${args.label}" added to ${args.id}`,
-			variant: "success",
-		}),
-		bd_label_remove: () => ({
-			message: `Label "${args.label}" removed from ${args.id}`,
-			variant: "success",
-		}),
-
-		// Dependencies
-		bd_dep_add: () => ({
-			message: `Dependency added: ${args.id} → ${args.depends_on}`,
-			variant: "success",
-		}),
-		bd_dep_remove: () => ({
-			message: `Dependency removed: ${args.id} → ${args.depends_on}`,
-			variant: "success",
-		}),
-
-		// Epics
-		bd_epic_create: () => {
-			const title = typeof args.title === "string" ? args.title : "";
-			const shortTitle = title.length > 30 ? `${title.slice(0, 30)}...` : title;
-			return {
-				message: `Epic created: ${shortTitle}`,
-				variant: "success",
-			};
-		},
+	// Workspace roots each session holds bd_claim leases in; only these
+	// sessions renew on activity
+	const leaseHolders = new Map<string, Set<string>>();
+	const holdLeases = (sessionId: string, root: string) => {
+		const roots = leaseHolders.get(sessionId) ?? new Set<string>();
+		leaseHolders.set(sessionId, roots.add(root));
+	};
 
-		// Database & Sync
-		bd_sync: () => ({
-			message: "Beads synced with remote",
-			variant: "info",
-		}),
-		bd_validate: () => ({
-			message: "Database validation complete",
-			variant: "info",
-		}),
-		bd_doctor: () => ({
-			message: "Health check complete",
-			variant: "info",
-		}),
+	// Runner, reader, config and tools for each workspace, created on first use
+	const contexts = new Map<string, ReturnType<typeof openWorkspace>>();
+	const openWorkspace = (workspace: Workspace) => {
+		const root = workspace.root;
+
+		// Run bd in the workspace (argv-based, no shell), adapting flags to
+		// the installed bd version
+		const runBd = createCompatRunner(createBdRunner(root));
+
+		// Read-only tools answer from issues.jsonl when JSONL is the backend
+		const reader = createJsonlReader(root);
+
+		// Settings from plugin options / the workspace's .beads/opencode.json
+		const config = loadPluginConfig(root, options);
+
+		// Leases behind bd_claim, shared with other sessions on this workspace
+		const leases = createLeaseStore(root, config.claim.leaseMs);
+		for (const lease of leases.list()) holdLeases(lease.sessionId, root);
+
+		const tools = createWorkspaceTools(runBd, {
+			directory: root,
+			reader,
+			close: config.close,
+			sessions,
+			runnerFor: (bound) => contexts.get(bound)?.runBd ?? runBd,
+			leases,
+		});
+		return { workspace, runBd, reader, config, leases, tools };
+	};
+	const workspaceContext = (workspace: Workspace) => {
+		let context = contexts.get(workspace.root);
+		if (!context) {
+			context = openWorkspace(workspace);
+			contexts.set(workspace.root, context);
+		}
+		return context;
+	};
 
-		// Templates
-		bd_create_from_template: () => {
-			const id = parseIssueId(result);
-			return {
-				message: `Issue created from template${id ? `: ${id}` : ""}`,
-				variant: "success",
-			};
-		},
+	const main = workspaceContext(primary);
+	const { runBd, reader, config } = main;
+	void runBd.version();
+
+	/**
+	 * Workspace a tool call targeted (the default when absent or invalid)
+	 */
+	const targetOf = (args: Record<string, unknown>) => {
+		if (typeof args.workspace !== "string") return main;
+		const workspace = resolveWorkspace(discovery, args.workspace, directory);
+		return workspace instanceof BdError ? main : workspaceContext(workspace);
+	};
 
-		// Maintenance
-		bd_cleanup: () => ({
-			message: "Cleanup completed",
-			variant: "info",
-		}),
-		bd_compact: () => ({
-			message: "Database compacted",
-			variant: "info",
-		}),
-		bd_repair_deps: () => ({
-			message: args.fix ? "Dependencies repaired" : "Dependency check complete",
-			variant: "info",
+	// Guard enforcement mode from plugin options / .beads/opencode.json
+	const guard = guardBehavior(config.guard.mode);
+
+	// Convert mode: mirror todowrite lists into bd issues
+	const todoBridge = guard.convertTodowrite ? createTodoBridge(runBd) : null;
+
+	// bd_list with workspace "all" lists every workspace
+	let listAcross: ToolDefinition | undefined;
+
+	// Every tool takes an optional workspace argument
+	const tools = {
+		...withWorkspaceArg(main.tools, (name, value) => {
+			if (value === ALL_WORKSPACES) {
+				if (name !== "bd_list") {
+					return new InvalidArgumentError(
+						"workspace",
+						`${name} works on one workspace at a time`,
+						`Pass a workspace name from bd_workspaces; only bd_list accepts "${ALL_WORKSPACES}"`,
+					);
+				}
+				listAcross ??= createBdListAcross(
+					discovery.workspaces.map((workspace) => ({
+						name: workspace.name,
+						...workspaceContext(workspace),
+					})),
+				);
+				return listAcross;
+			}
+			const workspace = resolveWorkspace(discovery, value, directory);
+			if (workspace instanceof BdError) return workspace;
+			return workspaceContext(workspace).tools[name as keyof typeof main.tools];
 		}),
+		bd_workspaces: createBdWorkspaces(discovery, primary),
 	};
 
-	return configs[tool]?.() ?? null;
-};
-
-// ============================================================================
-// Guard Configuration
-// ============================================================================
-
-/**
- * Context message injected when beads is detected
- */
-const BEADS_CONTEXT = `
-<system-reminder>
-## Issue Tracking with Beads
-
-This project uses **beads** for issue tracking. The \`.beads\` directory contains the issue database.
-
-### Required Behavior:
-1. **Use bd_* tools** for all task management instead of the todowrite tool
-2. **Check existing issues** with \`bd_list\` before creating new work
-3. **Update issue status** as you work (open → in_progress → closed)
-4. **Link related issues** with dependencies when appropriate
-
-### Quick Reference:
-- \`bd_list\` - List issues (filter by status, priority, label)
-- \`bd_ready\` - Show issues ready to work on (no blockers)
-- \`bd_create\` - Create new issue
-- \`bd_update\` - Update issue (status, priority, assignee)
-- \`bd_close\` - Close completed issues
-- \`bd_show\` - View issue details
-- \`bd_epics\` - List epics
-- \`bd_search\` - Search issues by text
-
-### Workflow:
-1. Start session → \`bd_ready\` to see what's actionable
-2. Pick an issue → \`bd_update\` status to in_progress
-3. Complete work → \`bd_close\` the issue
-4. New task needed? → \`bd_create\` (not todowrite!)
-
-**Do NOT use the todowrite tool** - use beads (bd_*) tools instead.
-</system-reminder>
-`.trim();
+	// Check if beads is initialized in this project
+	const beadsExists = existsSync(join(primary.root, ".beads"));
 
-/**
- * Warning shown when todowrite is used
- */
-const TODOWRITE_WARNING =
-	"This project uses beads for issue tracking. Consider using bd_create instead of todowrite.";
+	// Track sessions we've already injected context into
+	const injectedSessions = new Set<string>();
 
-/**
- * Type guard for session.created event
- */
-type SessionCreatedEvent = {
-	type: "session.created";
-	properties: {
-		info: {
-			id: string;
-		};
+	/**
+	 * Load an issue's current fields (natively when possible)
+	 */
+	const fetchIssue = async (id: string, target = main) => {
+		const index = target.reader.load();
+		const json = index
+			? index.byId.get(id)
+			: (await target.runBd(["show", id, "--json"])).json;
+		return { ...toCurrentIssue(json, id), workspace: target.workspace.root };
 	};
-};
 
-const isSessionCreatedEvent = (
-	event: unknown,
-): event is SessionCreatedEvent => {
-	if (typeof event !== "object" || event === null) return false;
-	const e = event as Record<string, unknown>;
-	if (e.type !== "session.created") return false;
-	if (typeof e.properties !== "object" || e.properties === null) return false;
-	const props = e.properties as Record<string, unknown>;
-	if (typeof props.info !== "object" || props.info === null) return false;
-	const info = props.info as Record<string, unknown>;
-	return typeof info.id === "string";
-};
-
-// ============================================================================
-// Plugin Definition
-// ============================================================================
-
-export const BeadsPlugin: Plugin = async ({ client, $, directory }) => {
-	// Cast $ to our ShellExecutor type (it's Bun's shell API)
-	const shell = $ as unknown as ShellExecutor;
-
-	// Validate directory is a string (defensive check for plugin API issues)
-	if (typeof directory !== "string") {
-		console.error(
-			"[BeadsPlugin] directory is not a string:",
-			typeof directory,
-			directory,
-		);
-		return {};
-	}
+	/**
+	 * Workspace a session's current issue is in
+	 */
+	const boundTo = (current: CurrentIssue) =>
+		(current.workspace && contexts.get(current.workspace)) || main;
+
+	/**
+	 * Bind, refresh or release a session's current issue after a bd_* call
+	 */
+	const trackCurrentIssue = async (
+		sessionId: string,
+		tool: string,
+		args: Record<string, unknown>,
+		metadata: Record<string, unknown> | undefined,
+	): Promise<void> => {
+		const ids = splitIds(args.ids);
+		const current = sessions.get(sessionId);
+		const target = targetOf(args);
+
+		const lease = metadata?.lease as Lease | undefined;
+		if (tool === "bd_claim" && lease) {
+			sessions.bind(sessionId, {
+				...(await fetchIssue(lease.issueId, target)),
+				boundAt: lease.claimedAt,
+			});
+			return;
+		}
+		// Issues with the same ID in another workspace are not this one
+		const bound = current && boundTo(current) === target ? current : undefined;
 
-	// Create the bd runner with the shell executor and working directory
-	const runBd = createBdRunner(shell, directory);
+		if (tool === "bd_release" && bound) {
+			const released = metadata?.released;
+			if (Array.isArray(released) && released.includes(bound.id)) {
+				sessions.unbind(sessionId);
+			}
+			return;
+		}
 
-	// Create all tools using the runner
-	const tools = createAllTools(runBd);
+		if (tool === "bd_update" && args.status === "in_progress" && ids[0]) {
+			sessions.bind(sessionId, {
+				...(await fetchIssue(ids[0], target)),
+				boundAt: new Date().toISOString(),
+			});
+			return;
+		}
 
-	// Check if beads is initialized in this project
-	const beadsPath = join(directory, ".beads");
-	const beadsExists = existsSync(beadsPath);
+		if (!bound || !ids.includes(bound.id)) return;
 
-	// Track sessions we've already injected context into
-	const injectedSessions = new Set<string>();
+		if (
+			tool === "bd_close" ||
+			tool === "bd_delete_issue" ||
+			(tool === "bd_update" && typeof args.status === "string")
+		) {
+			sessions.unbind(sessionId);
+		} else if (tool === "bd_update") {
+			sessions.refresh(sessionId, await fetchIssue(bound.id, target));
+		}
+	};
 
 	return {
 		tool: tools,
@@ -324,8 +275,20 @@ export const BeadsPlugin: Plugin = async ({ client, $, directory }) => {
 			// Only inject context if beads exists
 			if (!beadsExists) return;
 
-			// Inject context when a new session is created
+			// Return issues whose claims expired to the ready pool
 			if (isSessionCreatedEvent(event)) {
+				try {
+					for (const workspace of discovery.workspaces) {
+						const context = workspaceContext(workspace);
+						await reclaimExpiredLeases(context.runBd, context.leases);
+					}
+				} catch (error) {
+					console.error("[BeadsPlugin] Failed to reclaim leases:", error);
+				}
+			}
+
+			// Inject context when a new session is created
+			if (isSessionCreatedEvent(event) && guard.injectContext) {
 				const sessionId = event.properties.info.id;
 
 				// Avoid duplicate injections
@@ -333,36 +296,67 @@ export const BeadsPlugin: Plugin = async ({ client, $, directory }) => {
 				injectedSessions.add(sessionId);
 
 				try {
+					// Live project state, trimmed to the configured budget
+					const snapshot = await loadProjectSnapshot(
+						reader,
+						runBd,
+						config.context,
+					);
+					const context = buildSessionContext(snapshot, config.context);
+
 					// Inject beads context without triggering AI response
 					await client.session.prompt({
 						path: { id: sessionId },
 						body: {
 							noReply: true,
-							parts: [{ type: "text", text: BEADS_CONTEXT }],
+							parts: [{ type: "text", text: context }],
 						},
 					});
 
-					// Show a toast to the user
-					await client.tui.showToast({
+					// One-line project health toast
+					const status = await fetchProjectStatus(reader, runBd);
+					await showToast(client, getHealthToastConfig(status));
+				} catch (error) {
+					// Silently fail - don't break the session
+					console.error("[BeadsPlugin] Failed to inject context:", error);
+				}
+			}
+
+			// Re-inject the current issue after compaction drops it from context
+			if (isSessionCompactedEvent(event)) {
+				const sessionId = event.properties.sessionID;
+				const current = sessions.get(sessionId);
+				if (!current) return;
+
+				try {
+					await client.session.prompt({
+						path: { id: sessionId },
 						body: {
-							message: "Beads detected - use bd_* tools for task management",
-							variant: "info",
+							noReply: true,
+							parts: [
+								{ type: "text", text: formatCurrentIssueContext(current) },
+							],
 						},
 					});
 				} catch (error) {
-					// Silently fail - don't break the session
-					console.error("[BeadsPlugin] Failed to inject context:", error);
+					console.error("[BeadsPlugin] Failed to inject current issue:", error);
 				}
 			}
-		},
 
-		"tool.execute.before": async (input) => {
-			// Warn when todowrite is used in a beads project
-			if (input.tool === "todowrite" && beadsExists) {
+			// Warn when a session ends with its issue still in progress
+			if (isSessionDeletedEvent(event)) {
+				const sessionId = event.properties.info.id;
+				injectedSessions.delete(sessionId);
+				leaseHolders.delete(sessionId);
+				const current = sessions.unbind(sessionId);
+				if (!current) return;
+
 				try {
+					const latest = await fetchIssue(current.id, boundTo(current));
+					if (latest.status !== "in_progress") return;
 					await client.tui.showToast({
 						body: {
-							message: TODOWRITE_WARNING,
+							message: sessionEndedInProgress(current.id, current.title),
 							variant: "warning",
 						},
 					});
@@ -372,38 +366,122 @@ export const BeadsPlugin: Plugin = async ({ client, $, directory }) => {
 			}
 		},
 
+		"tool.execute.before": async (input) => {
+			// Reject todowrite outright in block mode
+			if (input.tool === "todowrite" && beadsExists && guard.blockTodowrite) {
+				throw new Error(TODOWRITE_BLOCKED);
+			}
+
+			// Warn when todowrite is used in a beads project
+			if (input.tool === "todowrite" && beadsExists && guard.toastOnTodowrite) {
+				await showToast(client, {
+					message: TODOWRITE_WARNING,
+					variant: "warning",
+				});
+			}
+		},
+
 		"tool.execute.after": async (input, output) => {
+			// Any tool call counts as activity that keeps the session's claims
+			const holding = leaseHolders.get(input.sessionID);
+			if (beadsExists && holding) {
+				try {
+					for (const root of holding) {
+						const leases = contexts.get(root)?.leases;
+						await leases?.renew(input.sessionID);
+						const held = leases
+							?.list()
+							.some((lease) => lease.sessionId === input.sessionID);
+						if (!held) holding.delete(root);
+					}
+					if (holding.size === 0) leaseHolders.delete(input.sessionID);
+				} catch (error) {
+					console.error("[BeadsPlugin] Failed to renew leases:", error);
+				}
+			}
+
 			// Handle bd_* tools
 			if (input.tool.startsWith("bd_")) {
 				const result = typeof output.output === "string" ? output.output : "";
 
-				// Check for errors first
-				if (result.startsWith("Error:")) {
+				const metadata = output.metadata as Record<string, unknown> | undefined;
+
+				// Check for errors first - tools record bd failures in metadata
+				const bdError = getBdErrorInfo(metadata);
+				if (bdError) {
 					await client.tui.showToast({
 						body: {
-							message: result.slice(0, 100), // Truncate long errors
+							message: bdError.message.slice(0, 100), // Truncate long errors
 							variant: "error",
 						},
 					});
 					return;
 				}
 
-				// Get toast config for this tool - args come from metadata
-				const metadata = output.metadata as Record<string, unknown> | undefined;
-				const args = (metadata?.args ?? {}) as Record<string, unknown>;
+				// Get toast config for this tool - args come from the hook input
+				// (older hosts only provide them in metadata)
+				const args = (input.args ?? metadata?.args ?? {}) as Record<
+					string,
+					unknown
+				>;
+				await trackCurrentIssue(input.sessionID, input.tool, args, metadata);
+
+				if (input.tool === "bd_claim") {
+					holdLeases(input.sessionID, targetOf(args).workspace.root);
+				}
+
+				// Finished issues no longer need a claim
+				if (input.tool === "bd_close" || input.tool === "bd_delete_issue") {
+					const { leases } = targetOf(args);
+					for (const id of splitIds(args.ids)) leases.remove(id);
+				}
+
 				const toastConfig = getToastConfig(input.tool, args, result);
 
 				if (toastConfig) {
+					// Show which issue the session is bound to
+					const current = sessions.get(input.sessionID);
 					await client.tui.showToast({
-						body: toastConfig,
+						body: current
+							? {
+									...toastConfig,
+									message: `${toastConfig.message} · working on ${current.id}`,
+								}
+							: toastConfig,
+					});
+				}
+			}
+
+			// In convert mode, turn the todo list into bd issues
+			if (input.tool === "todowrite" && beadsExists && todoBridge) {
+				const entries = await todoBridge.sync(
+					input.sessionID,
+					parseTodos(input.args),
+				);
+				const summary = formatTodoSync(entries);
+				if (summary) {
+					output.output = `${output.output ?? ""}\n\n${summary}`;
+				}
+				const created = entries.filter((e) => e.action === "created").length;
+				if (created > 0) {
+					await client.tui.showToast({
+						body: {
+							message: `${created} ${pluralize(created, "todo")} converted to beads issues`,
+							variant: "info",
+						},
 					});
 				}
+				return;
 			}
 
 			// After todowrite, remind about beads
-			if (input.tool === "todowrite" && beadsExists) {
+			if (
+				input.tool === "todowrite" &&
+				beadsExists &&
+				guard.tipAfterTodowrite
+			) {
 				if (typeof output.output === "string") {
-					output.output = `${output.output}\n\n💡 Tip: This project uses beads for issue tracking. Consider using bd_create for persistent task management.`;
+					output.output = `${output.output}\n\n${TODOWRITE_TIP}`;
 				}
 			}
 		},
@@ -0,0 +1,421 @@
+/**
+ * Native JSONL Read Engine
+ *
+ * Parses `.beads/issues.jsonl` directly and answers read-only queries
+ * (list, show, search, count, ready, blocked, stale, labels) without
+ * spawning the bd CLI. The parsed index is cached and rebuilt only when
+ * the file changes on disk.
+ *
+ * The reader only claims the file when JSONL is the source of truth
+ * (no-db mode, or no SQLite database next to it). Otherwise `load()`
+ * returns null and callers fall back to the bd CLI.
+ */
+
+import { existsSync, readFileSync, statSync } from "node:fs";
+import { join } from "node:path";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Dependency record as stored in issues.jsonl
+ */
+export type JsonlDependency = {
+	issue_id: string;
+	depends_on_id: string;
+	type: string;
+	created_at?: string;
+	created_by?: string;
+};
+
+/**
+ * Issue record as stored in issues.jsonl
+ */
+export type JsonlIssue = {
+	id: string;
+	title: string;
+	description?: string;
+	status: string;
+	priority: number;
+	issue_type: string;
+	assignee?: string;
+	labels?: string[];
+	dependencies?: JsonlDependency[];
+	created_at: string;
+	updated_at: string;
+	closed_at?: string;
+	[key: string]: unknown;
+};
+
+/**
+ * In-memory index over the issues in issues.jsonl
+ */
+export type IssueIndex = {
+	issues: JsonlIssue[];
+	byId: Map<string, JsonlIssue>;
+	byStatus: Map<string, JsonlIssue[]>;
+	byLabel: Map<string, JsonlIssue[]>;
+	byPriority: Map<number, JsonlIssue[]>;
+	/** Issue ID → IDs of issues it is blocked by ("blocks" dependencies) */
+	blockers: Map<string, string[]>;
+	/** Issue ID → IDs of issues that depend on it (any dependency type) */
+	dependents: Map<string, string[]>;
+	/** Issue ID → parent issue ID ("parent-child" dependencies) */
+	parent: Map<string, string>;
+	/** Parent issue ID → child issue IDs */
+	children: Map<string, string[]>;
+};
+
+/**
+ * Cached reader over a project's issues.jsonl
+ */
+export type JsonlReader = {
+	/** Returns the current index, or null when the CLI must be used instead */
+	load: () => IssueIndex | null;
+};
+
+export type ListFilters = {
+	status?: string;
+	label?: string;
+	priority?: number;
+	assignee?: string;
+	type?: string;
+	/** Only direct children of this issue */
+	parent?: string;
+	limit?: number;
+};
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Path to the issues file for a project directory
+ */
+export const issuesFilePath = (directory: string): string =>
+	join(directory, ".beads", "issues.jsonl");
+
+export const isJsonlIssue = (value: unknown): value is JsonlIssue => {
+	if (typeof value !== "object" || value === null) return false;
+	const v = value as Record<string, unknown>;
+	return typeof v.id === "string" && typeof v.title === "string";
+};
+
+/**
+ * Parse the contents of an issues.jsonl file, skipping malformed lines
+ */
+export const parseIssues = (content: string): JsonlIssue[] => {
+	const issues: JsonlIssue[] = [];
+	for (const line of content.split("\n")) {
+		const trimmed = line.trim();
+		if (!trimmed) continue;
+		try {
+			const parsed: unknown = JSON.parse(trimmed);
+			if (isJsonlIssue(parsed)) {
+				// Hand-edited or older rows may lack fields the queries sort by
+				const createdAt =
+					typeof parsed.created_at === "string" ? parsed.created_at : "";
+				issues.push({
+					...parsed,
+					status: typeof parsed.status === "string" ? parsed.status : "open",
+					priority: typeof parsed.priority === "number" ? parsed.priority : 2,
+					issue_type:
+						typeof parsed.issue_type === "string" ? parsed.issue_type : "task",
+					created_at: createdAt,
+					updated_at:
+						typeof parsed.updated_at === "string"
+							? parsed.updated_at
+							: createdAt,
+				});
+			}
+		} catch {
+			// Skip lines bd would also reject (e.g. a half-written merge)
+		}
+	}
+	return issues;
+};
+
+const pushTo = <K, V>(map: Map<K, V[]>, key: K, value: V): void => {
+	const list = map.get(key);
+	if (list) list.push(value);
+	else map.set(key, [value]);
+};
+
+/**
+ * Build the lookup index used by the native queries
+ */
+export const buildIssueIndex = (issues: JsonlIssue[]): IssueIndex => {
+	const index: IssueIndex = {
+		issues,
+		byId: new Map(),
+		byStatus: new Map(),
+		byLabel: new Map(),
+		byPriority: new Map(),
+		blockers: new Map(),
+		dependents: new Map(),
+		parent: new Map(),
+		children: new Map(),
+	};
+
+	for (const issue of issues) {
+		index.byId.set(issue.id, issue);
+		pushTo(index.byStatus, issue.status, issue);
+		pushTo(index.byPriority, issue.priority, issue);
+		for (const label of issue.labels ?? []) {
+			pushTo(index.byLabel, label, issue);
+		}
+		for (const dep of issue.dependencies ?? []) {
+			pushTo(index.dependents, dep.depends_on_id, issue.id);
+			if (dep.type === "parent-child") {
+				index.parent.set(issue.id, dep.depends_on_id);
+				pushTo(index.children, dep.depends_on_id, issue.id);
+			} else if (dep.type === "blocks") {
+				pushTo(index.blockers, issue.id, dep.depends_on_id);
+			}
+		}
+	}
+
+	return index;
+};
+
+// ============================================================================
+// Reader
+// ============================================================================
+
+/**
+ * Check whether JSONL is the source of truth for this beads directory.
+ *
+ * With the SQLite backend the JSONL file is a debounced export and may lag
+ * behind the database, so it is only trusted in no-db mode or when no
+ * database file exists.
+ */
+const isJsonlBackend = (beadsDir: string): boolean => {
+	const configPath = join(beadsDir, "config.yaml");
+	if (existsSync(configPath)) {
+		try {
+			const config = readFileSync(configPath, "utf-8");
+			if (/^\s*no-db:\s*true\b/m.test(config)) return true;
+		} catch {
+			// Fall through to the database check
+		}
+	}
+
+	let database = "beads.db";
+	const metadataPath = join(beadsDir, "metadata.json");
+	if (existsSync(metadataPath)) {
+		try {
+			const metadata = JSON.parse(readFileSync(metadataPath, "utf-8")) as {
+				database?: unknown;
+			};
+			if (typeof metadata.database === "string") database = metadata.database;
+		} catch {
+			// Keep the default database name
+		}
+	}
+	return !existsSync(join(beadsDir, database));
+};
+
+/**
+ * Create a cached reader for a project's issues.jsonl
+ */
+export const createJsonlReader = (directory: string): JsonlReader => {
+	const beadsDir = join(directory, ".beads");
+	const issuesPath = issuesFilePath(directory);
+	let cache: { mtimeMs: number; size: number; index: IssueIndex } | null = null;
+
+	return {
+		load: () => {
+			if (!existsSync(issuesPath) || !isJsonlBackend(beadsDir)) return null;
+
+			try {
+				const stats = statSync(issuesPath);
+				if (
+					cache &&
+					cache.mtimeMs === stats.mtimeMs &&
+					cache.size === stats.size
+				) {
+					return cache.index;
+				}
+				const index = buildIssueIndex(
+					parseIssues(readFileSync(issuesPath, "utf-8")),
+				);
+				cache = { mtimeMs: stats.mtimeMs, size: stats.size, index };
+				return index;
+			} catch {
+				return null;
+			}
+		},
+	};
+};
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Order by priority (P0 first), then oldest first
+ */
+const byPriorityThenAge = (a: JsonlIssue, b: JsonlIssue): number =>
+	a.priority - b.priority || a.created_at.localeCompare(b.created_at);
+
+const applyLimit = <T>(items: T[], limit?: number): T[] =>
+	limit && limit > 0 ? items.slice(0, limit) : items;
+
+/**
+ * IDs of blockers that are still open for an issue
+ */
+export const openBlockers = (index: IssueIndex, id: string): string[] =>
+	(index.blockers.get(id) ?? []).filter((blockerId) => {
+		const blocker = index.byId.get(blockerId);
+		return blocker !== undefined && blocker.status !== "closed";
+	});
+
+export const listIssues = (
+	index: IssueIndex,
+	filters: ListFilters = {},
+): JsonlIssue[] => {
+	// Without a status filter, closed issues are hidden (matches bd list)
+	let issues =
+		filters.status === "all"
+			? index.issues
+			: filters.status
+				? (index.byStatus.get(filters.status) ?? [])
+				: index.issues.filter((issue) => issue.status !== "closed");
+
+	if (filters.label) {
+		const labelled = new Set(index.byLabel.get(filters.label) ?? []);
+		issues = issues.filter((issue) => labelled.has(issue));
+	}
+	if (filters.priority !== undefined) {
+		issues = issues.filter((issue) => issue.priority === filters.priority);
+	}
+	if (filters.assignee) {
+		issues = issues.filter((issue) => issue.assignee === filters.assignee);
+	}
+	if (filters.type) {
+		issues = issues.filter((issue) => issue.issue_type === filters.type);
+	}
+	if (filters.parent) {
+		const parent = filters.parent;
+		issues = issues.filter((issue) => index.parent.get(issue.id) === parent);
+	}
+
+	return applyLimit([...issues].sort(byPriorityThenAge), filters.limit);
+};
+
+export const countIssues = (
+	index: IssueIndex,
+	filters: Omit<ListFilters, "limit"> = {},
+): number =>
+	listIssues(index, { ...filters, status: filters.status ?? "all" }).length;
+
+/**
+ * Issue with its resolved dependencies and dependents, or null if unknown
+ */
+export const showIssue = (
+	index: IssueIndex,
+	id: string,
+): Record<string, unknown> | null => {
+	const issue = index.byId.get(id);
+	if (!issue) return null;
+
+	const summarize = (otherId: string) => {
+		const other = index.byId.get(otherId);
+		return other
+			? {
+					id: other.id,
+					title: other.title,
+					status: other.status,
+					priority: other.priority,
+					issue_type: other.issue_type,
+				}
+			: { id: otherId };
+	};
+
+	return {
+		...issue,
+		dependencies: (issue.dependencies ?? []).map((dep) => ({
+			...summarize(dep.depends_on_id),
+			dependency_type: dep.type,
+		})),
+		dependents: (index.dependents.get(id) ?? []).map(summarize),
+	};
+};
+
+export const searchIssues = (
+	index: IssueIndex,
+	query: string,
+	limit = 50,
+): JsonlIssue[] => {
+	const needle = query.toLowerCase();
+	const matches = index.issues.filter(
+		(issue) =>
+			issue.id.toLowerCase().includes(needle) ||
+			issue.title.toLowerCase().includes(needle) ||
+			(issue.description ?? "").toLowerCase().includes(needle),
+	);
+	return applyLimit(matches.sort(byPriorityThenAge), limit);
+};
+
+/**
+ * Open or in-progress issues with no open blockers
+ */
+export const readyIssues = (index: IssueIndex, limit = 10): JsonlIssue[] => {
+	const ready = index.issues.filter(
+		(issue) =>
+			(issue.status === "open" || issue.status === "in_progress") &&
+			openBlockers(index, issue.id).length === 0,
+	);
+	return applyLimit(ready.sort(byPriorityThenAge), limit);
+};
+
+/**
+ * Non-closed issues with at least one open blocker
+ */
+export const blockedIssues = (
+	index: IssueIndex,
+): Array<JsonlIssue & { blocked_by: string[]; blocked_by_count: number }> =>
+	index.issues
+		.filter((issue) => issue.status !== "closed")
+		.map((issue) => {
+			const blockedBy = openBlockers(index, issue.id);
+			return {
+				...issue,
+				blocked_by: blockedBy,
+				blocked_by_count: blockedBy.length,
+			};
+		})
+		.filter((issue) => issue.blocked_by_count > 0)
+		.sort(byPriorityThenAge);
+
+/**
+ * Non-closed issues not updated in the given number of days, oldest first
+ */
+export const staleIssues = (
+	index: IssueIndex,
+	days = 30,
+	limit = 50,
+	now: Date = new Date(),
+): JsonlIssue[] => {
+	const cutoff = now.getTime() - days * 24 * 60 * 60 * 1000;
+	const stale = index.issues.filter((issue) => {
+		if (issue.status === "closed") return false;
+		const updated = Date.parse(issue.updated_at);
+		return !Number.isNaN(updated) && updated < cutoff;
+	});
+	return applyLimit(
+		stale.sort((a, b) => Date.parse(a.updated_at) - Date.parse(b.updated_at)),
+		limit,
+	);
+};
+
+/**
+ * Every label in use with its issue count, most used first
+ */
+export const labelCounts = (
+	index: IssueIndex,
+): Array<{ label: string; count: number }> =>
+	[...index.byLabel.entries()]
+		.map(([label, issues]) => ({ label, count: issues.length }))
+		.sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
@@ -0,0 +1,316 @@
+/**
+ * Issue Leases
+ *
+ * Claims made with bd_claim are backed by lease files in .beads/leases/,
+ * one per issue, so several sessions or agents on one repository never
+ * work the same issue. Claiming happens under a lock directory shared by
+ * every plugin instance (mkdir is atomic), which makes "pick a ready issue
+ * and assign it" a single step.
+ *
+ * A lease names the session holding it and expires unless renewed. The
+ * plugin renews a session's leases while it keeps calling tools, and
+ * returns issues with expired leases to the ready pool at session start.
+ */
+
+import {
+	existsSync,
+	mkdirSync,
+	readdirSync,
+	readFileSync,
+	renameSync,
+	rmdirSync,
+	rmSync,
+	statSync,
+	utimesSync,
+	writeFileSync,
+} from "node:fs";
+import { join } from "node:path";
+import { parseIssue } from "./domain.js";
+import { type BdError, LockContentionError } from "./errors.js";
+import type { BdRunner } from "./tools.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type Lease = {
+	issueId: string;
+	/** Assignee recorded on the issue */
+	holder: string;
+	sessionId: string;
+	/** ISO timestamps */
+	claimedAt: string;
+	expiresAt: string;
+};
+
+export type LeaseStore = {
+	/** How long a lease lasts without renewal */
+	leaseMs: number;
+	/**
+	 * Run `fn` while holding the lock shared by every plugin instance on
+	 * the repository
+	 */
+	withLock: <T>(fn: () => Promise<T>) => Promise<T | LockContentionError>;
+	get: (issueId: string) => Lease | null;
+	list: () => Lease[];
+	/** Write a lease for a session, starting now unless renewing */
+	put: (
+		issueId: string,
+		holder: string,
+		sessionId: string,
+		claimedAt?: string,
+	) => Lease;
+	remove: (issueId: string) => void;
+	isExpired: (lease: Lease) => boolean;
+	/** Extend the session's leases once half their time has passed */
+	renew: (sessionId: string) => Promise<Lease[]>;
+};
+
+/**
+ * A lock not touched for this long is left over from a crashed process;
+ * the holder touches it every third of this while it works
+ */
+const LOCK_STALE_MS = 30_000;
+const LOCK_TIMEOUT_MS = 5_000;
+const LOCK_RETRY_MS = 25;
+
+/** Timeout for each bd call made under the lock, well below LOCK_STALE_MS */
+export const LOCKED_BD_TIMEOUT_MS = 10_000;
+
+// ============================================================================
+// Store
+// ============================================================================
+
+/**
+ * Assignee recorded on issues a session claims
+ */
+export const sessionAssignee = (sessionId: string): string =>
+	`opencode-${sessionId.replace(/^ses_/, "").slice(-8)}`;
+
+const isLease = (value: unknown): value is Lease => {
+	if (typeof value !== "object" || value === null) return false;
+	const lease = value as Record<string, unknown>;
+	return (
+		typeof lease.issueId === "string" &&
+		typeof lease.holder === "string" &&
+		typeof lease.sessionId === "string" &&
+		typeof lease.expiresAt === "string"
+	);
+};
+
+const sleep = (ms: number) =>
+	new Promise((resolve) => {
+		setTimeout(resolve, ms);
+	});
+
+/**
+ * Create the lease store for a project directory
+ */
+export const createLeaseStore = (
+	directory: string,
+	leaseMs: number,
+	now: () => Date = () => new Date(),
+): LeaseStore => {
+	const leaseDir = join(directory, ".beads", "leases");
+	const lockDir = join(leaseDir, ".lock");
+
+	const leasePath = (issueId: string) =>
+		join(leaseDir, `${encodeURIComponent(issueId)}.json`);
+
+	const ensureDir = () => {
+		if (existsSync(leaseDir)) return;
+		mkdirSync(leaseDir, { recursive: true });
+		// Leases are local coordination state, never committed
+		writeFileSync(join(leaseDir, ".gitignore"), "*\n");
+	};
+
+	const read = (path: string): Lease | null => {
+		try {
+			const lease: unknown = JSON.parse(readFileSync(path, "utf-8"));
+			return isLease(lease) ? lease : null;
+		} catch {
+			return null;
+		}
+	};
+
+	const isStale = (path: string): boolean => {
+		try {
+			return Date.now() - statSync(path).mtimeMs > LOCK_STALE_MS;
+		} catch {
+			// Already gone
+			return false;
+		}
+	};
+
+	/**
+	 * Remove the lock if it is still stale. Waiters break it one at a time
+	 * under a second lock and look again first, so a waiter that saw the
+	 * old lock never removes the one that replaced it.
+	 */
+	const breakStaleLock = (): boolean => {
+		const breaker = `${lockDir}.break`;
+		try {
+			mkdirSync(breaker);
+		} catch {
+			// Another waiter is breaking it, or crashed while doing so
+			if (isStale(breaker)) rmSync(breaker, { recursive: true, force: true });
+			return false;
+		}
+		try {
+			if (!isStale(lockDir)) return false;
+			rmSync(lockDir, { recursive: true, force: true });
+			return true;
+		} finally {
+			rmdirSync(breaker);
+		}
+	};
+
+	const acquire = async (): Promise<boolean> => {
+		ensureDir();
+		const deadline = Date.now() + LOCK_TIMEOUT_MS;
+		while (true) {
+			try {
+				mkdirSync(lockDir);
+				return true;
+			} catch (error) {
+				if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+			}
+			if (isStale(lockDir) && breakStaleLock()) continue;
+			if (Date.now() > deadline) return false;
+			await sleep(LOCK_RETRY_MS);
+		}
+	};
+
+	const store: LeaseStore = {
+		leaseMs,
+
+		withLock: async (fn) => {
+			if (!(await acquire())) {
+				return new LockContentionError(
+					"Issue claims are locked by another session",
+					"Another session is claiming or releasing an issue; retry in a moment.",
+				);
+			}
+			const heartbeat = setInterval(() => {
+				try {
+					const now = new Date();
+					utimesSync(lockDir, now, now);
+				} catch {
+					// Removed as stale; the next writer takes over
+				}
+			}, LOCK_STALE_MS / 3);
+			heartbeat.unref?.();
+			try {
+				return await fn();
+			} finally {
+				clearInterval(heartbeat);
+				try {
+					rmdirSync(lockDir);
+				} catch {
+					// Already removed as stale
+				}
+			}
+		},
+
+		get: (issueId) => read(leasePath(issueId)),
+
+		list: () => {
+			if (!existsSync(leaseDir)) return [];
+			return readdirSync(leaseDir)
+				.filter((name) => name.endsWith(".json"))
+				.flatMap((name) => {
+					const lease = read(join(leaseDir, name));
+					return lease ? [lease] : [];
+				});
+		},
+
+		put: (issueId, holder, sessionId, claimedAt) => {
+			ensureDir();
+			const start = now();
+			const lease: Lease = {
+				issueId,
+				holder,
+				sessionId,
+				claimedAt: claimedAt ?? start.toISOString(),
+				expiresAt: new Date(start.getTime() + leaseMs).toISOString(),
+			};
+			// Write then rename so readers never see a partial file
+			const path = leasePath(issueId);
+			const temp = `${path}.${process.pid}.tmp`;
+			writeFileSync(temp, `${JSON.stringify(lease, null, 2)}\n`);
+			renameSync(temp, path);
+			return lease;
+		},
+
+		remove: (issueId) => {
+			rmSync(leasePath(issueId), { force: true });
+		},
+
+		isExpired: (lease) => !(Date.parse(lease.expiresAt) > now().getTime()),
+
+		renew: async (sessionId) => {
+			const due = (lease: Lease) =>
+				lease.sessionId === sessionId &&
+				!store.isExpired(lease) &&
+				Date.parse(lease.expiresAt) - now().getTime() < leaseMs / 2;
+			if (!store.list().some(due)) return [];
+
+			const renewed = await store.withLock(async () =>
+				store
+					.list()
+					.filter(due)
+					.map((lease) =>
+						store.put(
+							lease.issueId,
+							lease.holder,
+							lease.sessionId,
+							lease.claimedAt,
+						),
+					),
+			);
+			return renewed instanceof LockContentionError ? [] : renewed;
+		},
+	};
+	return store;
+};
+
+// ============================================================================
+// Reclaiming
+// ============================================================================
+
+/**
+ * Return issues whose lease expired to the ready pool: an issue still in
+ * progress under the lease holder is reopened and unassigned, and the
+ * lease is dropped. Returns the reopened issue IDs.
+ */
+export const reclaimExpiredLeases = async (
+	runBd: BdRunner,
+	leases: LeaseStore,
+	signal?: AbortSignal,
+): Promise<string[] | BdError> => {
+	if (!leases.list().some(leases.isExpired)) return [];
+
+	return leases.withLock(async () => {
+		const reopened: string[] = [];
+		for (const lease of leases.list().filter(leases.isExpired)) {
+			const shown = await runBd(["show", lease.issueId, "--json"], {
+				signal,
+				timeoutMs: LOCKED_BD_TIMEOUT_MS,
+			});
+			const issue = shown.error ? null : parseIssue(shown.json);
+			if (issue?.status === "in_progress" && issue.assignee === lease.holder) {
+				const result = await runBd(
+					["update", lease.issueId, "--status", "open", "-a", ""],
+					{ signal, timeoutMs: LOCKED_BD_TIMEOUT_MS },
+				);
+				if (result.error) continue;
+				reopened.push(lease.issueId);
+			} else if (shown.error?.code !== "issue_not_found" && !issue) {
+				// bd could not answer; keep the lease for the next session
+				continue;
+			}
+			leases.remove(lease.issueId);
+		}
+		return reopened;
+	});
+};
@@ -0,0 +1,32 @@
+/**
+ * Library Entry Point
+ *
+ * The issue model, typed errors, bd version compatibility and workspace
+ * discovery, for code that builds on the plugin. This lives apart from the
+ * main entry because OpenCode treats every export of that module as a
+ * plugin function.
+ *
+ *   import { parseIssue, BdError } from "@simonwjackson/opencode-beads/lib"
+ */
+
+export * from "./domain.js";
+export * from "./errors.js";
+export {
+	type BdVersion,
+	type CompatBdRunner,
+	createCompatRunner,
+	FLAG_ALIASES,
+	type FlagAlias,
+} from "./compat.js";
+export {
+	type BdResult,
+	type BdRunner,
+	createAllTools,
+	createBdRunner,
+} from "./tools.js";
+export {
+	discoverWorkspaces,
+	findBeadsRoot,
+	type Workspace,
+	type WorkspaceDiscovery,
+} from "./workspace.js";
@@ -0,0 +1,867 @@
+/**
+ * In-Memory bd Runner
+ *
+ * A BdRunner that implements the subset of the bd CLI used by the bd_*
+ * tools without spawning a process. State lives in memory and is optionally
+ * loaded from and written back to a JSONL fixture in the same format as
+ * .beads/issues.jsonl, so plugin extensions can be tested offline.
+ *
+ * Failures are reported the way bd reports them (message on stderr,
+ * non-zero exit), so they flow through the same error classification as
+ * the real CLI.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { ISSUE_STATUSES, ISSUE_TYPES } from "./domain.js";
+import { classifyBdFailure } from "./errors.js";
+import {
+	blockedIssues,
+	buildIssueIndex,
+	countIssues,
+	type IssueIndex,
+	type JsonlIssue,
+	labelCounts,
+	listIssues,
+	openBlockers,
+	parseIssues,
+	readyIssues,
+	searchIssues,
+	showIssue,
+	staleIssues,
+} from "./jsonl.js";
+import type { BdResult, BdRunner } from "./tools.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type MemoryBdRunnerOptions = {
+	/** JSONL file to load initial state from and persist mutations to */
+	fixturePath?: string;
+	/** Initial issues (ignored when the fixture file exists) */
+	issues?: JsonlIssue[];
+	/** Prefix for generated issue IDs (default: "mem") */
+	prefix?: string;
+	/** Clock used for timestamps (default: current time) */
+	now?: () => Date;
+};
+
+/**
+ * In-memory runner with access to its current state
+ */
+export type MemoryBdRunner = BdRunner & {
+	/** Snapshot of every issue currently stored */
+	issues: () => JsonlIssue[];
+};
+
+type Comment = {
+	id: number;
+	issue_id: string;
+	author: string;
+	text: string;
+	created_at: string;
+};
+
+type FlagSpec = {
+	/** Long flag name → whether it takes a value */
+	flags: Record<string, "value" | "bool">;
+	/** Short or alternate spelling → long flag name */
+	aliases?: Record<string, string>;
+};
+
+type ParsedArgs = {
+	positional: string[];
+	flags: Map<string, string>;
+};
+
+/**
+ * Raised inside command handlers; rendered as bd-style stderr
+ */
+class MemoryCommandFailure extends Error {}
+
+// ============================================================================
+// Argument Parsing
+// ============================================================================
+
+const COMMAND_FLAGS: Record<string, FlagSpec> = {
+	list: {
+		flags: {
+			"--json": "bool",
+			"--status": "value",
+			"--label": "value",
+			"--priority": "value",
+			"--limit": "value",
+			"--assignee": "value",
+			"--type": "value",
+			"--parent": "value",
+		},
+		aliases: {
+			"-s": "--status",
+			"-l": "--label",
+			"-p": "--priority",
+			"-n": "--limit",
+			"-a": "--assignee",
+			"-t": "--type",
+		},
+	},
+	show: { flags: { "--json": "bool" } },
+	create: {
+		flags: {
+			"--json": "bool",
+			"--description": "value",
+			"--priority": "value",
+			"--labels": "value",
+			"--parent": "value",
+			"--assignee": "value",
+			"--deps": "value",
+			"--type": "value",
+			"--template": "value",
+			"--title": "value",
+			"--var": "value",
+			"--design": "value",
+			"--acceptance": "value",
+			"--external-ref": "value",
+			"--estimate": "value",
+		},
+		aliases: {
+			"-d": "--description",
+			"-p": "--priority",
+			"-l": "--labels",
+			"-a": "--assignee",
+			"-t": "--type",
+		},
+	},
+	update: {
+		flags: {
+			"--json": "bool",
+			"--status": "value",
+			"--title": "value",
+			"--priority": "value",
+			"--assignee": "value",
+			"--parent": "value",
+			"--description": "value",
+			"--type": "value",
+			"--design": "value",
+			"--acceptance": "value",
+			"--notes": "value",
+			"--external-ref": "value",
+			"--estimate": "value",
+			"--add-label": "value",
+			"--remove-label": "value",
+		},
+		aliases: {
+			"-s": "--status",
+			"-p": "--priority",
+			"-a": "--assignee",
+			"-d": "--description",
+			"-t": "--type",
+		},
+	},
+	close: { flags: { "--json": "bool", "--reason": "value" } },
+	reopen: { flags: { "--json": "bool" } },
+	delete: { flags: { "--json": "bool", "--force": "bool" } },
+	ready: {
+		flags: { "--json": "bool", "--limit": "value" },
+		aliases: { "-n": "--limit" },
+	},
+	blocked: { flags: { "--json": "bool" } },
+	search: {
+		flags: { "--json": "bool", "--limit": "value" },
+		aliases: { "-n": "--limit" },
+	},
+	count: {
+		flags: { "--status": "value", "--label": "value", "--priority": "value" },
+	},
+	stale: {
+		flags: { "--json": "bool", "--days": "value", "--limit": "value" },
+		aliases: { "-d": "--days", "-n": "--limit" },
+	},
+	comment: { flags: { "--json": "bool" } },
+	comments: { flags: { "--json": "bool" } },
+	label: { flags: { "--json": "bool" } },
+	dep: { flags: { "--json": "bool" } },
+	status: { flags: { "--json": "bool" } },
+	stats: { flags: { "--json": "bool" } },
+	sync: { flags: {} },
+	info: { flags: { "--json": "bool" } },
+	validate: { flags: { "--json": "bool" } },
+	doctor: { flags: {} },
+	template: { flags: { "--json": "bool" } },
+	cleanup: {
+		flags: { "--older-than": "value", "--force": "bool" },
+	},
+	compact: { flags: { "--older-than": "value" } },
+	duplicates: { flags: { "--json": "bool", "--threshold": "value" } },
+	"repair-deps": { flags: { "--fix": "bool" } },
+	prime: { flags: {} },
+	export: {
+		flags: { "--format": "value" },
+		aliases: { "-f": "--format" },
+	},
+};
+
+const parseArgs = (argv: readonly string[], spec: FlagSpec): ParsedArgs => {
+	const parsed: ParsedArgs = { positional: [], flags: new Map() };
+
+	for (let i = 0; i < argv.length; i++) {
+		const arg = argv[i];
+		if (arg === "--") {
+			// Everything after "--" is positional, even text starting with "-"
+			parsed.positional.push(...argv.slice(i + 1));
+			break;
+		}
+		if (!arg.startsWith("-") || arg === "-") {
+			parsed.positional.push(arg);
+			continue;
+		}
+
+		const [rawName, inlineValue] = arg.split(/=(.*)/s, 2);
+		const name = spec.aliases?.[rawName] ?? rawName;
+		const kind = spec.flags[name];
+		if (!kind) throw new MemoryCommandFailure(`unknown flag: ${rawName}`);
+
+		if (kind === "bool") {
+			parsed.flags.set(name, "true");
+			continue;
+		}
+		const value = inlineValue ?? argv[++i];
+		if (value === undefined) {
+			throw new MemoryCommandFailure(`flag needs an argument: ${rawName}`);
+		}
+		// Repeated flags (e.g. --var) accumulate as a comma-separated list
+		const previous = parsed.flags.get(name);
+		parsed.flags.set(name, previous ? `${previous},${value}` : value);
+	}
+
+	return parsed;
+};
+
+/**
+ * Cobra-style help listing a command's flags, so the compatibility runner
+ * can probe the in-memory runner like the real CLI
+ */
+const helpText = (command: string, spec: FlagSpec): string => {
+	const shorts = new Map(
+		Object.entries(spec.aliases ?? {}).map(([short, long]) => [long, short]),
+	);
+	const lines = Object.entries(spec.flags).map(([flag, kind]) => {
+		const short = shorts.get(flag);
+		return `  ${short ? `${short}, ` : "    "}${flag}${kind === "value" ? " string" : ""}`;
+	});
+	return `Usage:\n  bd ${command} [flags]\n\nFlags:\n${lines.join("\n")}\n  -h, --help\n`;
+};
+
+const parsePriority = (value: string): number => {
+	const match = value.trim().match(/^[Pp]?([0-4])$/);
+	if (!match) {
+		throw new MemoryCommandFailure(
+			`invalid argument "${value}" for "--priority": must be 0-4 or P0-P4`,
+		);
+	}
+	return Number(match[1]);
+};
+
+const parseCount = (
+	value: string | undefined,
+	flag: string,
+): number | undefined => {
+	if (value === undefined) return undefined;
+	const n = Number(value);
+	if (!Number.isInteger(n) || n < 0) {
+		throw new MemoryCommandFailure(`invalid argument "${value}" for "${flag}"`);
+	}
+	return n;
+};
+
+const splitList = (value: string | undefined): string[] =>
+	(value ?? "")
+		.split(",")
+		.map((item) => item.trim())
+		.filter(Boolean);
+
+const toJson = (value: unknown): string =>
+	`${JSON.stringify(value, null, 2)}\n`;
+
+// ============================================================================
+// Runner
+// ============================================================================
+
+const VALID_STATUSES = new Set<string>(ISSUE_STATUSES);
+const VALID_TYPES = new Set<string>(ISSUE_TYPES);
+
+/**
+ * Flag → JSONL field for free-text issue details
+ */
+const DETAIL_FIELDS: Array<[flag: string, field: string]> = [
+	["--design", "design"],
+	["--acceptance", "acceptance_criteria"],
+	["--notes", "notes"],
+	["--external-ref", "external_ref"],
+];
+
+/**
+ * Create a BdRunner backed by in-memory state
+ */
+export const createMemoryBdRunner = (
+	options: MemoryBdRunnerOptions = {},
+): MemoryBdRunner => {
+	const prefix = options.prefix ?? "mem";
+	const now = options.now ?? (() => new Date());
+	const { fixturePath } = options;
+
+	let issues: JsonlIssue[] =
+		fixturePath && existsSync(fixturePath)
+			? parseIssues(readFileSync(fixturePath, "utf-8"))
+			: structuredClone(options.issues ?? []);
+
+	const nextId = (): string => {
+		const pattern = new RegExp(`^${prefix}-(\\d+)$`);
+		const max = issues.reduce((highest, issue) => {
+			const match = issue.id.match(pattern);
+			return match ? Math.max(highest, Number(match[1])) : highest;
+		}, 0);
+		return `${prefix}-${max + 1}`;
+	};
+
+	const persist = () => {
+		if (!fixturePath) return;
+		const content = issues.map((issue) => JSON.stringify(issue)).join("\n");
+		writeFileSync(fixturePath, content ? `${content}\n` : "");
+	};
+
+	const index = (): IssueIndex => buildIssueIndex(issues);
+
+	const requireIssue = (id: string | undefined): JsonlIssue => {
+		if (!id) throw new MemoryCommandFailure("issue ID required");
+		const issue = issues.find((candidate) => candidate.id === id);
+		if (!issue) throw new MemoryCommandFailure(`issue ${id} not found`);
+		return issue;
+	};
+
+	const touch = (issue: JsonlIssue) => {
+		issue.updated_at = now().toISOString();
+	};
+
+	const parseType = (type: string): string => {
+		if (!VALID_TYPES.has(type)) {
+			throw new MemoryCommandFailure(`invalid argument "${type}" for "--type"`);
+		}
+		return type;
+	};
+
+	/**
+	 * Optional text and estimate fields shared by create and update
+	 */
+	const setDetails = (issue: JsonlIssue, flags: Map<string, string>) => {
+		for (const [flag, field] of DETAIL_FIELDS) {
+			const value = flags.get(flag);
+			if (value !== undefined) issue[field] = value;
+		}
+		const estimate = parseCount(flags.get("--estimate"), "--estimate");
+		if (estimate !== undefined) issue.estimated_minutes = estimate;
+	};
+
+	const setStatus = (issue: JsonlIssue, status: string) => {
+		if (!VALID_STATUSES.has(status)) {
+			throw new MemoryCommandFailure(
+				`invalid argument "${status}" for "--status"`,
+			);
+		}
+		issue.status = status;
+		if (status === "closed") issue.closed_at = now().toISOString();
+		else delete issue.closed_at;
+		touch(issue);
+	};
+
+	const setParent = (issue: JsonlIssue, parentId: string) => {
+		requireIssue(parentId);
+		const deps = (issue.dependencies ?? []).filter(
+			(dep) => dep.type !== "parent-child",
+		);
+		deps.push({
+			issue_id: issue.id,
+			depends_on_id: parentId,
+			type: "parent-child",
+			created_at: now().toISOString(),
+		});
+		issue.dependencies = deps;
+	};
+
+	const addDependency = (issue: JsonlIssue, dependsOnId: string) => {
+		requireIssue(dependsOnId);
+		const deps = issue.dependencies ?? [];
+		if (
+			!deps.some(
+				(dep) => dep.depends_on_id === dependsOnId && dep.type === "blocks",
+			)
+		) {
+			deps.push({
+				issue_id: issue.id,
+				depends_on_id: dependsOnId,
+				type: "blocks",
+				created_at: now().toISOString(),
+			});
+		}
+		issue.dependencies = deps;
+	};
+
+	const commentsOf = (issue: JsonlIssue): Comment[] =>
+		Array.isArray(issue.comments) ? (issue.comments as Comment[]) : [];
+
+	const dependencyTree = (id: string): string => {
+		const idx = index();
+		const lines: string[] = [`Dependency tree for ${id}:`, ""];
+		const visit = (issueId: string, depth: number, seen: Set<string>) => {
+			const issue = idx.byId.get(issueId);
+			const label = issue
+				? `${issue.id}: ${issue.title} [P${issue.priority}] (${issue.status})`
+				: `${issueId} (missing)`;
+			lines.push(`${"  ".repeat(depth)}${depth > 0 ? "└─ " : ""}${label}`);
+			if (seen.has(issueId)) return;
+			const next = new Set(seen).add(issueId);
+			for (const blockerId of idx.blockers.get(issueId) ?? []) {
+				visit(blockerId, depth + 1, next);
+			}
+		};
+		visit(id, 0, new Set());
+		return `${lines.join("\n")}\n`;
+	};
+
+	const summary = () => {
+		const idx = index();
+		const count = (status: string) => idx.byStatus.get(status)?.length ?? 0;
+		return {
+			total_issues: issues.length,
+			open_issues: count("open"),
+			in_progress_issues: count("in_progress"),
+			closed_issues: count("closed"),
+			blocked_issues: blockedIssues(idx).length,
+			ready_issues: readyIssues(idx, 0).length,
+		};
+	};
+
+	type Handler = (args: ParsedArgs) => string;
+
+	const handlers: Record<string, Handler> = {
+		list: ({ flags }) =>
+			toJson(
+				listIssues(index(), {
+					status: flags.get("--status"),
+					label: flags.get("--label"),
+					priority: flags.has("--priority")
+						? parsePriority(flags.get("--priority") ?? "")
+						: undefined,
+					limit: parseCount(flags.get("--limit"), "--limit"),
+					assignee: flags.get("--assignee"),
+					type: flags.get("--type"),
+					parent: flags.get("--parent"),
+				}),
+			),
+
+		show: ({ positional }) => {
+			requireIssue(positional[0]);
+			return toJson(showIssue(index(), positional[0]));
+		},
+
+		create: ({ positional, flags }) => {
+			if (flags.has("--template")) {
+				throw new MemoryCommandFailure(
+					`template "${flags.get("--template")}" not found`,
+				);
+			}
+			const title = positional[0] ?? flags.get("--title");
+			if (!title) throw new MemoryCommandFailure("title required");
+			const type = parseType(flags.get("--type") ?? "task");
+
+			const timestamp = now().toISOString();
+			const issue: JsonlIssue = {
+				id: nextId(),
+				title,
+				description: flags.get("--description") ?? "",
+				status: "open",
+				priority: flags.has("--priority")
+					? parsePriority(flags.get("--priority") ?? "")
+					: 2,
+				issue_type: type,
+				created_at: timestamp,
+				updated_at: timestamp,
+			};
+			const assignee = flags.get("--assignee");
+			if (assignee) issue.assignee = assignee;
+			const labels = splitList(flags.get("--labels"));
+			if (labels.length > 0) issue.labels = labels;
+			setDetails(issue, flags);
+
+			const parent = flags.get("--parent");
+			if (parent) setParent(issue, parent);
+			for (const dep of splitList(flags.get("--deps"))) {
+				addDependency(issue, dep);
+			}
+
+			issues.push(issue);
+			return flags.has("--json")
+				? toJson(issue)
+				: `✓ Created issue: ${issue.id}\n  Title: ${issue.title}\n  Priority: P${issue.priority}\n  Status: open\n`;
+		},
+
+		update: ({ positional, flags }) => {
+			const targets = positional.map(requireIssue);
+			if (targets.length === 0)
+				throw new MemoryCommandFailure("issue ID required");
+			for (const issue of targets) {
+				const status = flags.get("--status");
+				if (status) setStatus(issue, status);
+				const title = flags.get("--title");
+				if (title) issue.title = title;
+				const priority = flags.get("--priority");
+				if (priority) issue.priority = parsePriority(priority);
+				const assignee = flags.get("--assignee");
+				if (assignee) issue.assignee = assignee;
+				else if (assignee === "") delete issue.assignee;
+				const parent = flags.get("--parent");
+				if (parent) setParent(issue, parent);
+				const description = flags.get("--description");
+				if (description !== undefined) issue.description = description;
+				const type = flags.get("--type");
+				if (type) issue.issue_type = parseType(type);
+				setDetails(issue, flags);
+				if (flags.has("--add-label") || flags.has("--remove-label")) {
+					const removed = new Set(splitList(flags.get("--remove-label")));
+					issue.labels = [
+						...new Set([
+							...(issue.labels ?? []).filter((label) => !removed.has(label)),
+							...splitList(flags.get("--add-label")),
+						]),
+					];
+				}
+				touch(issue);
+			}
+			return flags.has("--json")
+				? toJson(targets)
+				: targets.map((issue) => `✓ Updated issue: ${issue.id}\n`).join("");
+		},
+
+		close: ({ positional, flags }) => {
+			const targets = positional.map(requireIssue);
+			if (targets.length === 0)
+				throw new MemoryCommandFailure("issue ID required");
+			for (const issue of targets) {
+				setStatus(issue, "closed");
+				const reason = flags.get("--reason");
+				if (reason) issue.close_reason = reason;
+			}
+			return flags.has("--json")
+				? toJson(targets)
+				: targets.map((issue) => `✓ Closed ${issue.id}\n`).join("");
+		},
+
+		reopen: ({ positional, flags }) => {
+			const targets = positional.map(requireIssue);
+			if (targets.length === 0)
+				throw new MemoryCommandFailure("issue ID required");
+			for (const issue of targets) setStatus(issue, "open");
+			return flags.has("--json")
+				? toJson(targets)
+				: targets.map((issue) => `✓ Reopened ${issue.id}\n`).join("");
+		},
+
+		delete: ({ positional }) => {
+			const ids = new Set(positional.map((id) => requireIssue(id).id));
+			if (ids.size === 0) throw new MemoryCommandFailure("issue ID required");
+			issues = issues.filter((issue) => !ids.has(issue.id));
+			for (const issue of issues) {
+				if (!issue.dependencies) continue;
+				issue.dependencies = issue.dependencies.filter(
+					(dep) => !ids.has(dep.depends_on_id),
+				);
+			}
+			return [...ids].map((id) => `✓ Deleted ${id}\n`).join("");
+		},
+
+		ready: ({ flags }) =>
+			toJson(
+				readyIssues(index(), parseCount(flags.get("--limit"), "--limit") ?? 10),
+			),
+
+		blocked: () => toJson(blockedIssues(index())),
+
+		search: ({ positional, flags }) => {
+			const query = positional[0];
+			if (!query) throw new MemoryCommandFailure("search query required");
+			return toJson(
+				searchIssues(
+					index(),
+					query,
+					parseCount(flags.get("--limit"), "--limit") ?? 50,
+				),
+			);
+		},
+
+		count: ({ flags }) =>
+			`${countIssues(index(), {
+				status: flags.get("--status"),
+				label: flags.get("--label"),
+				priority: flags.has("--priority")
+					? parsePriority(flags.get("--priority") ?? "")
+					: undefined,
+			})}\n`,
+
+		stale: ({ flags }) =>
+			toJson(
+				staleIssues(
+					index(),
+					parseCount(flags.get("--days"), "--days") ?? 30,
+					parseCount(flags.get("--limit"), "--limit") ?? 50,
+					now(),
+				),
+			),
+
+		comment: ({ positional }) => {
+			const issue = requireIssue(positional[0]);
+			const text = positional[1];
+			if (!text) throw new MemoryCommandFailure("comment text required");
+			const comments = commentsOf(issue);
+			comments.push({
+				id: comments.length + 1,
+				issue_id: issue.id,
+				author: "memory",
+				text,
+				created_at: now().toISOString(),
+			});
+			issue.comments = comments;
+			touch(issue);
+			return `✓ Added comment to ${issue.id}\n`;
+		},
+
+		comments: ({ positional }) =>
+			toJson(commentsOf(requireIssue(positional[0]))),
+
+		label: ({ positional }) => {
+			const [action, id, label] = positional;
+			if (action === "list-all") return toJson(labelCounts(index()));
+			const issue = requireIssue(id);
+			if (!label) throw new MemoryCommandFailure("label required");
+			if (action === "add") {
+				const labels = issue.labels ?? [];
+				if (!labels.includes(label)) labels.push(label);
+				issue.labels = labels;
+				touch(issue);
+				return `✓ Added label '${label}' to ${issue.id}\n`;
+			}
+			if (action === "remove") {
+				issue.labels = (issue.labels ?? []).filter((l) => l !== label);
+				touch(issue);
+				return `✓ Removed label '${label}' from ${issue.id}\n`;
+			}
+			throw new MemoryCommandFailure(
+				`unknown command "${action}" for "bd label"`,
+			);
+		},
+
+		dep: ({ positional }) => {
+			const [action, id, dependsOnId] = positional;
+			if (action === "tree") {
+				requireIssue(id);
+				return dependencyTree(id);
+			}
+			const issue = requireIssue(id);
+			requireIssue(dependsOnId);
+			if (action === "add") {
+				addDependency(issue, dependsOnId);
+				touch(issue);
+				return `✓ Added dependency: ${issue.id} depends on ${dependsOnId}\n`;
+			}
+			if (action === "remove") {
+				issue.dependencies = (issue.dependencies ?? []).filter(
+					(dep) => dep.depends_on_id !== dependsOnId,
+				);
+				touch(issue);
+				return `✓ Removed dependency: ${issue.id} no longer depends on ${dependsOnId}\n`;
+			}
+			throw new MemoryCommandFailure(
+				`unknown command "${action}" for "bd dep"`,
+			);
+		},
+
+		status: () => toJson({ summary: summary() }),
+		stats: () => toJson(summary()),
+		sync: () => "",
+		info: () =>
+			toJson({
+				database_path: fixturePath ?? ":memory:",
+				mode: "memory",
+				issue_count: issues.length,
+			}),
+
+		validate: () => {
+			const ids = new Set(issues.map((issue) => issue.id));
+			const orphaned = issues.flatMap((issue) =>
+				(issue.dependencies ?? [])
+					.filter((dep) => !ids.has(dep.depends_on_id))
+					.map((dep) => ({
+						issue_id: issue.id,
+						depends_on_id: dep.depends_on_id,
+					})),
+			);
+			return toJson({
+				valid: orphaned.length === 0,
+				orphaned_dependencies: orphaned,
+			});
+		},
+
+		doctor: () => "✓ In-memory bd backend is healthy\n",
+
+		template: ({ positional }) => {
+			if (positional[0] !== "list") {
+				throw new MemoryCommandFailure(
+					`unknown command "${positional[0] ?? ""}" for "bd template"`,
+				);
+			}
+			return toJson([]);
+		},
+
+		cleanup: ({ flags }) => {
+			const days = parseCount(flags.get("--older-than"), "--older-than") ?? 0;
+			const cutoff = now().getTime() - days * 24 * 60 * 60 * 1000;
+			const removed = issues.filter(
+				(issue) =>
+					issue.status === "closed" &&
+					Date.parse(issue.closed_at ?? issue.updated_at) <= cutoff,
+			);
+			const removedIds = new Set(removed.map((issue) => issue.id));
+			issues = issues.filter((issue) => !removedIds.has(issue.id));
+			return `✓ Deleted ${removed.length} closed issue(s)\n`;
+		},
+
+		compact: () => "✓ Compacted 0 issue(s)\n",
+
+		duplicates: () => {
+			const byTitle = new Map<string, string[]>();
+			for (const issue of issues) {
+				if (issue.status === "closed") continue;
+				const key = issue.title.trim().toLowerCase();
+				byTitle.set(key, [...(byTitle.get(key) ?? []), issue.id]);
+			}
+			return toJson(
+				[...byTitle.values()]
+					.filter((ids) => ids.length > 1)
+					.map((ids) => ({ issues: ids, similarity: 100 })),
+			);
+		},
+
+		"repair-deps": ({ flags }) => {
+			const ids = new Set(issues.map((issue) => issue.id));
+			let orphaned = 0;
+			for (const issue of issues) {
+				const deps = issue.dependencies ?? [];
+				const kept = deps.filter((dep) => ids.has(dep.depends_on_id));
+				orphaned += deps.length - kept.length;
+				if (flags.has("--fix")) issue.dependencies = kept;
+			}
+			if (orphaned === 0) return "";
+			return flags.has("--fix")
+				? `✓ Removed ${orphaned} orphaned dependency reference(s)\n`
+				: `Found ${orphaned} orphaned dependency reference(s); run with --fix to remove\n`;
+		},
+
+		export: ({ flags }) => {
+			const format = flags.get("--format") ?? "jsonl";
+			if (format !== "jsonl") {
+				throw new MemoryCommandFailure(
+					`invalid argument "${format}" for "--format"`,
+				);
+			}
+			return issues.map((issue) => `${JSON.stringify(issue)}\n`).join("");
+		},
+
+		prime: () => {
+			const idx = index();
+			const ready = readyIssues(idx, 5);
+			const lines = [
+				"# Beads Workflow Context",
+				"",
+				`${summary().open_issues} open, ${summary().in_progress_issues} in progress, ${blockedIssues(idx).length} blocked`,
+				"",
+				"## Ready work",
+				...ready.map(
+					(issue) =>
+						`- ${issue.id} [P${issue.priority}] ${issue.title}${
+							openBlockers(idx, issue.id).length > 0 ? " (blocked)" : ""
+						}`,
+				),
+			];
+			return `${lines.join("\n")}\n`;
+		},
+	};
+
+	const MUTATING = new Set([
+		"create",
+		"update",
+		"close",
+		"reopen",
+		"delete",
+		"comment",
+		"label",
+		"dep",
+		"cleanup",
+		"repair-deps",
+	]);
+
+	const runner: BdRunner = async (args) => {
+		const startedAt = Date.now();
+		const [command, ...rest] = args;
+		const handler = command ? handlers[command] : undefined;
+		const spec = command ? COMMAND_FLAGS[command] : undefined;
+
+		const result = (
+			stdout: string,
+			stderr: string,
+			exitCode: number,
+		): BdResult => {
+			let json: unknown;
+			try {
+				json = stdout.trim() ? JSON.parse(stdout) : undefined;
+			} catch {
+				json = undefined;
+			}
+			return {
+				args,
+				exitCode,
+				stdout,
+				stderr,
+				json,
+				durationMs: Date.now() - startedAt,
+				error:
+					exitCode === 0
+						? undefined
+						: classifyBdFailure(stderr, stdout, exitCode),
+			};
+		};
+
+		if (!handler || !spec) {
+			return result(
+				"",
+				`Error: unknown command "${command ?? ""}" for "bd"\n`,
+				1,
+			);
+		}
+
+		if (rest.includes("--help")) return result(helpText(command, spec), "", 0);
+
+		// Work on a copy so a failing command leaves state untouched
+		const snapshot = structuredClone(issues);
+		try {
+			const stdout = handler(parseArgs(rest, spec));
+			if (MUTATING.has(command)) persist();
+			return result(stdout, "", 0);
+		} catch (error) {
+			issues = snapshot;
+			const message = error instanceof Error ? error.message : String(error);
+			return result("", `Error: ${message}\n`, 1);
+		}
+	};
+
+	return Object.assign(runner, {
+		issues: () => structuredClone(issues),
+	});
+};
@@ -0,0 +1,420 @@
+/**
+ * Epic Outlines
+ *
+ * Turns a planning outline (markdown or JSON) into an epic with child
+ * issues. The outline is converted into bd_batch operations, so the whole
+ * tree is validated first and rolled back if a step fails.
+ *
+ * Markdown outline:
+ *
+ *   # Checkout redesign            ← the epic
+ *   Free text becomes the description of the item above it.
+ *   ## Backend                     ← child (deeper headings nest)
+ *   1. [P1] Payment API #api       ← numbered items run in order
+ *   2. Webhooks (after: Payment API)
+ *   - [bug] Fix rounding           ← bullets nest by indentation
+ *
+ * Markers: [P0]-[P4] priority, [bug|feature|task|epic|chore] type,
+ * #label, (after: Title, Title) explicit dependencies.
+ *
+ * JSON outline: { "title", "description"?, "children": [{ "title",
+ * "description"?, "type"?, "priority"?, "labels"?, "after"?,
+ * "sequential"?, "children"? }] }
+ *
+ * Re-running an outline reuses existing children with the same title
+ * (case-insensitive) under the same parent and only adds what is new.
+ */
+
+import type { BatchOperation } from "./batch.js";
+import { ISSUE_TYPES, PRIORITY_NAMES } from "./domain.js";
+import { InvalidOutlineError, IssueNotFoundError } from "./errors.js";
+import type { IssueIndex } from "./jsonl.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type OutlineNode = {
+	title: string;
+	description?: string;
+	type?: string;
+	/** 0-4 */
+	priority?: number;
+	labels: string[];
+	/** Titles of issues this one depends on */
+	after: string[];
+	/** Children run in order: each depends on the previous sibling */
+	sequential: boolean;
+	children: OutlineNode[];
+};
+
+export type EpicPlanNode = {
+	/** Issue ID, or `$handle` until the batch has run */
+	id: string;
+	title: string;
+	action: "created" | "existing";
+	depends_on: string[];
+	children: EpicPlanNode[];
+};
+
+export type EpicPlan = {
+	operations: BatchOperation[];
+	tree: EpicPlanNode;
+};
+
+const isIssueType = (value: string): boolean =>
+	(ISSUE_TYPES as readonly string[]).includes(value);
+
+/**
+ * Priority level for a name like "high", or -1
+ */
+const namedPriority = (value: string): number =>
+	(PRIORITY_NAMES as readonly string[]).indexOf(value);
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+const emptyNode = (title: string): OutlineNode => ({
+	title,
+	labels: [],
+	after: [],
+	sequential: false,
+	children: [],
+});
+
+/**
+ * Split inline markers off an outline line
+ */
+const parseItem = (text: string): OutlineNode => {
+	const node = emptyNode("");
+	let title = text.replace(/^\[[ xX]\]\s+/, "");
+
+	title = title.replace(/\(after:\s*([^)]*)\)/gi, (_, list: string) => {
+		node.after.push(
+			...list
+				.split(/[,;]/)
+				.map((item) => item.trim())
+				.filter(Boolean),
+		);
+		return "";
+	});
+	title = title.replace(/\[([A-Za-z0-9]+)\]/g, (match, marker: string) => {
+		const priority = marker.match(/^[Pp]([0-4])$/);
+		if (priority) {
+			node.priority = Number(priority[1]);
+			return "";
+		}
+		if (isIssueType(marker.toLowerCase())) {
+			node.type = marker.toLowerCase();
+			return "";
+		}
+		return match;
+	});
+	title = title.replace(/(^|\s)#([\w-]+)/g, (_, space: string, label) => {
+		node.labels.push(label);
+		return space;
+	});
+
+	node.title = title.replace(/\s+/g, " ").trim();
+	return node;
+};
+
+const appendDescription = (node: OutlineNode, line: string) => {
+	node.description = node.description ? `${node.description}\n${line}` : line;
+};
+
+/**
+ * Parse a markdown outline. Without a top-level heading, items become
+ * children of an untitled root (the epic must then be given separately).
+ */
+export const parseMarkdownOutline = (text: string): OutlineNode => {
+	const root = emptyNode("");
+	let rootLevel: number | null = null;
+	// Heading path: headings[d] is the open heading at depth d (0 = root)
+	const headings: OutlineNode[] = [root];
+	// Open list items under the current heading, by indentation
+	let items: Array<{ indent: number; node: OutlineNode }> = [];
+	let last: OutlineNode | null = null;
+	// Items written as numbered list entries
+	const ordered = new Set<OutlineNode>();
+
+	for (const raw of text.split("\n")) {
+		const line = raw.replace(/\t/g, "    ");
+		if (!line.trim()) continue;
+
+		const heading = line.match(/^(#{1,6})\s+(.*)$/);
+		if (heading) {
+			const level = heading[1].length;
+			if (rootLevel === null) {
+				rootLevel = level;
+				Object.assign(root, { ...parseItem(heading[2]), children: [] });
+				last = root;
+				items = [];
+				continue;
+			}
+			const depth = Math.max(1, level - rootLevel);
+			const parent = headings[Math.min(depth - 1, headings.length - 1)];
+			const node = parseItem(heading[2]);
+			parent.children.push(node);
+			headings.length = Math.min(depth, headings.length);
+			headings.push(node);
+			items = [];
+			last = node;
+			continue;
+		}
+
+		const item = line.match(/^(\s*)([-*+]|\d+[.)])\s+(.*)$/);
+		if (item) {
+			const indent = item[1].length;
+			while (items.length > 0 && items[items.length - 1].indent >= indent) {
+				items.pop();
+			}
+			const parent =
+				items.length > 0
+					? items[items.length - 1].node
+					: headings[headings.length - 1];
+			const node = parseItem(item[3]);
+			// A numbered item waits for the numbered item right before it
+			const previous = parent.children[parent.children.length - 1];
+			const numbered = /^\d/.test(item[2]);
+			if (numbered && previous && ordered.has(previous)) {
+				node.after.unshift(previous.title);
+			}
+			if (numbered) ordered.add(node);
+			parent.children.push(node);
+			items.push({ indent, node });
+			last = node;
+			continue;
+		}
+
+		if (last) appendDescription(last, line.trim());
+	}
+
+	return root;
+};
+
+const toOutlineNode = (value: unknown, path: string): OutlineNode => {
+	if (typeof value !== "object" || value === null) {
+		throw new InvalidOutlineError(`${path} must be an object`);
+	}
+	const v = value as Record<string, unknown>;
+	if (typeof v.title !== "string" || !v.title.trim()) {
+		throw new InvalidOutlineError(`${path}.title must be a non-empty string`);
+	}
+
+	const node = emptyNode(v.title.trim());
+	if (typeof v.description === "string") node.description = v.description;
+	if (typeof v.type === "string") {
+		if (!isIssueType(v.type)) {
+			throw new InvalidOutlineError(
+				`${path}.type must be one of: ${ISSUE_TYPES.join(", ")}`,
+			);
+		}
+		node.type = v.type;
+	}
+	if (v.priority !== undefined) {
+		const value = String(v.priority).toLowerCase();
+		const match = value.match(/^p?([0-4])$/);
+		const named = namedPriority(value);
+		if (!match && named < 0) {
+			throw new InvalidOutlineError(
+				`${path}.priority must be 0-4, P0-P4 or ${PRIORITY_NAMES.join("/")}`,
+			);
+		}
+		node.priority = match ? Number(match[1]) : named;
+	}
+	if (Array.isArray(v.labels)) node.labels = v.labels.map(String);
+	if (Array.isArray(v.after)) node.after = v.after.map(String);
+	node.sequential = v.sequential === true;
+	if (Array.isArray(v.children)) {
+		node.children = v.children.map((child, i) =>
+			toOutlineNode(child, `${path}.children[${i}]`),
+		);
+	}
+	return node;
+};
+
+/**
+ * Parse a markdown or JSON outline (JSON when it starts with "{")
+ */
+export const parseOutline = (
+	text: string,
+): OutlineNode | InvalidOutlineError => {
+	const trimmed = text.trim();
+	if (!trimmed.startsWith("{")) return parseMarkdownOutline(trimmed);
+
+	try {
+		return toOutlineNode(JSON.parse(trimmed), "outline");
+	} catch (error) {
+		if (error instanceof InvalidOutlineError) return error;
+		return new InvalidOutlineError(
+			`Invalid JSON outline: ${(error as Error).message}`,
+		);
+	}
+};
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+const normalizeTitle = (title: string): string =>
+	title.trim().replace(/\s+/g, " ").toLowerCase();
+
+/**
+ * Turn an outline into batch operations, reusing the epic and any children
+ * that already exist. `epicId` plans into an existing epic; otherwise an
+ * open epic with the outline's title is reused or a new one created.
+ */
+export const planEpic = (
+	outline: OutlineNode,
+	index: IssueIndex | null,
+	epicId?: string,
+): EpicPlan | InvalidOutlineError | IssueNotFoundError => {
+	if (epicId && index && !index.byId.has(epicId)) {
+		return new IssueNotFoundError(epicId);
+	}
+	if (!epicId && !outline.title) {
+		return new InvalidOutlineError(
+			"Outline has no epic title",
+			'Start the outline with a "# Epic title" heading, or pass the ID of an existing epic',
+		);
+	}
+
+	const operations: BatchOperation[] = [];
+	let counter = 0;
+
+	// Outline node → plan node, for resolving dependencies afterwards
+	const planned = new Map<OutlineNode, EpicPlanNode>();
+	const byTitle = new Map<string, EpicPlanNode[]>();
+
+	const existingChild = (parentId: string, title: string): string | null => {
+		if (!index || parentId.startsWith("$")) return null;
+		const match = (index.children.get(parentId) ?? []).find(
+			(id) =>
+				normalizeTitle(index.byId.get(id)?.title ?? "") ===
+				normalizeTitle(title),
+		);
+		return match ?? null;
+	};
+
+	const existingEpic = (): string | null => {
+		if (epicId) return epicId;
+		if (!index) return null;
+		const match = index.issues.find(
+			(issue) =>
+				issue.issue_type === "epic" &&
+				issue.status !== "closed" &&
+				normalizeTitle(issue.title) === normalizeTitle(outline.title),
+		);
+		return match?.id ?? null;
+	};
+
+	const visit = (
+		node: OutlineNode,
+		parentId: string | null,
+		reuseId: string | null,
+	): EpicPlanNode => {
+		const existingId =
+			reuseId ?? (parentId ? existingChild(parentId, node.title) : null);
+		let id = existingId;
+		if (!id) {
+			counter++;
+			const handle = `n${counter}`;
+			id = `$${handle}`;
+			operations.push({
+				op: "create",
+				handle,
+				title: node.title,
+				body: node.description,
+				type: node.type ?? (node.children.length > 0 ? "epic" : "task"),
+				priority: node.priority !== undefined ? `P${node.priority}` : undefined,
+				labels: node.labels.length > 0 ? node.labels.join(",") : undefined,
+				parent: parentId ?? undefined,
+			});
+		}
+
+		const result: EpicPlanNode = {
+			id,
+			title: node.title || (index?.byId.get(id)?.title ?? ""),
+			action: existingId ? "existing" : "created",
+			depends_on: [],
+			children: [],
+		};
+		planned.set(node, result);
+		const key = normalizeTitle(node.title);
+		byTitle.set(key, [...(byTitle.get(key) ?? []), result]);
+
+		const planId = id;
+		result.children = node.children.map((child) => visit(child, planId, null));
+		return result;
+	};
+
+	const tree = visit(outline, null, existingEpic());
+
+	/**
+	 * Add "from depends on to" unless the dependency already exists
+	 */
+	const addDependency = (from: EpicPlanNode, to: EpicPlanNode) => {
+		if (from.depends_on.includes(to.id)) return;
+		from.depends_on.push(to.id);
+		if (index?.blockers.get(from.id)?.includes(to.id)) return;
+		operations.push({ op: "dep_add", id: from.id, depends_on: to.id });
+	};
+
+	const resolveAfter = (
+		title: string,
+		siblings: OutlineNode[],
+	): EpicPlanNode => {
+		const key = normalizeTitle(title);
+		const sibling = siblings.find((s) => normalizeTitle(s.title) === key);
+		const match = sibling ? planned.get(sibling) : byTitle.get(key)?.[0];
+		if (!match) {
+			throw new InvalidOutlineError(
+				`"after: ${title}" does not match any item in the outline`,
+				"Dependencies refer to other items by their exact title",
+			);
+		}
+		return match;
+	};
+
+	const link = (node: OutlineNode) => {
+		node.children.forEach((child, i) => {
+			const childPlan = planned.get(child);
+			if (!childPlan) return;
+			if (node.sequential && i > 0) {
+				const previous = planned.get(node.children[i - 1]);
+				if (previous) addDependency(childPlan, previous);
+			}
+			for (const title of child.after) {
+				addDependency(childPlan, resolveAfter(title, node.children));
+			}
+			link(child);
+		});
+	};
+	try {
+		link(outline);
+	} catch (error) {
+		if (error instanceof InvalidOutlineError) return error;
+		throw error;
+	}
+
+	return { operations, tree };
+};
+
+/**
+ * Replace `$handle` IDs in a plan tree with the IDs bd assigned
+ */
+export const resolvePlanIds = (
+	node: EpicPlanNode,
+	handles: Record<string, string>,
+): EpicPlanNode => {
+	const resolve = (id: string) =>
+		id.startsWith("$") ? (handles[id.slice(1)] ?? id) : id;
+	return {
+		...node,
+		id: resolve(node.id),
+		depends_on: node.depends_on.map(resolve),
+		children: node.children.map((child) => resolvePlanIds(child, handles)),
+	};
+};
@@ -0,0 +1,294 @@
+/**
+ * Execution Planning
+ *
+ * Topologically sorts the open issues in scope (an epic's descendants, a
+ * label, or everything) by their "blocks" dependencies and groups them
+ * into waves: every issue in a wave can be worked on in parallel once the
+ * previous waves are done.
+ *
+ * Also reports the critical path (weighted by priority or estimate), cycles
+ * that can never be scheduled, dangling references and blockers that live
+ * outside the scope.
+ */
+
+import { descendantIds } from "./graph.js";
+import type { IssueIndex, JsonlIssue } from "./jsonl.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * How to weight issues when finding the critical path
+ * - priority: P0 weighs 5, P4 weighs 1
+ * - estimate: the issue's estimated_minutes
+ */
+export type PlanWeight = "priority" | "estimate";
+
+export type PlanScope = {
+	/** Epic ID: plan the epic's open descendants */
+	epic?: string;
+	/** Only issues carrying this label */
+	label?: string;
+};
+
+export type PlanIssue = {
+	id: string;
+	title: string;
+	status: string;
+	priority: number;
+};
+
+export type PlanWave = {
+	wave: number;
+	issues: PlanIssue[];
+};
+
+export type ExecutionPlan = {
+	waves: PlanWave[];
+	critical_path: {
+		weight: PlanWeight;
+		total: number;
+		issues: string[];
+	};
+	/** Each cycle as a path, e.g. [A, B, C] for A → B → C → A */
+	cycles: string[][];
+	/** Issues that wait on a cycle and can never be scheduled */
+	unschedulable: string[];
+	/** Dependencies on issues that do not exist */
+	dangling: Array<{ issue_id: string; depends_on_id: string }>;
+	/** Open blockers outside the scope that gate issues in the plan */
+	external_blockers: Array<{ issue_id: string; blocked_by: string[] }>;
+	/** Issues without an estimate (weight "estimate" only) */
+	missing_estimates: string[];
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const toPlanIssue = (issue: JsonlIssue): PlanIssue => ({
+	id: issue.id,
+	title: issue.title,
+	status: issue.status,
+	priority: issue.priority,
+});
+
+const byPriority = (a: JsonlIssue, b: JsonlIssue): number =>
+	a.priority - b.priority || a.id.localeCompare(b.id);
+
+const estimateOf = (issue: JsonlIssue): number | undefined =>
+	typeof issue.estimated_minutes === "number" && issue.estimated_minutes > 0
+		? issue.estimated_minutes
+		: undefined;
+
+/**
+ * Strongly connected components with more than one member (or a
+ * self-loop), each returned as a cycle path
+ */
+const findCycles = (
+	ids: string[],
+	successors: Map<string, string[]>,
+): string[][] => {
+	let counter = 0;
+	const order = new Map<string, number>();
+	const low = new Map<string, number>();
+	const stack: string[] = [];
+	const onStack = new Set<string>();
+	const components: string[][] = [];
+
+	const connect = (id: string) => {
+		order.set(id, counter);
+		low.set(id, counter);
+		counter++;
+		stack.push(id);
+		onStack.add(id);
+
+		for (const next of successors.get(id) ?? []) {
+			if (!order.has(next)) {
+				connect(next);
+				low.set(id, Math.min(low.get(id) ?? 0, low.get(next) ?? 0));
+			} else if (onStack.has(next)) {
+				low.set(id, Math.min(low.get(id) ?? 0, order.get(next) ?? 0));
+			}
+		}
+
+		if (low.get(id) === order.get(id)) {
+			const component: string[] = [];
+			let member: string | undefined;
+			do {
+				member = stack.pop();
+				if (member === undefined) break;
+				onStack.delete(member);
+				component.push(member);
+			} while (member !== id);
+			const selfLoop = (successors.get(id) ?? []).includes(id);
+			if (component.length > 1 || selfLoop) components.push(component);
+		}
+	};
+
+	for (const id of ids) {
+		if (!order.has(id)) connect(id);
+	}
+
+	// Walk each component from its smallest ID back to itself for a readable path
+	return components.map((component) => {
+		const members = new Set(component);
+		const start = [...component].sort()[0];
+		const visited = new Set([start]);
+		const walk = (id: string, path: string[]): string[] | null => {
+			for (const next of successors.get(id) ?? []) {
+				if (!members.has(next)) continue;
+				if (next === start) return path;
+				if (visited.has(next)) continue;
+				visited.add(next);
+				const found = walk(next, [...path, next]);
+				if (found) return found;
+			}
+			return null;
+		};
+		return walk(start, [start]) ?? component;
+	});
+};
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+/**
+ * Open (non-closed) issues to plan for a scope. Epics are containers and
+ * are left out; their descendants are planned instead.
+ */
+const planIssues = (index: IssueIndex, scope: PlanScope): JsonlIssue[] => {
+	let issues = index.issues.filter(
+		(issue) => issue.status !== "closed" && issue.issue_type !== "epic",
+	);
+	if (scope.epic) {
+		const ids = descendantIds(index, scope.epic);
+		issues = issues.filter((issue) => ids.has(issue.id));
+	}
+	if (scope.label) {
+		const label = scope.label;
+		issues = issues.filter((issue) => issue.labels?.includes(label));
+	}
+	return issues;
+};
+
+export const buildExecutionPlan = (
+	index: IssueIndex,
+	scope: PlanScope = {},
+	weight: PlanWeight = "priority",
+): ExecutionPlan => {
+	const issues = planIssues(index, scope);
+	const inPlan = new Map(issues.map((issue) => [issue.id, issue]));
+
+	// blocker → issues it blocks, restricted to the plan
+	const successors = new Map<string, string[]>();
+	const predecessors = new Map<string, string[]>();
+	const dangling: ExecutionPlan["dangling"] = [];
+	const external: ExecutionPlan["external_blockers"] = [];
+
+	for (const issue of issues) {
+		const outside: string[] = [];
+		for (const dep of issue.dependencies ?? []) {
+			if (dep.type !== "blocks") continue;
+			const blocker = index.byId.get(dep.depends_on_id);
+			if (!blocker) {
+				dangling.push({ issue_id: issue.id, depends_on_id: dep.depends_on_id });
+			} else if (inPlan.has(blocker.id)) {
+				successors.set(blocker.id, [
+					...(successors.get(blocker.id) ?? []),
+					issue.id,
+				]);
+				predecessors.set(issue.id, [
+					...(predecessors.get(issue.id) ?? []),
+					blocker.id,
+				]);
+			} else if (blocker.status !== "closed") {
+				outside.push(blocker.id);
+			}
+		}
+		if (outside.length > 0) {
+			external.push({ issue_id: issue.id, blocked_by: outside });
+		}
+	}
+
+	// Kahn's algorithm, one layer per wave
+	const remaining = new Map(
+		issues.map((issue) => [issue.id, predecessors.get(issue.id)?.length ?? 0]),
+	);
+	const waves: PlanWave[] = [];
+	const scheduled: string[] = [];
+	let frontier = issues.filter((issue) => remaining.get(issue.id) === 0);
+	while (frontier.length > 0) {
+		frontier.sort(byPriority);
+		waves.push({ wave: waves.length + 1, issues: frontier.map(toPlanIssue) });
+		const next: JsonlIssue[] = [];
+		for (const issue of frontier) {
+			scheduled.push(issue.id);
+			for (const successor of successors.get(issue.id) ?? []) {
+				const count = (remaining.get(successor) ?? 0) - 1;
+				remaining.set(successor, count);
+				const successorIssue = inPlan.get(successor);
+				if (count === 0 && successorIssue) next.push(successorIssue);
+			}
+		}
+		frontier = next;
+	}
+
+	const scheduledIds = new Set(scheduled);
+	const stuck = issues
+		.map((issue) => issue.id)
+		.filter((id) => !scheduledIds.has(id));
+	const cycles = findCycles(stuck, successors);
+	const inCycle = new Set(cycles.flat());
+
+	// Critical path: heaviest chain through the scheduled DAG
+	const missingEstimates: string[] = [];
+	const known = issues.map(estimateOf).filter((n) => n !== undefined);
+	const fallbackEstimate =
+		known.length > 0 ? known.reduce((a, b) => a + b, 0) / known.length : 1;
+	const weightOf = (issue: JsonlIssue): number => {
+		if (weight === "priority") return 5 - issue.priority;
+		const estimate = estimateOf(issue);
+		if (estimate === undefined) missingEstimates.push(issue.id);
+		return estimate ?? fallbackEstimate;
+	};
+
+	const distance = new Map<string, number>();
+	const via = new Map<string, string>();
+	for (const id of scheduled) {
+		const issue = inPlan.get(id);
+		if (!issue) continue;
+		let best = 0;
+		for (const pred of predecessors.get(id) ?? []) {
+			const d = distance.get(pred) ?? 0;
+			if (d > best) {
+				best = d;
+				via.set(id, pred);
+			}
+		}
+		distance.set(id, best + weightOf(issue));
+	}
+
+	let end: string | undefined;
+	for (const [id, d] of distance) {
+		if (end === undefined || d > (distance.get(end) ?? 0)) end = id;
+	}
+	const path: string[] = [];
+	for (let id = end; id !== undefined; id = via.get(id)) path.unshift(id);
+
+	return {
+		waves,
+		critical_path: {
+			weight,
+			total: Math.round((end ? (distance.get(end) ?? 0) : 0) * 100) / 100,
+			issues: path,
+		},
+		cycles,
+		unschedulable: stuck.filter((id) => !inCycle.has(id)),
+		dangling,
+		external_blockers: external,
+		missing_estimates: missingEstimates,
+	};
+};
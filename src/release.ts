@@ -0,0 +1,162 @@
+/**
+ * Release Notes
+ *
+ * Turns the issues closed since a git ref into a changelog section, grouped
+ * by type and epic, in Keep a Changelog or conventional-changelog style.
+ */
+
+import { nearestEpic } from "./graph.js";
+import type { IssueIndex, JsonlIssue } from "./jsonl.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ReleaseNotesFormat = "keep-a-changelog" | "conventional";
+
+export type ReleaseEntry = {
+	id: string;
+	title: string;
+	type: string;
+	epic?: { id: string; title: string };
+	reason?: string;
+	closed_at?: string;
+};
+
+export type ReleaseNotesOptions = {
+	format: ReleaseNotesFormat;
+	/** Version heading (default: "Unreleased") */
+	version?: string;
+	now?: Date;
+};
+
+/**
+ * Section headings per format, in output order, with the issue types each
+ * one collects. The last section takes every other type.
+ */
+const SECTIONS: Record<
+	ReleaseNotesFormat,
+	Array<{ heading: string; types: string[] }>
+> = {
+	"keep-a-changelog": [
+		{ heading: "Added", types: ["feature"] },
+		{ heading: "Fixed", types: ["bug"] },
+		{ heading: "Changed", types: [] },
+	],
+	conventional: [
+		{ heading: "Features", types: ["feature"] },
+		{ heading: "Bug Fixes", types: ["bug"] },
+		{ heading: "Chores", types: ["chore"] },
+		{ heading: "Other Changes", types: [] },
+	],
+};
+
+/** Close reasons that add nothing to a changelog line */
+const TRIVIAL_REASON = /^(done|completed?|fixed|closed|resolved)\.?$/i;
+
+// ============================================================================
+// Collection
+// ============================================================================
+
+/**
+ * Changelog entries for closed issues. Epics are containers: they group
+ * their issues instead of getting a line of their own.
+ */
+export const collectReleaseEntries = (
+	index: IssueIndex,
+	closed: JsonlIssue[],
+): ReleaseEntry[] =>
+	closed
+		.filter((issue) => issue.issue_type !== "epic")
+		.sort(
+			(a, b) =>
+				String(a.closed_at ?? "").localeCompare(String(b.closed_at ?? "")) ||
+				a.id.localeCompare(b.id),
+		)
+		.map((issue) => {
+			const reason =
+				typeof issue.close_reason === "string" ? issue.close_reason.trim() : "";
+			const epic = nearestEpic(index, issue.id);
+			return {
+				id: issue.id,
+				title: issue.title,
+				type: issue.issue_type,
+				epic: epic ? { id: epic.id, title: epic.title } : undefined,
+				reason: reason && !TRIVIAL_REASON.test(reason) ? reason : undefined,
+				closed_at: issue.closed_at,
+			};
+		});
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+const entryText = (entry: ReleaseEntry): string =>
+	`${entry.title} (${entry.id})${entry.reason ? ` — ${entry.reason}` : ""}`;
+
+/**
+ * Keep a Changelog: issues under an epic are nested below its title
+ */
+const keepAChangelogLines = (entries: ReleaseEntry[]): string[] => {
+	const lines: string[] = [];
+	const epics = new Map<string, ReleaseEntry[]>();
+	for (const entry of entries) {
+		if (!entry.epic) continue;
+		epics.set(entry.epic.id, [...(epics.get(entry.epic.id) ?? []), entry]);
+	}
+	for (const group of epics.values()) {
+		lines.push(`- **${group[0].epic?.title}**`);
+		lines.push(...group.map((entry) => `  - ${entryText(entry)}`));
+	}
+	for (const entry of entries) {
+		if (!entry.epic) lines.push(`- ${entryText(entry)}`);
+	}
+	return lines;
+};
+
+/**
+ * Conventional changelog: the epic becomes the bold scope
+ */
+const conventionalLines = (entries: ReleaseEntry[]): string[] =>
+	[
+		...entries.filter((entry) => entry.epic),
+		...entries.filter((entry) => !entry.epic),
+	].map(
+		(entry) =>
+			`* ${entry.epic ? `**${entry.epic.title}:** ` : ""}${entryText(entry)}`,
+	);
+
+export const renderReleaseNotes = (
+	entries: ReleaseEntry[],
+	options: ReleaseNotesOptions,
+): string => {
+	const version = options.version ?? "Unreleased";
+	const date = (options.now ?? new Date()).toISOString().slice(0, 10);
+	const heading =
+		options.format === "conventional"
+			? `## ${version} (${date})`
+			: version === "Unreleased"
+				? "## [Unreleased]"
+				: `## [${version}] - ${date}`;
+
+	const sections = SECTIONS[options.format];
+	const known = new Set(sections.flatMap((section) => section.types));
+	const lines = [heading];
+	for (const section of sections) {
+		const members = entries.filter((entry) =>
+			section.types.length > 0
+				? section.types.includes(entry.type)
+				: !known.has(entry.type),
+		);
+		if (members.length === 0) continue;
+		lines.push(
+			"",
+			`### ${section.heading}`,
+			"",
+			...(options.format === "conventional"
+				? conventionalLines(members)
+				: keepAChangelogLines(members)),
+		);
+	}
+	return lines.join("\n");
+};
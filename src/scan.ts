@@ -0,0 +1,293 @@
+/**
+ * TODO Scanning
+ *
+ * Finds markdown checklist items (`- [ ] ...`) and TODO/FIXME comments in
+ * the working tree so they can be imported as beads issues.
+ *
+ * Each item gets a fingerprint derived from its file, kind and text (not its
+ * line number), stored as a `todo-<hash>` label on the imported issue, so
+ * items survive edits elsewhere in the file without being imported twice.
+ */
+
+import { createHash } from "node:crypto";
+import { readFileSync, realpathSync, statSync, writeFileSync } from "node:fs";
+import { extname, isAbsolute, join, relative, resolve } from "node:path";
+import { findIssueIds, issuePrefix } from "./domain.js";
+import {
+	BdCommandError,
+	type BdError,
+	InvalidArgumentError,
+} from "./errors.js";
+import type { GitRunner } from "./git.js";
+import type { IssueIndex } from "./jsonl.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type TodoKind = "checklist" | "todo" | "fixme";
+
+export type TodoItem = {
+	kind: TodoKind;
+	/** Path relative to the scanned directory, with forward slashes */
+	file: string;
+	/** 1-based line number */
+	line: number;
+	text: string;
+	/** The full source line, used to verify rewrites */
+	source: string;
+	/** Label stored on the imported issue */
+	fingerprint: string;
+};
+
+export const TODO_FINGERPRINT_PREFIX = "todo-";
+
+/** Files larger than this are skipped */
+const MAX_FILE_BYTES = 1024 * 1024;
+
+const MARKDOWN_EXTENSIONS = new Set([".md", ".markdown", ".mdx"]);
+
+const CHECKLIST = /^\s*(?:[-*+]|\d+[.)])\s+\[ \]\s+(.+)$/;
+
+const COMMENT =
+	/(?:^|\s)(?:\/\/+|\/\*+|\*|#+|--|<!--|;+)\s*(TODO|FIXME)\b(\([^)]*\))?[:\s-]*(.*)$/;
+
+const MARKDOWN_COMMENT = /<!--\s*(TODO|FIXME)\b(\([^)]*\))?[:\s-]*(.*)$/;
+
+// ============================================================================
+// File Listing
+// ============================================================================
+
+/**
+ * Whether `file` (relative to `directory`) is inside it once symlinks are
+ * resolved
+ */
+const isInside = (directory: string, file: string): boolean => {
+	try {
+		const inside = relative(
+			realpathSync(directory),
+			realpathSync(join(directory, file)),
+		);
+		return inside !== "" && !inside.startsWith("..") && !isAbsolute(inside);
+	} catch {
+		return false;
+	}
+};
+
+/**
+ * Files to scan, relative to `directory`. Files come from git so
+ * .gitignore is respected; outside a git work tree nothing is scanned.
+ * `path` must stay inside `directory`.
+ */
+export const listScanFiles = async (
+	git: GitRunner,
+	directory: string,
+	path?: string,
+	signal?: AbortSignal,
+): Promise<string[] | BdError> => {
+	const scoped =
+		path === undefined ? "" : relative(directory, resolve(directory, path));
+	if (
+		path !== undefined &&
+		(isAbsolute(path) || scoped.startsWith("..") || isAbsolute(scoped))
+	) {
+		return new InvalidArgumentError(
+			"path",
+			`Scan path must be inside the project: ${path}`,
+			'Use a relative path such as "src" or "docs/plan.md", or omit path to scan the project',
+		);
+	}
+
+	const result = await git(
+		[
+			"ls-files",
+			"-z",
+			"--cached",
+			"--others",
+			"--exclude-standard",
+			...(scoped ? ["--", scoped] : []),
+		],
+		{ signal },
+	);
+	if (result.error) {
+		if (result.error.code === "aborted") return result.error;
+		return new BdCommandError(
+			`TODO import only scans git work trees, and git could not list files in ${directory}: ${result.error.message}`,
+			null,
+		);
+	}
+	return result.stdout
+		.split("\0")
+		.filter(Boolean)
+		.map((file) => file.split("\\").join("/"))
+		.filter((file) => !file.startsWith(".beads/"))
+		.sort();
+};
+
+// ============================================================================
+// Scanning
+// ============================================================================
+
+const fingerprintOf = (
+	file: string,
+	kind: TodoKind,
+	text: string,
+	occurrence: number,
+): string =>
+	TODO_FINGERPRINT_PREFIX +
+	createHash("sha1")
+		.update(
+			`${file}\0${kind}\0${text.toLowerCase().replace(/\s+/g, " ")}\0${occurrence}`,
+		)
+		.digest("hex")
+		.slice(0, 10);
+
+const cleanText = (text: string): string =>
+	text
+		.replace(/\s*(?:\*\/|-->)\s*$/, "")
+		.replace(/\s+/g, " ")
+		.trim();
+
+/**
+ * Checklist items and TODO/FIXME comments in one file's content
+ */
+export const scanContent = (file: string, content: string): TodoItem[] => {
+	const markdown = MARKDOWN_EXTENSIONS.has(extname(file).toLowerCase());
+	const items: TodoItem[] = [];
+	const seen = new Map<string, number>();
+
+	content.split("\n").forEach((source, i) => {
+		const line = source.replace(/\r$/, "");
+		let kind: TodoKind | null = null;
+		let text = "";
+
+		const checklist = markdown ? line.match(CHECKLIST) : null;
+		const comment = checklist
+			? null
+			: line.match(markdown ? MARKDOWN_COMMENT : COMMENT);
+		if (checklist) {
+			kind = "checklist";
+			text = cleanText(checklist[1]);
+		} else if (comment) {
+			kind = comment[1] === "FIXME" ? "fixme" : "todo";
+			text = cleanText(comment[3]);
+		}
+		if (!kind) return;
+
+		const key = `${kind}\0${text}`;
+		const occurrence = seen.get(key) ?? 0;
+		seen.set(key, occurrence + 1);
+		items.push({
+			kind,
+			file,
+			line: i + 1,
+			text: text || `${kind.toUpperCase()} in ${file}:${i + 1}`,
+			source,
+			fingerprint: fingerprintOf(file, kind, text, occurrence),
+		});
+	});
+	return items;
+};
+
+/**
+ * Scan files (relative to `directory`), skipping large and binary files and
+ * links to files outside it
+ */
+export const scanTodos = (directory: string, files: string[]): TodoItem[] => {
+	const items: TodoItem[] = [];
+	for (const file of files) {
+		if (!isInside(directory, file)) continue;
+		const path = join(directory, file);
+		try {
+			if (statSync(path).size > MAX_FILE_BYTES) continue;
+			const content = readFileSync(path, "utf-8");
+			if (content.slice(0, 8000).includes("\0")) continue;
+			items.push(...scanContent(file, content));
+		} catch {
+			// Unreadable or vanished since listing
+		}
+	}
+	return items;
+};
+
+/** Project prefixes of each index's issues, worked out once per index */
+const prefixCache = new WeakMap<IssueIndex, Set<string>>();
+
+const prefixesOf = (index: IssueIndex): Set<string> => {
+	let prefixes = prefixCache.get(index);
+	if (!prefixes) {
+		prefixes = new Set(index.issues.map((issue) => issuePrefix(issue.id)));
+		prefixCache.set(index, prefixes);
+	}
+	return prefixes;
+};
+
+/**
+ * Whether a source line already mentions an existing issue ID
+ */
+export const referencesIssue = (line: string, index: IssueIndex): boolean =>
+	findIssueIds(line, prefixesOf(index)).some((id) => index.byId.has(id));
+
+// ============================================================================
+// Rewriting
+// ============================================================================
+
+/**
+ * Reference an issue from a TODO line: `TODO:` becomes `TODO(id):` and
+ * checklist items get ` (id)` appended
+ */
+export const rewriteTodoLine = (item: TodoItem, id: string): string => {
+	const eol = item.source.endsWith("\r") ? "\r" : "";
+	const line = item.source.slice(0, item.source.length - eol.length);
+	if (item.kind === "checklist") return `${line} (${id})${eol}`;
+	const updated = line.replace(
+		/\b(TODO|FIXME)\b(?:\(([^)]*)\))?/,
+		(_, marker: string, owner?: string) =>
+			`${marker}(${owner ? `${owner}, ` : ""}${id})`,
+	);
+	return updated + eol;
+};
+
+/**
+ * Rewrite imported TODOs in place. Lines that changed since the scan, and
+ * files outside `directory`, are left alone and reported.
+ */
+export const applyTodoRewrites = (
+	directory: string,
+	imported: Array<{ item: TodoItem; id: string }>,
+): { rewritten: number; skipped: string[] } => {
+	const byFile = new Map<string, Array<{ item: TodoItem; id: string }>>();
+	for (const entry of imported) {
+		byFile.set(entry.item.file, [
+			...(byFile.get(entry.item.file) ?? []),
+			entry,
+		]);
+	}
+
+	let rewritten = 0;
+	const skipped: string[] = [];
+	for (const [file, entries] of byFile) {
+		const path = join(directory, file);
+		let lines: string[];
+		if (!isInside(directory, file)) {
+			skipped.push(...entries.map(({ item }) => `${file}:${item.line}`));
+			continue;
+		}
+		try {
+			lines = readFileSync(path, "utf-8").split("\n");
+		} catch {
+			skipped.push(...entries.map(({ item }) => `${file}:${item.line}`));
+			continue;
+		}
+		for (const { item, id } of entries) {
+			if (lines[item.line - 1] !== item.source) {
+				skipped.push(`${file}:${item.line}`);
+				continue;
+			}
+			lines[item.line - 1] = rewriteTodoLine(item, id);
+			rewritten++;
+		}
+		writeFileSync(path, lines.join("\n"));
+	}
+	return { rewritten, skipped };
+};
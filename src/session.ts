@@ -0,0 +1,115 @@
+/**
+ * Session-to-Issue Binding
+ *
+ * Tracks which issue each OpenCode session is working on. A session is
+ * bound when it claims an issue with bd_claim or `bd_update --status
+ * in_progress`, and unbound when that issue is closed, released or moved
+ * out of in_progress.
+ */
+
+import { parseIssue } from "./domain.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Issue a session is currently working on
+ */
+export type CurrentIssue = {
+	id: string;
+	title: string;
+	status: string;
+	description?: string;
+	acceptanceCriteria?: string;
+	/** Root of the workspace the issue is in (the default one when absent) */
+	workspace?: string;
+	/** ISO timestamp of when the session claimed the issue */
+	boundAt: string;
+};
+
+export type SessionTracker = {
+	get: (sessionId: string) => CurrentIssue | undefined;
+	bind: (sessionId: string, issue: CurrentIssue) => void;
+	/** Merge fresh issue fields into an existing binding */
+	refresh: (sessionId: string, fields: Partial<CurrentIssue>) => void;
+	unbind: (sessionId: string) => CurrentIssue | undefined;
+	/** Sessions currently bound to the given issue */
+	sessionsFor: (issueId: string) => string[];
+};
+
+// ============================================================================
+// Tracker
+// ============================================================================
+
+export const createSessionTracker = (): SessionTracker => {
+	const bindings = new Map<string, CurrentIssue>();
+
+	return {
+		get: (sessionId) => bindings.get(sessionId),
+		bind: (sessionId, issue) => {
+			bindings.set(sessionId, issue);
+		},
+		refresh: (sessionId, fields) => {
+			const current = bindings.get(sessionId);
+			if (current) bindings.set(sessionId, { ...current, ...fields });
+		},
+		unbind: (sessionId) => {
+			const current = bindings.get(sessionId);
+			bindings.delete(sessionId);
+			return current;
+		},
+		sessionsFor: (issueId) =>
+			[...bindings.entries()]
+				.filter(([, issue]) => issue.id === issueId)
+				.map(([sessionId]) => sessionId),
+	};
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Extract issue fields from `bd show --json` output (object or one-item array)
+ */
+export const toCurrentIssue = (
+	json: unknown,
+	fallbackId: string,
+): Omit<CurrentIssue, "boundAt"> => {
+	const issue = parseIssue(json);
+	if (!issue) {
+		return { id: fallbackId, title: fallbackId, status: "in_progress" };
+	}
+
+	return {
+		id: issue.id,
+		title: issue.title || issue.id,
+		status: issue.status,
+		description: issue.description || undefined,
+		acceptanceCriteria: issue.acceptance_criteria || undefined,
+	};
+};
+
+/**
+ * Context block describing the session's current issue
+ */
+export const formatCurrentIssueContext = (issue: CurrentIssue): string => {
+	const sections = [
+		`## Current Issue: ${issue.id}`,
+		"",
+		`**${issue.title}** (${issue.status})`,
+	];
+	if (issue.description) {
+		sections.push("", "### Description", issue.description);
+	}
+	if (issue.acceptanceCriteria) {
+		sections.push("", "### Acceptance Criteria", issue.acceptanceCriteria);
+	}
+	sections.push(
+		"",
+		`Close it with \`bd_close\` when the work is done, or use \`bd_current\` to review it.`,
+	);
+
+	return `<system-reminder>\n${sections.join("\n")}\n</system-reminder>`;
+};
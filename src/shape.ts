@@ -0,0 +1,345 @@
+/**
+ * Output Shaping
+ *
+ * Keeps the output of list-style tools within the model's context: a
+ * format (compact table, summary JSON or full JSON), field selection, a
+ * character budget with truncation markers, and cursor pagination.
+ *
+ * A cursor encodes the offset of the next page and a key for the query it
+ * came from, so paging is deterministic and a cursor cannot silently be
+ * replayed against different filters.
+ */
+
+import { createHash } from "node:crypto";
+import { type ToolResult, tool } from "@opencode-ai/plugin/tool";
+import type { Issue } from "./domain.js";
+import { InvalidArgumentError } from "./errors.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type OutputFormat = "compact" | "summary" | "full";
+
+export const ISSUE_FIELDS = [
+	"id",
+	"title",
+	"description",
+	"status",
+	"priority",
+	"issue_type",
+	"assignee",
+	"labels",
+	"dependencies",
+	"design",
+	"acceptance_criteria",
+	"notes",
+	"external_ref",
+	"estimated_minutes",
+	"created_at",
+	"updated_at",
+	"closed_at",
+	"close_reason",
+	"comments",
+	"workspace",
+] as const satisfies ReadonlyArray<keyof Issue>;
+
+export type IssueField = (typeof ISSUE_FIELDS)[number];
+
+export type OutputOptions = {
+	format?: OutputFormat;
+	fields?: IssueField[];
+	max_chars?: number;
+	cursor?: string;
+};
+
+/**
+ * Slice of a result set to show
+ */
+export type Page = {
+	offset: number;
+	size: number;
+	/** Key of the query the page belongs to */
+	query: string;
+};
+
+/** Fields shown by the summary format */
+const SUMMARY_FIELDS: IssueField[] = [
+	"id",
+	"title",
+	"status",
+	"priority",
+	"issue_type",
+	"assignee",
+	"labels",
+];
+
+/** Columns shown by the compact format */
+const COMPACT_FIELDS: IssueField[] = [
+	"id",
+	"priority",
+	"status",
+	"issue_type",
+	"title",
+];
+
+/** Free-text fields shortened first when output exceeds the budget */
+const LONG_TEXT_FIELDS: IssueField[] = [
+	"description",
+	"design",
+	"acceptance_criteria",
+	"notes",
+];
+
+const LONG_TEXT_LIMIT = 200;
+
+/**
+ * Default fields, led by the workspace when issues come from several
+ */
+const withSource = (fields: IssueField[], issues: Issue[]): IssueField[] =>
+	issues.some((issue) => issue.workspace) ? ["workspace", ...fields] : fields;
+
+/**
+ * Tool arguments shared by the list-style tools
+ */
+export const outputArgs = {
+	format: tool.schema
+		.enum(["compact", "summary", "full"])
+		.optional()
+		.describe(
+			'"compact": one line per issue; "summary": JSON without long text; "full": complete JSON (default)',
+		),
+	fields: tool.schema
+		.array(tool.schema.enum(ISSUE_FIELDS))
+		.optional()
+		.describe("Only include these fields (the columns in compact format)"),
+	max_chars: tool.schema
+		.number()
+		.int()
+		.positive()
+		.optional()
+		.describe(
+			"Character budget: long text is truncated, then the page ends early, then a lone issue is cut off to fit",
+		),
+	cursor: tool.schema
+		.string()
+		.optional()
+		.describe("Cursor from a previous call's output, to fetch the next page"),
+};
+
+// ============================================================================
+// Pagination
+// ============================================================================
+
+/**
+ * Stable key for a query's filters, so cursors are tied to their query
+ */
+const queryKey = (query: Record<string, unknown>): string =>
+	createHash("sha1")
+		.update(
+			JSON.stringify(
+				Object.keys(query)
+					.sort()
+					.filter((key) => query[key] !== undefined)
+					.map((key) => [key, query[key]]),
+			),
+		)
+		.digest("hex")
+		.slice(0, 8);
+
+const encodeCursor = (offset: number, query: string): string =>
+	Buffer.from(`${offset}:${query}`).toString("base64url");
+
+/**
+ * Page to show for a query: the start, or where a cursor left off
+ */
+export const resolvePage = (
+	cursor: string | undefined,
+	query: Record<string, unknown>,
+	size: number,
+): Page | InvalidArgumentError => {
+	const key = queryKey(query);
+	if (!cursor) return { offset: 0, size, query: key };
+
+	const [offset, cursorKey] = Buffer.from(cursor, "base64url")
+		.toString("utf-8")
+		.split(":");
+	if (!/^\d+$/.test(offset ?? "") || !cursorKey) {
+		return new InvalidArgumentError("cursor", `Invalid cursor: ${cursor}`);
+	}
+	if (cursorKey !== key) {
+		return new InvalidArgumentError(
+			"cursor",
+			"This cursor belongs to a query with different filters",
+			"Repeat the original filters with the cursor, or omit cursor to start over",
+		);
+	}
+	return { offset: Number(offset), size, query: key };
+};
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+const truncateText = (text: string, limit: number): string =>
+	text.length > limit
+		? `${text.slice(0, limit)}…[truncated ${text.length - limit} chars]`
+		: text;
+
+const pick = (
+	issue: Issue,
+	fields: IssueField[],
+	textLimit?: number,
+): Partial<Issue> => {
+	const picked: Record<string, unknown> = {};
+	for (const field of fields) {
+		const value = issue[field];
+		if (value === undefined) continue;
+		picked[field] =
+			textLimit !== undefined &&
+			typeof value === "string" &&
+			LONG_TEXT_FIELDS.includes(field)
+				? truncateText(value, textLimit)
+				: value;
+	}
+	return picked;
+};
+
+const compactCell = (issue: Issue, field: IssueField): string => {
+	const value = issue[field];
+	if (value === undefined || value === null) return "-";
+	if (field === "priority") return `P${value}`;
+	if (Array.isArray(value)) {
+		return field === "labels" ? value.join(",") || "-" : String(value.length);
+	}
+	return String(value).replace(/\s+/g, " ");
+};
+
+/**
+ * One line per issue, columns padded to align
+ */
+const renderCompact = (
+	issues: Issue[],
+	fields: IssueField[],
+	textLimit: number,
+): string => {
+	const rows = issues.map((issue) =>
+		fields.map((field) => truncateText(compactCell(issue, field), textLimit)),
+	);
+	const widths = fields.map((_, column) =>
+		Math.max(...rows.map((row) => row[column].length)),
+	);
+	return rows
+		.map((row) =>
+			row
+				.map((cell, column) =>
+					column === row.length - 1 ? cell : cell.padEnd(widths[column]),
+				)
+				.join("  "),
+		)
+		.join("\n");
+};
+
+const renderIssues = (
+	issues: Issue[],
+	options: OutputOptions,
+	textLimit?: number,
+): string => {
+	const format = options.format ?? "full";
+	if (format === "compact") {
+		return renderCompact(
+			issues,
+			options.fields ?? withSource(COMPACT_FIELDS, issues),
+			textLimit ?? LONG_TEXT_LIMIT,
+		);
+	}
+	const fields =
+		options.fields ??
+		(format === "summary" ? withSource(SUMMARY_FIELDS, issues) : undefined);
+	const shaped =
+		fields || textLimit !== undefined
+			? issues.map((issue) =>
+					pick(issue, fields ?? [...ISSUE_FIELDS], textLimit),
+				)
+			: issues;
+	return JSON.stringify(shaped, null, 2);
+};
+
+/** Marks a page cut short because one issue alone exceeds the budget */
+const PAGE_TRUNCATED = "…[truncated to fit max_chars]";
+
+/**
+ * Render one page of issues within the options' character budget.
+ *
+ * `items` holds the results from the start of the query, at least up to
+ * the end of the page; one extra item signals that more results exist.
+ * When the page does not fit the budget, long text is truncated first,
+ * then trailing issues move to the next page, and a single issue that
+ * still does not fit is cut off with a marker. The paging trailer counts
+ * against the budget.
+ */
+export const renderIssuePage = (
+	items: Issue[],
+	page: Page,
+	options: OutputOptions,
+	emptyMessage: string,
+): ToolResult => {
+	const pageItems = items.slice(page.offset, page.offset + page.size);
+	if (pageItems.length === 0) {
+		return page.offset === 0 ? emptyMessage : "No more results";
+	}
+
+	/** Paging trailer after the first `count` issues, or "" for a lone page */
+	const trailerFor = (count: number): string => {
+		const end = page.offset + count;
+		const more = items.length > end;
+		if (!more && page.offset === 0) return "";
+		const range = `Results ${page.offset + 1}-${end}`;
+		return more
+			? `${range}; more available. Next page: cursor "${encodeCursor(end, page.query)}"`
+			: `${range}; no more results.`;
+	};
+	const withTrailer = (output: string, count: number): string => {
+		const trailer = trailerFor(count);
+		return trailer ? `${output}\n\n${trailer}` : output;
+	};
+
+	const budget = options.max_chars;
+	const fits = (output: string, count: number) =>
+		!budget || withTrailer(output, count).length <= budget;
+
+	let count = pageItems.length;
+	let output = renderIssues(pageItems, options);
+	if (budget && !fits(output, count)) {
+		output = renderIssues(pageItems, options, LONG_TEXT_LIMIT);
+		while (!fits(output, count) && count > 1) {
+			count--;
+			output = renderIssues(
+				pageItems.slice(0, count),
+				options,
+				LONG_TEXT_LIMIT,
+			);
+		}
+		if (!fits(output, count)) {
+			const room =
+				budget - (withTrailer("", count).length + PAGE_TRUNCATED.length);
+			output = `${output.slice(0, Math.max(room, 0))}${PAGE_TRUNCATED}`;
+		}
+	}
+
+	const end = page.offset + count;
+	const more = items.length > end;
+	if (!more && page.offset === 0) return output;
+
+	return {
+		title: `Results ${page.offset + 1}-${end}`,
+		output: withTrailer(output, count),
+		metadata: {
+			page: {
+				offset: page.offset,
+				count,
+				next_cursor: more ? encodeCursor(end, page.query) : null,
+			},
+		},
+	};
+};
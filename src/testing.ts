@@ -0,0 +1,23 @@
+/**
+ * Testing Entry Point
+ *
+ * The in-memory bd runner and the tool contract suite, for offline tests
+ * of the tools and of code that builds on them. Kept out of the main entry
+ * so the plugin runtime never loads them.
+ *
+ *   import { createMemoryBdRunner, runBdContract } from "@simonwjackson/opencode-beads/testing"
+ */
+
+export {
+	BD_CONTRACT_CASES,
+	BD_WORKSPACE_CONTRACT_CASES,
+	type ContractCase,
+	type ContractResult,
+	ContractViolation,
+	runBdContract,
+} from "./contract.js";
+export {
+	createMemoryBdRunner,
+	type MemoryBdRunner,
+	type MemoryBdRunnerOptions,
+} from "./memory.js";
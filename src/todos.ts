@@ -0,0 +1,254 @@
+/**
+ * todowrite → beads Bridge
+ *
+ * Converts the todo list an agent writes with the todowrite tool into bd
+ * issues. Each session keeps a todo-id → issue-id mapping, so rewriting the
+ * list updates or closes the existing issues instead of creating duplicates.
+ */
+
+import { parseIssue } from "./domain.js";
+import type { BdRunner } from "./tools.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Todo item as sent by the todowrite tool
+ */
+export type Todo = {
+	id: string;
+	content: string;
+	status: string;
+	priority?: string;
+};
+
+export type TodoSyncAction = "created" | "updated" | "closed" | "unchanged";
+
+export type TodoSyncEntry = {
+	todoId: string;
+	issueId?: string;
+	action: TodoSyncAction;
+	error?: string;
+};
+
+export type TodoBridge = {
+	/** Mirror a session's todo list into bd issues */
+	sync: (
+		sessionId: string,
+		todos: Todo[],
+		signal?: AbortSignal,
+	) => Promise<TodoSyncEntry[]>;
+	/** Issue ID created for a todo in this session, if any */
+	issueFor: (sessionId: string, todoId: string) => string | undefined;
+};
+
+type TrackedTodo = {
+	issueId: string;
+	content: string;
+	status: string;
+	priority: string;
+};
+
+// ============================================================================
+// Mapping
+// ============================================================================
+
+/**
+ * todowrite status → bd status
+ */
+const statusMap: Record<string, string> = {
+	pending: "open",
+	in_progress: "in_progress",
+	completed: "closed",
+	cancelled: "closed",
+};
+
+/**
+ * todowrite priority → bd priority (P0-P4)
+ */
+const todoPriorityMap: Record<string, string> = {
+	critical: "P0",
+	high: "P1",
+	medium: "P2",
+	low: "P3",
+	backlog: "P4",
+};
+
+/**
+ * Label added to every issue created from a todo
+ */
+export const TODO_LABEL = "todowrite";
+
+const isTodo = (value: unknown): value is Todo => {
+	if (typeof value !== "object" || value === null) return false;
+	const v = value as Record<string, unknown>;
+	return (
+		typeof v.id === "string" &&
+		typeof v.content === "string" &&
+		typeof v.status === "string"
+	);
+};
+
+/**
+ * Extract todos from todowrite tool args
+ */
+export const parseTodos = (args: unknown): Todo[] => {
+	if (typeof args !== "object" || args === null) return [];
+	const todos = (args as Record<string, unknown>).todos;
+	return Array.isArray(todos) ? todos.filter(isTodo) : [];
+};
+
+// ============================================================================
+// Bridge
+// ============================================================================
+
+export const createTodoBridge = (runBd: BdRunner): TodoBridge => {
+	const sessions = new Map<string, Map<string, TrackedTodo>>();
+
+	const trackedFor = (sessionId: string): Map<string, TrackedTodo> => {
+		let tracked = sessions.get(sessionId);
+		if (!tracked) {
+			tracked = new Map();
+			sessions.set(sessionId, tracked);
+		}
+		return tracked;
+	};
+
+	/**
+	 * Move an issue to the todo's status (close or update)
+	 */
+	const applyStatus = async (
+		issueId: string,
+		todo: Todo,
+		signal?: AbortSignal,
+	) => {
+		const status = statusMap[todo.status] ?? "open";
+		if (status === "closed") {
+			const reason = todo.status === "cancelled" ? "Cancelled" : "Done";
+			return runBd(["close", issueId, "--reason", reason], { signal });
+		}
+		return runBd(["update", issueId, "--status", status], { signal });
+	};
+
+	const syncTodo = async (
+		sessionId: string,
+		todo: Todo,
+		signal?: AbortSignal,
+	): Promise<TodoSyncEntry> => {
+		const tracked = trackedFor(sessionId);
+		const priority = todoPriorityMap[todo.priority ?? ""] ?? "P2";
+		const previous = tracked.get(todo.id);
+
+		if (!previous) {
+			const created = await runBd(
+				[
+					"create",
+					"-t",
+					"task",
+					"-p",
+					priority,
+					"-l",
+					TODO_LABEL,
+					"--json",
+					"--",
+					todo.content,
+				],
+				{ signal },
+			);
+			const issueId = parseIssue(created.json)?.id;
+			if (created.error || !issueId) {
+				return {
+					todoId: todo.id,
+					action: "unchanged",
+					error: created.error?.message ?? "bd create returned no issue ID",
+				};
+			}
+			const entry: TrackedTodo = {
+				issueId,
+				content: todo.content,
+				status: "pending",
+				priority,
+			};
+			tracked.set(todo.id, entry);
+
+			if (todo.status !== "pending") {
+				const moved = await applyStatus(issueId, todo, signal);
+				if (moved.error) {
+					return {
+						todoId: todo.id,
+						issueId,
+						action: "created",
+						error: moved.error.message,
+					};
+				}
+				entry.status = todo.status;
+			}
+			return { todoId: todo.id, issueId, action: "created" };
+		}
+
+		const { issueId } = previous;
+		const flags: string[] = [];
+		if (todo.content !== previous.content) flags.push("--title", todo.content);
+		if (priority !== previous.priority) flags.push("--priority", priority);
+
+		let action: TodoSyncAction = "unchanged";
+		if (flags.length > 0) {
+			const updated = await runBd(["update", issueId, ...flags], { signal });
+			if (updated.error) {
+				return {
+					todoId: todo.id,
+					issueId,
+					action,
+					error: updated.error.message,
+				};
+			}
+			action = "updated";
+		}
+
+		if (todo.status !== previous.status) {
+			const moved = await applyStatus(issueId, todo, signal);
+			if (moved.error) {
+				return { todoId: todo.id, issueId, action, error: moved.error.message };
+			}
+			action = statusMap[todo.status] === "closed" ? "closed" : "updated";
+		}
+
+		tracked.set(todo.id, {
+			issueId,
+			content: todo.content,
+			status: todo.status,
+			priority,
+		});
+		return { todoId: todo.id, issueId, action };
+	};
+
+	return {
+		sync: async (sessionId, todos, signal) => {
+			const entries: TodoSyncEntry[] = [];
+			// Sequential: bd serializes writes to the database anyway
+			for (const todo of todos) {
+				entries.push(await syncTodo(sessionId, todo, signal));
+			}
+			return entries;
+		},
+		issueFor: (sessionId, todoId) =>
+			sessions.get(sessionId)?.get(todoId)?.issueId,
+	};
+};
+
+/**
+ * Summary of a sync for the model, listing the issue behind each todo
+ */
+export const formatTodoSync = (entries: TodoSyncEntry[]): string => {
+	if (entries.length === 0) return "";
+	const lines = entries.map((entry) => {
+		const target = entry.issueId ?? "(no issue)";
+		const suffix = entry.error ? ` - failed: ${entry.error}` : "";
+		return `- todo ${entry.todoId} → ${target} (${entry.action})${suffix}`;
+	});
+	return [
+		"Synced todos to beads issues (use these IDs with bd_* tools):",
+		...lines,
+	].join("\n");
+};
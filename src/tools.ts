@@ -1,4 +1,90 @@
-import { tool } from "@opencode-ai/plugin/tool";
+import { type ToolResult, tool } from "@opencode-ai/plugin/tool";
+import { spawn } from "node:child_process";
+import {
+	BdAbortedError,
+	BdCommandError,
+	BdError,
+	BdNotInstalledError,
+	BdTimeoutError,
+	bdErrorResult,
+	ClaimConflictError,
+	CloseBlockedError,
+	classifyBdFailure,
+	InvalidArgumentError,
+	IssueNotFoundError,
+} from "./errors.js";
+import { runBatch } from "./batch.js";
+import {
+	type CloseGates,
+	closeRequirements,
+	describeWork,
+	runVerification,
+} from "./close.js";
+import {
+	type DependencyProblem,
+	toDependencyError,
+	validateDependency,
+	validateNewIssueDependencies,
+} from "./dependencies.js";
+import { diffIssues, renderIssueDiff } from "./diff.js";
+import {
+	type Issue,
+	ISSUE_TYPES,
+	PRIORITY_NAMES,
+	parseBlockedIssues,
+	parseComments,
+	parseIssue,
+	parseIssueDetails,
+	parseIssueList,
+} from "./domain.js";
+import { renderExport, selectExportIssues, writeExport } from "./export.js";
+import { createGitRunner } from "./git.js";
+import { buildIssueGraph, renderGraph } from "./graph.js";
+import { closedSince, loadIssuesAtRef } from "./history.js";
+import {
+	blockedIssues,
+	buildIssueIndex,
+	countIssues,
+	type IssueIndex,
+	type JsonlIssue,
+	type JsonlReader,
+	labelCounts,
+	listIssues,
+	parseIssues,
+	readyIssues,
+	searchIssues,
+	showIssue,
+	staleIssues,
+} from "./jsonl.js";
+import {
+	LOCKED_BD_TIMEOUT_MS,
+	type LeaseStore,
+	sessionAssignee,
+} from "./lease.js";
+import {
+	type EpicPlanNode,
+	parseOutline,
+	planEpic,
+	resolvePlanIds,
+} from "./outline.js";
+import { buildExecutionPlan } from "./plan.js";
+import { collectReleaseEntries, renderReleaseNotes } from "./release.js";
+import {
+	applyTodoRewrites,
+	listScanFiles,
+	referencesIssue,
+	scanTodos,
+	TODO_FINGERPRINT_PREFIX,
+	type TodoItem,
+} from "./scan.js";
+import type { SessionTracker } from "./session.js";
+import {
+	type OutputOptions,
+	outputArgs,
+	renderIssuePage,
+	resolvePage,
+} from "./shape.js";
+import type { Workspace, WorkspaceDiscovery } from "./workspace.js";
 
 /**
  * Beads (bd) Issue Tracker Tools
@@ -7,17 +93,21 @@ import { tool } from "@opencode-ai/plugin/tool";
  * These tools provide a better UX than raw bash commands.
  *
  * Tools are organized into categories:
- * - Core Issue Operations: list, show, create, update, close, reopen, delete
- * - Workflow: ready, blocked
+ * - Core Issue Operations: list, show, create, update, close, reopen, delete, batch
+ * - Workflow: ready, blocked, plan, current
  * - Search & Query: search, count, stale
  * - Comments: comment, comments
  * - Labels: label_add, label_remove, labels
- * - Dependencies: dep_add, dep_remove, deps
- * - Epics: epic_create, epics, epic_show
+ * - Dependencies: dep_add, dep_remove, deps, graph
+ * - Epics: epic_create, epic_plan, epics, epic_show
  * - Database & Sync: status, stats, sync, info, validate, doctor
  * - Templates: templates, create_from_template
  * - Maintenance: cleanup, compact, duplicates, repair_deps
+ * - Import & Export: import_todos, export, release_notes, diff
  * - AI Integration: prime
+ *
+ * Read-only tools accept an optional JsonlReader and answer natively from
+ * .beads/issues.jsonl when it is available, falling back to the bd CLI.
  */
 
 // ============================================================================
@@ -25,116 +115,488 @@ import { tool } from "@opencode-ai/plugin/tool";
 // ============================================================================
 
 /**
- * Shell command builder type (matches Bun's shell API pattern)
+ * Options for a single bd invocation
  */
-type ShellCommand = {
-	quiet: () => ShellCommand;
-	cwd: (dir: string) => ShellCommand;
-	text: () => Promise<string>;
-	nothrow: () => ShellCommand;
+export type BdRunOptions = {
+	/** Kill bd if it runs longer than this (defaults to the runner's timeout) */
+	timeoutMs?: number;
+	/** Abort signal from the tool context; kills bd when triggered */
+	signal?: AbortSignal;
 };
 
 /**
- * Shell executor function type (Bun's $ template literal)
+ * Structured outcome of a bd invocation
  */
-export type ShellExecutor = (
-	strings: TemplateStringsArray,
-	...values: unknown[]
-) => ShellCommand;
+export type BdResult = {
+	args: readonly string[];
+	/** Process exit code (null when bd never ran or was killed) */
+	exitCode: number | null;
+	stdout: string;
+	stderr: string;
+	/** Parsed stdout when bd printed JSON */
+	json?: unknown;
+	durationMs: number;
+	/** Set when the invocation failed */
+	error?: BdError;
+};
 
 /**
  * Function to run bd commands
  */
 export type BdRunner = (
 	args: readonly string[],
-	options?: { successMessage?: string },
-) => Promise<string>;
+	options?: BdRunOptions,
+) => Promise<BdResult>;
 
 /**
- * Create a bd command runner using the provided shell executor
+ * Options for createBdRunner
  */
-export function createBdRunner(shell: ShellExecutor, cwd: string): BdRunner {
-	return async (
+export type BdRunnerOptions = {
+	/** Default per-call timeout in milliseconds */
+	timeoutMs?: number;
+	/** bd executable to run (defaults to "bd" on PATH) */
+	command?: string;
+};
+
+/**
+ * Default time a single bd call may take before it is killed
+ */
+export const DEFAULT_BD_TIMEOUT_MS = 60_000;
+
+/**
+ * Time bd gets to exit after SIGTERM before it is sent SIGKILL
+ */
+const KILL_GRACE_MS = 5_000;
+
+/**
+ * Parse stdout as JSON when it looks like a JSON document
+ */
+const parseJsonOutput = (stdout: string): unknown => {
+	const trimmed = stdout.trim();
+	if (!trimmed.startsWith("{") && !trimmed.startsWith("[")) return undefined;
+	try {
+		return JSON.parse(trimmed);
+	} catch {
+		return undefined;
+	}
+};
+
+/**
+ * Create a bd command runner for the given working directory.
+ *
+ * Arguments are passed to bd as an argv vector and never go through a
+ * shell, so titles and comment bodies containing `$()`, backticks, `;`,
+ * newlines or backslashes reach bd verbatim.
+ */
+export function createBdRunner(
+	cwd: string,
+	runnerOptions: BdRunnerOptions = {},
+): BdRunner {
+	const command = runnerOptions.command ?? "bd";
+	const defaultTimeout = runnerOptions.timeoutMs ?? DEFAULT_BD_TIMEOUT_MS;
+
+	return (
 		args: readonly string[],
-		options: { successMessage?: string } = {},
-	): Promise<string> => {
-		try {
-			// Build the command string with proper escaping
-			const cmdArgs = args.map((arg) => {
-				// Escape special characters in arguments
-				if (arg.includes(" ") || arg.includes('"') || arg.includes("'")) {
-					return `"${arg.replace(/"/g, '\\"')}"`;
-				}
-				return arg;
+		options: BdRunOptions = {},
+	): Promise<BdResult> => {
+		const timeoutMs = options.timeoutMs ?? defaultTimeout;
+		const { signal } = options;
+		const startedAt = Date.now();
+
+		const failed = (error: BdError, exitCode: number | null = null) => ({
+			args,
+			exitCode,
+			stdout: "",
+			stderr: "",
+			durationMs: Date.now() - startedAt,
+			error,
+		});
+
+		if (signal?.aborted) {
+			return Promise.resolve(failed(new BdAbortedError()));
+		}
+
+		return new Promise((resolve) => {
+			let settled = false;
+			let timer: ReturnType<typeof setTimeout> | undefined;
+			const stdout: Buffer[] = [];
+			const stderr: Buffer[] = [];
+
+			const finish = (result: BdResult) => {
+				if (settled) return;
+				settled = true;
+				if (timer) clearTimeout(timer);
+				signal?.removeEventListener("abort", onAbort);
+				resolve(result);
+			};
+
+			const child = spawn(command, [...args], {
+				cwd,
+				stdio: ["ignore", "pipe", "pipe"],
 			});
-			const cmdString = ["bd", ...cmdArgs].join(" ");
 
-			// Use sh -c to execute the command string properly
-			// Bun's $ template treats interpolated values as single arguments,
-			// so we need sh -c to parse the full command string
-			const result = await shell`sh -c ${cmdString}`.cwd(cwd).nothrow().text();
+			// bd may ignore SIGTERM while it holds the database lock
+			let killTimer: ReturnType<typeof setTimeout> | undefined;
+			const terminate = () => {
+				child.kill("SIGTERM");
+				killTimer ??= setTimeout(() => {
+					if (child.exitCode === null && child.signalCode === null) {
+						child.kill("SIGKILL");
+					}
+				}, KILL_GRACE_MS);
+				killTimer.unref?.();
+			};
+
+			const onAbort = () => {
+				terminate();
+				finish(failed(new BdAbortedError()));
+			};
+			signal?.addEventListener("abort", onAbort, { once: true });
+
+			if (timeoutMs > 0) {
+				timer = setTimeout(() => {
+					terminate();
+					finish(failed(new BdTimeoutError(args[0] ?? "", timeoutMs)));
+				}, timeoutMs);
+			}
 
-			return result || options.successMessage || "";
-		} catch (error) {
-			const message = error instanceof Error ? error.message : String(error);
-			return `Error: ${message}`;
-		}
+			child.stdout?.on("data", (chunk: Buffer) => stdout.push(chunk));
+			child.stderr?.on("data", (chunk: Buffer) => stderr.push(chunk));
+
+			child.on("error", (error: NodeJS.ErrnoException) => {
+				finish(
+					failed(
+						error.code === "ENOENT"
+							? new BdNotInstalledError(command)
+							: new BdCommandError(error.message, null),
+					),
+				);
+			});
+			child.on("close", (exitCode) => {
+				if (killTimer) clearTimeout(killTimer);
+				const out = Buffer.concat(stdout).toString("utf-8");
+				const err = Buffer.concat(stderr).toString("utf-8");
+				finish({
+					args,
+					exitCode,
+					stdout: out,
+					stderr: err,
+					json: parseJsonOutput(out),
+					durationMs: Date.now() - startedAt,
+					error:
+						exitCode === 0 ? undefined : classifyBdFailure(err, out, exitCode),
+				});
+			});
+		});
 	};
 }
 
+/**
+ * Turn a bd result into a tool result, reporting failures instead of
+ * falling back to the success message
+ */
+export const toToolResult = (
+	result: BdResult,
+	successMessage?: string,
+): ToolResult => {
+	if (result.error) return bdErrorResult(result.error);
+	return result.stdout || successMessage || "";
+};
+
+/**
+ * Run bd for a tool call and convert the outcome to a tool result
+ */
+const runBdTool = async (
+	runBd: BdRunner,
+	args: readonly string[],
+	options: BdRunOptions & { successMessage?: string } = {},
+): Promise<ToolResult> => {
+	const { successMessage, ...runOptions } = options;
+	return toToolResult(await runBd(args, runOptions), successMessage);
+};
+
+/**
+ * Format native query results like bd's --json output
+ */
+const formatJson = (value: unknown, emptyMessage?: string): string => {
+	if (Array.isArray(value) && value.length === 0 && emptyMessage) {
+		return emptyMessage;
+	}
+	return JSON.stringify(value, null, 2);
+};
+
+/**
+ * Run a bd query and return its JSON output normalized by `parse`, in the
+ * same shape the native path produces whichever bd version answered
+ */
+const runBdQuery = async (
+	runBd: BdRunner,
+	args: readonly string[],
+	parse: (json: unknown) => unknown,
+	options: { signal?: AbortSignal; emptyMessage?: string } = {},
+): Promise<ToolResult> => {
+	const result = await runBd(args, { signal: options.signal });
+	if (result.error) return bdErrorResult(result.error);
+	const value = result.json === undefined ? null : parse(result.json);
+	if (value === null) return result.stdout || options.emptyMessage || "";
+	return formatJson(value, options.emptyMessage);
+};
+
+/**
+ * Issues from a bd query's JSON output
+ */
+const fetchBdIssues = async (
+	runBd: BdRunner,
+	args: readonly string[],
+	signal?: AbortSignal,
+	timeoutMs?: number,
+): Promise<Issue[] | BdError> => {
+	const result = await runBd(args, { signal, timeoutMs });
+	return result.error ?? parseIssueList(result.json);
+};
+
+/**
+ * Fetch enough issues for the requested page (`count` covers everything
+ * up to the end of the page, plus one to detect more) and render it with
+ * the shared output options
+ */
+const runIssuePage = async (
+	args: OutputOptions & { limit?: number },
+	query: Record<string, unknown>,
+	options: { defaultLimit: number; emptyMessage: string },
+	fetch: (count: number) => Promise<Issue[] | BdError>,
+): Promise<ToolResult> => {
+	const page = resolvePage(
+		args.cursor,
+		query,
+		args.limit ?? options.defaultLimit,
+	);
+	if (page instanceof BdError) return bdErrorResult(page);
+	const issues = await fetch(page.offset + page.size + 1);
+	if (issues instanceof BdError) return bdErrorResult(issues);
+	return renderIssuePage(issues, page, args, options.emptyMessage);
+};
+
+/**
+ * Load the full issue index (dependencies included): natively when
+ * possible, otherwise from `bd export`
+ */
+const loadIssueIndex = async (
+	runBd: BdRunner,
+	reader: JsonlReader | undefined,
+	signal?: AbortSignal,
+): Promise<IssueIndex | BdError> => {
+	const index = reader?.load();
+	if (index) return index;
+
+	const issues = await exportIssues(runBd, signal);
+	return issues instanceof BdError ? issues : buildIssueIndex(issues);
+};
+
+/**
+ * Every issue as bd has it, with dependencies, labels and comments
+ */
+const exportIssues = async (
+	runBd: BdRunner,
+	signal?: AbortSignal,
+): Promise<JsonlIssue[] | BdError> => {
+	const result = await runBd(["export"], { signal });
+	return result.error ?? parseIssues(result.stdout);
+};
+
+/**
+ * Validate proposed dependencies against the current graph before a
+ * mutation. Returns an error result when a check fails; validation is
+ * skipped when the graph cannot be loaded and bd gets the final word.
+ */
+const preflightDependencies = async (
+	runBd: BdRunner,
+	reader: JsonlReader | undefined,
+	check: (index: IssueIndex) => DependencyProblem | null,
+	signal?: AbortSignal,
+): Promise<ToolResult | null> => {
+	const index = await loadIssueIndex(runBd, reader, signal);
+	if (index instanceof BdError) return null;
+	const problem = check(index);
+	return problem ? bdErrorResult(toDependencyError(problem)) : null;
+};
+
+/**
+ * Convert a human-readable priority name to bd's numeric level
+ */
+const priorityLevel = (priority: string): number =>
+	Number((priorityMap[priority] ?? "P2").slice(1));
+
+/**
+ * Order by priority (P0 first), then oldest first
+ */
+const byPriorityThenAge = (a: Issue, b: Issue): number =>
+	a.priority - b.priority || a.created_at.localeCompare(b.created_at);
+
 // ============================================================================
 // Tool Factories - Core Issue Operations
 // ============================================================================
 
-export const createBdList = (runBd: BdRunner) =>
+/**
+ * Filters and paging accepted by bd_list
+ */
+const listArgs = {
+	status: tool.schema
+		.enum(["open", "closed", "in_progress", "all"])
+		.optional()
+		.describe("Filter by status (default: open)"),
+	label: tool.schema.string().optional().describe("Filter by label"),
+	priority: tool.schema
+		.enum(PRIORITY_NAMES)
+		.optional()
+		.describe("Filter by priority"),
+	limit: tool.schema
+		.number()
+		.optional()
+		.describe("Issues per page (default: 50)"),
+	assignee: tool.schema.string().optional().describe("Filter by assignee"),
+	type: tool.schema
+		.enum(ISSUE_TYPES)
+		.optional()
+		.describe("Filter by issue type"),
+	parent: tool.schema
+		.string()
+		.optional()
+		.describe("Only direct children of this epic or parent issue"),
+	...outputArgs,
+};
+
+type ListFilterArgs = {
+	status?: "open" | "closed" | "in_progress" | "all";
+	label?: string;
+	priority?: (typeof PRIORITY_NAMES)[number];
+	assignee?: string;
+	type?: (typeof ISSUE_TYPES)[number];
+	parent?: string;
+};
+
+/**
+ * The first `count` issues matching bd_list filters, natively when possible
+ */
+const fetchListIssues = async (
+	runBd: BdRunner,
+	reader: JsonlReader | undefined,
+	filters: ListFilterArgs,
+	count: number,
+	signal?: AbortSignal,
+): Promise<Issue[] | BdError> => {
+	const index = reader?.load();
+	if (index) {
+		return parseIssueList(
+			listIssues(index, {
+				...filters,
+				priority: filters.priority
+					? priorityLevel(filters.priority)
+					: undefined,
+				limit: count,
+			}),
+		);
+	}
+
+	// CLI uses -s for status, -l for label, -p for priority, -n for limit, -a for assignee, -t for type
+	const flags: string[] = ["--json", "-n", String(count)];
+	if (filters.parent) flags.push("--parent", filters.parent);
+	if (filters.status && filters.status !== "all") {
+		flags.push("-s", filters.status);
+	}
+	if (filters.label) flags.push("-l", filters.label);
+	if (filters.priority) {
+		const mappedPriority = priorityMap[filters.priority] ?? "P2";
+		flags.push("-p", mappedPriority);
+	}
+	if (filters.assignee) flags.push("-a", filters.assignee);
+	if (filters.type) flags.push("-t", filters.type);
+
+	return fetchBdIssues(runBd, ["list", ...flags], signal);
+};
+
+export const createBdList = (runBd: BdRunner, reader?: JsonlReader) =>
 	tool({
 		description:
-			"List issues from beads. Supports filtering by status, label, priority, and more.",
-		args: {
-			status: tool.schema
-				.enum(["open", "closed", "in_progress", "all"])
-				.optional()
-				.describe("Filter by status (default: open)"),
-			label: tool.schema.string().optional().describe("Filter by label"),
-			priority: tool.schema
-				.enum(["critical", "high", "medium", "low"])
-				.optional()
-				.describe("Filter by priority"),
-			limit: tool.schema
-				.number()
-				.optional()
-				.describe("Maximum number of issues to return"),
-			assignee: tool.schema.string().optional().describe("Filter by assignee"),
-			type: tool.schema
-				.enum(["bug", "feature", "task", "epic", "chore"])
-				.optional()
-				.describe("Filter by issue type"),
+			'List issues from beads. Supports filtering by status, label, priority, and more. Results are paged; use format "compact" or "summary" to keep large lists small.',
+		args: listArgs,
+		async execute(args, context) {
+			const { limit, format, fields, max_chars, cursor, ...filters } = args;
+
+			return runIssuePage(
+				args,
+				{ command: "list", ...filters },
+				{ defaultLimit: 50, emptyMessage: "No issues found" },
+				(count) =>
+					fetchListIssues(runBd, reader, filters, count, context.abort),
+			);
 		},
-		async execute(args) {
-			// CLI uses -s for status, -l for label, -p for priority, -n for limit, -a for assignee, -t for type
-			const flags: string[] = ["--json"];
-			if (args.status && args.status !== "all") flags.push("-s", args.status);
-			if (args.label) flags.push("-l", args.label);
-			if (args.priority) {
-				const mappedPriority = priorityMap[args.priority] ?? "P2";
-				flags.push("-p", mappedPriority);
-			}
-			if (args.limit) flags.push("-n", String(args.limit));
-			if (args.assignee) flags.push("-a", args.assignee);
-			if (args.type) flags.push("-t", args.type);
+	});
 
-			return runBd(["list", ...flags], { successMessage: "No issues found" });
+/**
+ * A workspace's issues, for listings across several beads databases
+ */
+export type IssueSource = {
+	name: string;
+	runBd: BdRunner;
+	reader?: JsonlReader;
+};
+
+/**
+ * bd_list across workspaces: each issue is tagged with the workspace it
+ * came from, and the lists are merged by priority
+ */
+export const createBdListAcross = (sources: IssueSource[]) =>
+	tool({
+		description:
+			"List issues from every beads workspace in the repository, tagged with their workspace.",
+		args: listArgs,
+		async execute(args, context) {
+			const { limit, format, fields, max_chars, cursor, ...filters } = args;
+
+			return runIssuePage(
+				args,
+				{ command: "list", workspace: "all", ...filters },
+				{ defaultLimit: 50, emptyMessage: "No issues found" },
+				async (count) => {
+					const merged: Issue[] = [];
+					for (const source of sources) {
+						const issues = await fetchListIssues(
+							source.runBd,
+							source.reader,
+							filters,
+							count,
+							context.abort,
+						);
+						if (issues instanceof BdError) return issues;
+						merged.push(
+							...issues.map((issue) => ({ ...issue, workspace: source.name })),
+						);
+					}
+					return merged.sort(byPriorityThenAge).slice(0, count);
+				},
+			);
 		},
 	});
 
-export const createBdShow = (runBd: BdRunner) =>
+export const createBdShow = (runBd: BdRunner, reader?: JsonlReader) =>
 	tool({
 		description: "Show detailed information about a specific issue.",
 		args: {
 			id: tool.schema.string().describe("Issue ID to show"),
 		},
-		async execute(args) {
-			return runBd(["show", args.id, "--json"]);
+		async execute(args, context) {
+			const index = reader?.load();
+			if (index) {
+				const issue = showIssue(index, args.id);
+				return issue
+					? formatJson(parseIssueDetails(issue))
+					: bdErrorResult(new IssueNotFoundError(args.id));
+			}
+
+			return runBdQuery(runBd, ["show", args.id, "--json"], parseIssueDetails, {
+				signal: context.abort,
+			});
 		},
 	});
 
@@ -146,30 +608,89 @@ const priorityMap: Record<string, string> = {
 	high: "P1",
 	medium: "P2",
 	low: "P3",
+	backlog: "P4",
+};
+
+/**
+ * Flags for the optional detail fields shared by create and update
+ */
+const detailFlags = (args: {
+	design?: string;
+	acceptance?: string;
+	external_ref?: string;
+	estimate?: number;
+}): string[] => {
+	const flags: string[] = [];
+	if (args.design !== undefined) flags.push("--design", args.design);
+	if (args.acceptance !== undefined) {
+		flags.push("--acceptance", args.acceptance);
+	}
+	if (args.external_ref !== undefined) {
+		flags.push("--external-ref", args.external_ref);
+	}
+	if (args.estimate !== undefined) {
+		flags.push("--estimate", String(Math.round(args.estimate)));
+	}
+	return flags;
 };
 
-export const createBdCreate = (runBd: BdRunner) =>
+export const createBdCreate = (runBd: BdRunner, reader?: JsonlReader) =>
 	tool({
 		description: "Create a new issue in beads.",
 		args: {
 			title: tool.schema.string().describe("Issue title"),
 			body: tool.schema.string().optional().describe("Issue body/description"),
 			priority: tool.schema
-				.enum(["critical", "high", "medium", "low"])
+				.enum(PRIORITY_NAMES)
 				.optional()
 				.describe("Issue priority"),
 			labels: tool.schema
 				.string()
 				.optional()
 				.describe("Comma-separated labels to add"),
+			type: tool.schema
+				.enum(ISSUE_TYPES)
+				.optional()
+				.describe("Issue type (default: task)"),
 			epic: tool.schema.string().optional().describe("Epic ID to assign to"),
 			assignee: tool.schema.string().optional().describe("Assignee name"),
+			design: tool.schema.string().optional().describe("Design notes"),
+			acceptance: tool.schema
+				.string()
+				.optional()
+				.describe("Acceptance criteria"),
+			external_ref: tool.schema
+				.string()
+				.optional()
+				.describe("External reference (e.g. gh-123, JIRA-42)"),
+			estimate: tool.schema
+				.number()
+				.optional()
+				.describe("Estimated effort in minutes"),
 			depends_on: tool.schema
 				.string()
 				.optional()
 				.describe("Comma-separated issue IDs this depends on"),
+			force: tool.schema
+				.boolean()
+				.optional()
+				.describe("Skip dependency validation (closed or missing targets)"),
 		},
-		async execute(args) {
+		async execute(args, context) {
+			if (args.depends_on && !args.force) {
+				const dependsOn = args.depends_on
+					.split(",")
+					.map((id) => id.trim())
+					.filter(Boolean);
+				const rejected = await preflightDependencies(
+					runBd,
+					reader,
+					(index) => validateNewIssueDependencies(index, dependsOn, args.epic),
+					context.abort,
+				);
+				if (rejected) return rejected;
+			}
+
 			// Title is positional, description uses -d flag
 			const flags: string[] = [];
 			if (args.body) flags.push("-d", args.body);
@@ -181,21 +702,26 @@ export const createBdCreate = (runBd: BdRunner) =>
 				// CLI uses -l/--labels (plural, comma-separated)
 				flags.push("-l", args.labels);
 			}
+			if (args.type) flags.push("-t", args.type);
 			if (args.epic) flags.push("--parent", args.epic);
 			if (args.assignee) flags.push("-a", args.assignee);
 			if (args.depends_on) {
 				flags.push("--deps", args.depends_on);
 			}
+			flags.push(...detailFlags(args));
 
-			return runBd(["create", args.title, ...flags], {
+			// Free text goes after "--" so a title starting with "-" is not a flag
+			return runBdTool(runBd, ["create", ...flags, "--", args.title], {
 				successMessage: "Issue created",
+				signal: context.abort,
 			});
 		},
 	});
 
-export const createBdUpdate = (runBd: BdRunner) =>
+export const createBdUpdate = (runBd: BdRunner, reader?: JsonlReader) =>
 	tool({
-		description: "Update one or more issues.",
+		description:
+			"Update one or more issues: status, title, description, priority, type, assignee, epic, labels, design, acceptance criteria, notes, external reference or estimate.",
 		args: {
 			ids: tool.schema
 				.string()
@@ -205,42 +731,209 @@ export const createBdUpdate = (runBd: BdRunner) =>
 				.optional()
 				.describe("New status"),
 			title: tool.schema.string().optional().describe("New title"),
+			body: tool.schema.string().optional().describe("New description"),
 			priority: tool.schema
-				.enum(["critical", "high", "medium", "low"])
+				.enum(PRIORITY_NAMES)
 				.optional()
 				.describe("New priority"),
+			type: tool.schema.enum(ISSUE_TYPES).optional().describe("New issue type"),
 			assignee: tool.schema.string().optional().describe("New assignee"),
 			epic: tool.schema.string().optional().describe("Epic ID to assign to"),
+			add_labels: tool.schema
+				.string()
+				.optional()
+				.describe("Comma-separated labels to add"),
+			remove_labels: tool.schema
+				.string()
+				.optional()
+				.describe("Comma-separated labels to remove"),
+			design: tool.schema.string().optional().describe("New design notes"),
+			acceptance: tool.schema
+				.string()
+				.optional()
+				.describe("New acceptance criteria"),
+			notes: tool.schema.string().optional().describe("Replace the notes"),
+			append_notes: tool.schema
+				.string()
+				.optional()
+				.describe("Append a paragraph to the existing notes"),
+			external_ref: tool.schema
+				.string()
+				.optional()
+				.describe("New external reference"),
+			estimate: tool.schema
+				.number()
+				.optional()
+				.describe("New estimate in minutes"),
 		},
-		async execute(args) {
+		async execute(args, context) {
 			const ids = args.ids.split(",").map((id) => id.trim());
 			const flags: string[] = [];
 			if (args.status) flags.push("--status", args.status);
 			if (args.title) flags.push("--title", args.title);
+			if (args.body !== undefined) flags.push("--description", args.body);
 			if (args.priority) {
 				const mappedPriority = priorityMap[args.priority] ?? "P2";
 				flags.push("--priority", mappedPriority);
 			}
+			if (args.type) flags.push("--type", args.type);
 			if (args.assignee) flags.push("-a", args.assignee);
-			if (args.epic) flags.push("--epic", args.epic);
+			if (args.epic) flags.push("--parent", args.epic);
+			if (args.add_labels) flags.push("--add-label", args.add_labels);
+			if (args.remove_labels) flags.push("--remove-label", args.remove_labels);
+			flags.push(...detailFlags(args));
+
+			if (args.append_notes === undefined) {
+				if (args.notes !== undefined) flags.push("--notes", args.notes);
+				return runBdTool(runBd, ["update", ...ids, ...flags], {
+					successMessage: "Issue(s) updated",
+					signal: context.abort,
+				});
+			}
 
-			return runBd(["update", ...ids, ...flags], {
-				successMessage: "Issue(s) updated",
-			});
+			// Appending needs each issue's current notes, so update one at a time
+			const index = await loadIssueIndex(runBd, reader, context.abort);
+			if (index instanceof BdError) return bdErrorResult(index);
+			const outputs: string[] = [];
+			for (const id of ids) {
+				const issue = index.byId.get(id);
+				if (!issue) return bdErrorResult(new IssueNotFoundError(id));
+				const current =
+					args.notes ?? (typeof issue.notes === "string" ? issue.notes : "");
+				const notes = current.trim()
+					? `${current.trimEnd()}\n\n${args.append_notes}`
+					: args.append_notes;
+				const result = await runBd(["update", id, ...flags, "--notes", notes], {
+					signal: context.abort,
+				});
+				if (result.error) return bdErrorResult(result.error);
+				outputs.push(result.stdout.trim());
+			}
+			return outputs.filter(Boolean).join("\n") || "Issue(s) updated";
 		},
 	});
 
-export const createBdClose = (runBd: BdRunner) =>
+export const createBdClose = (
+	runBd: BdRunner,
+	reader?: JsonlReader,
+	gates?: CloseGates,
+) =>
 	tool({
-		description: "Close one or more issues.",
+		description:
+			"Close one or more issues. Give a reason saying what was done; the project may require one, or a passing verification run, before closing.",
 		args: {
 			ids: tool.schema
 				.string()
 				.describe("Issue ID(s) to close (comma-separated for multiple)"),
+			reason: tool.schema
+				.string()
+				.optional()
+				.describe("What was done, or why the issue is closed"),
+			verify: tool.schema
+				.boolean()
+				.optional()
+				.describe(
+					"Run the project's verification command first and refuse to close if it fails",
+				),
+			link_commit: tool.schema
+				.boolean()
+				.optional()
+				.describe(
+					"Record the current git HEAD and changed files as a closing comment",
+				),
 		},
-		async execute(args) {
+		async execute(args, context) {
 			const ids = args.ids.split(",").map((id) => id.trim());
-			return runBd(["close", ...ids], { successMessage: "Issue(s) closed" });
+			const reason = args.reason?.trim();
+			const rules = gates?.rules ?? [];
+			let mustVerify = args.verify === true;
+
+			if (rules.length > 0) {
+				const index = await loadIssueIndex(runBd, reader, context.abort);
+				if (index instanceof BdError) return bdErrorResult(index);
+				for (const id of ids) {
+					const issue = index.byId.get(id);
+					if (!issue) return bdErrorResult(new IssueNotFoundError(id));
+					const required = closeRequirements(issue, rules);
+					if (required.reason && !reason) {
+						return bdErrorResult(
+							new CloseBlockedError(
+								`${id} cannot be closed without a reason`,
+								"Pass reason describing what was done and how it was checked",
+							),
+						);
+					}
+					mustVerify ||= required.verify;
+				}
+			}
+
+			let verified: string | undefined;
+			if (mustVerify) {
+				if (!gates?.verify) {
+					return bdErrorResult(
+						new InvalidArgumentError(
+							"verify",
+							"No verification command is configured",
+							'Set close.verify in .beads/opencode.json, e.g. { "close": { "verify": "bun test" } }',
+						),
+					);
+				}
+				const run = await runVerification(gates.verify, gates.directory, {
+					timeoutMs: gates.verifyTimeoutMs,
+					signal: context.abort,
+				});
+				if (run instanceof BdError) return bdErrorResult(run);
+				if (!run.passed) {
+					return bdErrorResult(
+						new CloseBlockedError(
+							run.timedOut
+								? `Verification timed out: \`${gates.verify}\` ran longer than ${gates.verifyTimeoutMs}ms`
+								: `Verification failed: \`${gates.verify}\` exited with ${run.exitCode}`,
+							run.output
+								? `Fix the failures and close again. Output:\n${run.output}`
+								: "Fix the failures and close again",
+						),
+					);
+				}
+				verified = `✓ Verified: \`${gates.verify}\` passed`;
+			}
+
+			const closed = await runBd(
+				["close", ...ids, ...(reason ? ["--reason", reason] : [])],
+				{ signal: context.abort },
+			);
+			if (closed.error) return bdErrorResult(closed.error);
+			const lines = [closed.stdout.trim() || "Issue(s) closed"];
+			if (verified) lines.push(verified);
+
+			if (args.link_commit ?? gates?.linkCommit) {
+				if (!gates) {
+					lines.push(
+						"No commit recorded: no project directory is configured for close gates",
+					);
+					return lines.join("\n");
+				}
+				const work = await describeWork(
+					createGitRunner(gates.directory),
+					context.abort,
+				);
+				if (!work) {
+					lines.push("No commit recorded: not in a git repository");
+					return lines.join("\n");
+				}
+				for (const id of ids) {
+					const comment = await runBd(["comment", id, work], {
+						signal: context.abort,
+					});
+					if (comment.error) {
+						lines.push(
+							`Could not record the commit on ${id}: ${comment.error.message}`,
+						);
+					}
+				}
+				lines.push(work);
+			}
+			return lines.join("\n");
 		},
 	});
 
@@ -252,9 +945,12 @@ export const createBdReopen = (runBd: BdRunner) =>
 				.string()
 				.describe("Issue ID(s) to reopen (comma-separated for multiple)"),
 		},
-		async execute(args) {
+		async execute(args, context) {
 			const ids = args.ids.split(",").map((id) => id.trim());
-			return runBd(["reopen", ...ids], { successMessage: "Issue(s) reopened" });
+			return runBdTool(runBd, ["reopen", ...ids], {
+				successMessage: "Issue(s) reopened",
+				signal: context.abort,
+			});
 		},
 	});
 
@@ -266,11 +962,104 @@ export const createBdDeleteIssue = (runBd: BdRunner) =>
 				.string()
 				.describe("Issue ID(s) to delete (comma-separated for multiple)"),
 		},
-		async execute(args) {
+		async execute(args, context) {
 			const ids = args.ids.split(",").map((id) => id.trim());
-			return runBd(["delete", ...ids, "--force"], {
+			return runBdTool(runBd, ["delete", ...ids, "--force"], {
 				successMessage: "Issue(s) deleted",
+				signal: context.abort,
+			});
+		},
+	});
+
+export const createBdBatch = (runBd: BdRunner, reader?: JsonlReader) =>
+	tool({
+		description:
+			'Run several create/update/close/dep_add/label_add/comment operations as one unit. Name created issues with "handle" and reference them later as "$handle" (e.g. depends_on: "$api"). The batch is validated first; if a step fails, earlier steps are rolled back. Returns a handle → ID map.',
+		args: {
+			operations: tool.schema
+				.array(
+					tool.schema.object({
+						op: tool.schema
+							.enum([
+								"create",
+								"update",
+								"close",
+								"dep_add",
+								"label_add",
+								"comment",
+							])
+							.describe("Operation to run"),
+						handle: tool.schema
+							.string()
+							.optional()
+							.describe("create: name to reference this issue as $handle"),
+						id: tool.schema
+							.string()
+							.optional()
+							.describe("Target issue ID or $handle (all ops except create)"),
+						title: tool.schema.string().optional().describe("create/update"),
+						body: tool.schema
+							.string()
+							.optional()
+							.describe("create: description"),
+						type: tool.schema
+							.enum(ISSUE_TYPES)
+							.optional()
+							.describe("create: issue type"),
+						priority: tool.schema
+							.enum(PRIORITY_NAMES)
+							.optional()
+							.describe("create/update"),
+						labels: tool.schema
+							.string()
+							.optional()
+							.describe("create: comma-separated labels"),
+						parent: tool.schema
+							.string()
+							.optional()
+							.describe("create: parent epic ID or $handle"),
+						depends_on: tool.schema
+							.string()
+							.optional()
+							.describe(
+								"create: comma-separated IDs/$handles; dep_add: the blocking issue",
+							),
+						assignee: tool.schema
+							.string()
+							.optional()
+							.describe("create/update (empty unassigns on update)"),
+						status: tool.schema
+							.enum(["open", "in_progress", "closed"])
+							.optional()
+							.describe("update"),
+						label: tool.schema.string().optional().describe("label_add"),
+						reason: tool.schema.string().optional().describe("close"),
+						text: tool.schema.string().optional().describe("comment"),
+					}),
+				)
+				.describe("Operations, run in order"),
+			force: tool.schema
+				.boolean()
+				.optional()
+				.describe("Skip dependency validation (references are still checked)"),
+		},
+		async execute(args, context) {
+			const index = await loadIssueIndex(runBd, reader, context.abort);
+			const operations = args.operations.map((operation) => ({
+				...operation,
+				priority: operation.priority
+					? (priorityMap[operation.priority] ?? "P2")
+					: undefined,
+			}));
+
+			const result = await runBatch(runBd, operations, {
+				index: index instanceof BdError ? null : index,
+				force: args.force,
+				signal: context.abort,
 			});
+			return result instanceof BdError
+				? bdErrorResult(result)
+				: formatJson(result);
 		},
 	});
 
@@ -278,7 +1067,7 @@ export const createBdDeleteIssue = (runBd: BdRunner) =>
 // Tool Factories - Workflow
 // ============================================================================
 
-export const createBdReady = (runBd: BdRunner) =>
+export const createBdReady = (runBd: BdRunner, reader?: JsonlReader) =>
 	tool({
 		description:
 			"Show issues that are ready to work on (open or in-progress with no blocking dependencies).",
@@ -286,26 +1075,266 @@ export const createBdReady = (runBd: BdRunner) =>
 			limit: tool.schema
 				.number()
 				.optional()
-				.describe("Maximum number of issues to return (default: 10)"),
+				.describe("Issues per page (default: 10)"),
+			...outputArgs,
 		},
-		async execute(args) {
-			// CLI: -n for limit
-			const flags: string[] = ["--json"];
-			if (args.limit) flags.push("-n", String(args.limit));
-
-			return runBd(["ready", ...flags], { successMessage: "No ready issues" });
+		async execute(args, context) {
+			const index = reader?.load();
+
+			return runIssuePage(
+				args,
+				{ command: "ready" },
+				{ defaultLimit: 10, emptyMessage: "No ready issues" },
+				async (count) =>
+					index
+						? parseIssueList(readyIssues(index, count))
+						: // CLI: -n for limit
+							fetchBdIssues(
+								runBd,
+								["ready", "--json", "-n", String(count)],
+								context.abort,
+							),
+			);
 		},
 	});
 
-export const createBdBlocked = (runBd: BdRunner) =>
+export const createBdBlocked = (runBd: BdRunner, reader?: JsonlReader) =>
 	tool({
 		description: "Show issues that are blocked by dependencies.",
 		args: {},
-		async execute() {
+		async execute(_args, context) {
+			const index = reader?.load();
+			if (index) {
+				return formatJson(
+					parseBlockedIssues(blockedIssues(index)),
+					"No blocked issues",
+				);
+			}
+
 			// Note: blocked command doesn't have limit flag
-			return runBd(["blocked", "--json"], {
-				successMessage: "No blocked issues",
+			return runBdQuery(runBd, ["blocked", "--json"], parseBlockedIssues, {
+				emptyMessage: "No blocked issues",
+				signal: context.abort,
+			});
+		},
+	});
+
+export const createBdPlan = (runBd: BdRunner, reader?: JsonlReader) =>
+	tool({
+		description:
+			"Plan open work as parallel waves: issues in the same wave have no blockers between them. Also reports the critical path, cycles, dangling references and blockers outside the scope.",
+		args: {
+			epic: tool.schema
+				.string()
+				.optional()
+				.describe("Plan this epic's open descendants"),
+			label: tool.schema
+				.string()
+				.optional()
+				.describe("Only issues with this label"),
+			weight: tool.schema
+				.enum(["priority", "estimate"])
+				.optional()
+				.describe(
+					"Critical path weighting: priority (P0 heaviest) or estimated_minutes (default: priority)",
+				),
+		},
+		async execute(args, context) {
+			const index = await loadIssueIndex(runBd, reader, context.abort);
+			if (index instanceof BdError) return bdErrorResult(index);
+			if (args.epic && !index.byId.has(args.epic)) {
+				return bdErrorResult(new IssueNotFoundError(args.epic));
+			}
+
+			return formatJson(
+				buildExecutionPlan(
+					index,
+					{ epic: args.epic, label: args.label },
+					args.weight ?? "priority",
+				),
+			);
+		},
+	});
+
+export const createBdCurrent = (
+	runBd: BdRunner,
+	sessions: SessionTracker,
+	runnerFor?: (workspace: string) => BdRunner,
+) =>
+	tool({
+		description:
+			"Show the issue this session is working on (the one claimed with bd_update status in_progress).",
+		args: {},
+		async execute(_args, context) {
+			const current = sessions.get(context.sessionID);
+			if (!current) {
+				return "No issue is bound to this session. Claim one with bd_update (status: in_progress).";
+			}
+
+			// The issue may be in another workspace than this tool's
+			const runner =
+				current.workspace && runnerFor ? runnerFor(current.workspace) : runBd;
+			return runBdQuery(
+				runner,
+				["show", current.id, "--json"],
+				parseIssueDetails,
+				{ signal: context.abort },
+			);
+		},
+	});
+
+export const createBdClaim = (runBd: BdRunner, leases: LeaseStore) =>
+	tool({
+		description:
+			"Claim an issue to work on: the given one, or the highest-priority ready issue. Claims are atomic across sessions and agents; the claim is held by a lease that is renewed while this session is active and expires otherwise.",
+		args: {
+			id: tool.schema
+				.string()
+				.optional()
+				.describe("Issue ID to claim (default: the top ready issue)"),
+		},
+		async execute(args, context) {
+			const holder = sessionAssignee(context.sessionID);
+			const locked = { signal: context.abort, timeoutMs: LOCKED_BD_TIMEOUT_MS };
+
+			const claimed = await leases.withLock(async (): Promise<ToolResult> => {
+				/** Whether another session or assignee holds the issue */
+				const conflict = (issue: Issue): ClaimConflictError | null => {
+					const lease = leases.get(issue.id);
+					if (lease && !leases.isExpired(lease)) {
+						return lease.sessionId === context.sessionID
+							? null
+							: new ClaimConflictError(issue.id, lease.holder, lease.expiresAt);
+					}
+					// In progress outside of any lease: someone claimed it by hand
+					const takenOver = lease && lease.holder === issue.assignee;
+					return issue.status === "in_progress" &&
+						issue.assignee &&
+						issue.assignee !== holder &&
+						!takenOver
+						? new ClaimConflictError(issue.id, issue.assignee)
+						: null;
+				};
+
+				let issue: Issue | undefined;
+				if (args.id) {
+					const shown = await runBd(["show", args.id, "--json"], locked);
+					if (shown.error) return bdErrorResult(shown.error);
+					const found = parseIssue(shown.json);
+					if (!found) return bdErrorResult(new IssueNotFoundError(args.id));
+					if (found.status === "closed") {
+						return bdErrorResult(
+							new InvalidArgumentError(
+								"id",
+								`${found.id} is closed`,
+								"Reopen it with bd_reopen first, or claim another issue",
+							),
+						);
+					}
+					const problem = conflict(found);
+					if (problem) return bdErrorResult(problem);
+					issue = found;
+				} else {
+					const ready = await fetchBdIssues(
+						runBd,
+						["ready", "--json", "-n", "100"],
+						locked.signal,
+						locked.timeoutMs,
+					);
+					if (ready instanceof BdError) return bdErrorResult(ready);
+					issue = ready
+						.filter((candidate) => candidate.status === "open")
+						.sort(byPriorityThenAge)
+						.find((candidate) => !conflict(candidate));
+					if (!issue) return "No ready issues to claim";
+				}
+
+				const updated = await runBd(
+					["update", issue.id, "--status", "in_progress", "-a", holder],
+					locked,
+				);
+				if (updated.error) return bdErrorResult(updated.error);
+
+				const previous = leases.get(issue.id);
+				const lease = leases.put(
+					issue.id,
+					holder,
+					context.sessionID,
+					previous?.sessionId === context.sessionID
+						? previous.claimedAt
+						: undefined,
+				);
+				return {
+					title: `Claimed ${issue.id}`,
+					output: [
+						`✓ Claimed ${issue.id}: ${issue.title}`,
+						`Assignee: ${holder}`,
+						`Lease expires at ${lease.expiresAt}; it is renewed while this session is active. Release it with bd_release if you stop working on the issue.`,
+					].join("\n"),
+					metadata: { lease },
+				};
 			});
+			return claimed instanceof BdError ? bdErrorResult(claimed) : claimed;
+		},
+	});
+
+export const createBdRelease = (runBd: BdRunner, leases: LeaseStore) =>
+	tool({
+		description:
+			"Release issues this session claimed with bd_claim: the issues return to open and unassigned so others can claim them.",
+		args: {
+			ids: tool.schema
+				.string()
+				.optional()
+				.describe(
+					"Issue ID(s) to release (comma-separated; default: every issue this session holds)",
+				),
+		},
+		async execute(args, context) {
+			const locked = { signal: context.abort, timeoutMs: LOCKED_BD_TIMEOUT_MS };
+
+			const released = await leases.withLock(async (): Promise<ToolResult> => {
+				const targets = args.ids
+					? args.ids.split(",").map((id) => id.trim())
+					: leases
+							.list()
+							.filter((lease) => lease.sessionId === context.sessionID)
+							.map((lease) => lease.issueId);
+				if (targets.length === 0) return "This session holds no claims";
+
+				const lines: string[] = [];
+				const releasedIds: string[] = [];
+				for (const id of targets) {
+					const lease = leases.get(id);
+					if (!lease) {
+						lines.push(`${id} is not claimed`);
+						continue;
+					}
+					if (
+						lease.sessionId !== context.sessionID &&
+						!leases.isExpired(lease)
+					) {
+						return bdErrorResult(
+							new ClaimConflictError(id, lease.holder, lease.expiresAt),
+						);
+					}
+					const result = await runBd(
+						["update", id, "--status", "open", "-a", ""],
+						locked,
+					);
+					if (result.error) return bdErrorResult(result.error);
+					leases.remove(id);
+					releasedIds.push(id);
+					lines.push(`✓ Released ${id}`);
+				}
+				if (releasedIds.length === 0) return lines.join("\n");
+				return {
+					title: `Released ${releasedIds.join(", ")}`,
+					output: lines.join("\n"),
+					metadata: { released: releasedIds },
+				};
+			});
+			return released instanceof BdError ? bdErrorResult(released) : released;
 		},
 	});
 
@@ -313,7 +1342,7 @@ export const createBdBlocked = (runBd: BdRunner) =>
 // Tool Factories - Search & Query
 // ============================================================================
 
-export const createBdSearch = (runBd: BdRunner) =>
+export const createBdSearch = (runBd: BdRunner, reader?: JsonlReader) =>
 	tool({
 		description: "Search issues by text query across titles and bodies.",
 		args: {
@@ -321,20 +1350,30 @@ export const createBdSearch = (runBd: BdRunner) =>
 			limit: tool.schema
 				.number()
 				.optional()
-				.describe("Maximum number of results (default: 50)"),
+				.describe("Results per page (default: 50)"),
+			...outputArgs,
 		},
-		async execute(args) {
-			// CLI: -n for limit
-			const flags: string[] = ["--json"];
-			if (args.limit) flags.push("-n", String(args.limit));
-
-			return runBd(["search", args.query, ...flags], {
-				successMessage: "No matching issues",
-			});
+		async execute(args, context) {
+			const index = reader?.load();
+
+			return runIssuePage(
+				args,
+				{ command: "search", query: args.query },
+				{ defaultLimit: 50, emptyMessage: "No matching issues" },
+				async (count) =>
+					index
+						? parseIssueList(searchIssues(index, args.query, count))
+						: // CLI: -n for limit
+							fetchBdIssues(
+								runBd,
+								["search", "--json", "-n", String(count), "--", args.query],
+								context.abort,
+							),
+			);
 		},
 	});
 
-export const createBdCount = (runBd: BdRunner) =>
+export const createBdCount = (runBd: BdRunner, reader?: JsonlReader) =>
 	tool({
 		description: "Count issues matching filters.",
 		args: {
@@ -344,23 +1383,38 @@ export const createBdCount = (runBd: BdRunner) =>
 				.describe("Filter by status"),
 			label: tool.schema.string().optional().describe("Filter by label"),
 			priority: tool.schema
-				.enum(["critical", "high", "medium", "low"])
+				.enum(PRIORITY_NAMES)
 				.optional()
 				.describe("Filter by priority"),
 		},
-		async execute(args) {
+		async execute(args, context) {
+			const index = reader?.load();
+			if (index) {
+				const count = countIssues(index, {
+					status: args.status,
+					label: args.label,
+					priority: args.priority ? priorityLevel(args.priority) : undefined,
+				});
+				return String(count);
+			}
+
 			const flags: string[] = [];
 			if (args.status && args.status !== "all")
 				flags.push("--status", args.status);
 			if (args.label) flags.push("--label", args.label);
-			if (args.priority) flags.push("--priority", args.priority);
+			if (args.priority) {
+				flags.push("--priority", priorityMap[args.priority] ?? "P2");
+			}
 
-			const result = await runBd(["count", ...flags]);
-			return result.trim();
+			const result = await runBd(["count", ...flags], {
+				signal: context.abort,
+			});
+			if (result.error) return bdErrorResult(result.error);
+			return result.stdout.trim();
 		},
 	});
 
-export const createBdStale = (runBd: BdRunner) =>
+export const createBdStale = (runBd: BdRunner, reader?: JsonlReader) =>
 	tool({
 		description: "Show stale issues (not updated recently).",
 		args: {
@@ -371,15 +1425,27 @@ export const createBdStale = (runBd: BdRunner) =>
 			limit: tool.schema
 				.number()
 				.optional()
-				.describe("Maximum number of issues to return (default: 50)"),
+				.describe("Issues per page (default: 50)"),
+			...outputArgs,
 		},
-		async execute(args) {
-			// CLI: -d for days, -n for limit
-			const flags: string[] = ["--json"];
-			if (args.days) flags.push("-d", String(args.days));
-			if (args.limit) flags.push("-n", String(args.limit));
-
-			return runBd(["stale", ...flags], { successMessage: "No stale issues" });
+		async execute(args, context) {
+			const index = reader?.load();
+
+			return runIssuePage(
+				args,
+				{ command: "stale", days: args.days },
+				{ defaultLimit: 50, emptyMessage: "No stale issues" },
+				async (count) => {
+					if (index) {
+						return parseIssueList(staleIssues(index, args.days, count));
+					}
+
+					// CLI: -d for days, -n for limit
+					const flags: string[] = ["--json", "-n", String(count)];
+					if (args.days) flags.push("-d", String(args.days));
+					return fetchBdIssues(runBd, ["stale", ...flags], context.abort);
+				},
+			);
 		},
 	});
 
@@ -394,10 +1460,11 @@ export const createBdComment = (runBd: BdRunner) =>
 			id: tool.schema.string().describe("Issue ID to comment on"),
 			body: tool.schema.string().describe("Comment text"),
 		},
-		async execute(args) {
+		async execute(args, context) {
 			// CLI: bd comment [issue-id] [text] (text is positional)
-			return runBd(["comment", args.id, args.body], {
+			return runBdTool(runBd, ["comment", args.id, "--", args.body], {
 				successMessage: "Comment added",
+				signal: context.abort,
 			});
 		},
 	});
@@ -408,9 +1475,10 @@ export const createBdComments = (runBd: BdRunner) =>
 		args: {
 			id: tool.schema.string().describe("Issue ID to view comments for"),
 		},
-		async execute(args) {
-			return runBd(["comments", args.id, "--json"], {
-				successMessage: "No comments",
+		async execute(args, context) {
+			return runBdQuery(runBd, ["comments", args.id, "--json"], parseComments, {
+				emptyMessage: "No comments",
+				signal: context.abort,
 			});
 		},
 	});
@@ -426,9 +1494,10 @@ export const createBdLabelAdd = (runBd: BdRunner) =>
 			id: tool.schema.string().describe("Issue ID"),
 			label: tool.schema.string().describe("Label to add"),
 		},
-		async execute(args) {
-			return runBd(["label", "add", args.id, args.label], {
+		async execute(args, context) {
+			return runBdTool(runBd, ["label", "add", args.id, "--", args.label], {
 				successMessage: "Label added",
+				signal: context.abort,
 			});
 		},
 	});
@@ -440,20 +1509,25 @@ export const createBdLabelRemove = (runBd: BdRunner) =>
 			id: tool.schema.string().describe("Issue ID"),
 			label: tool.schema.string().describe("Label to remove"),
 		},
-		async execute(args) {
-			return runBd(["label", "remove", args.id, args.label], {
+		async execute(args, context) {
+			return runBdTool(runBd, ["label", "remove", args.id, "--", args.label], {
 				successMessage: "Label removed",
+				signal: context.abort,
 			});
 		},
 	});
 
-export const createBdLabels = (runBd: BdRunner) =>
+export const createBdLabels = (runBd: BdRunner, reader?: JsonlReader) =>
 	tool({
 		description: "List all labels used in the database.",
 		args: {},
-		async execute() {
-			return runBd(["label", "list-all", "--json"], {
+		async execute(_args, context) {
+			const index = reader?.load();
+			if (index) return formatJson(labelCounts(index), "No labels");
+
+			return runBdTool(runBd, ["label", "list-all", "--json"], {
 				successMessage: "No labels",
+				signal: context.abort,
 			});
 		},
 	});
@@ -462,18 +1536,34 @@ export const createBdLabels = (runBd: BdRunner) =>
 // Tool Factories - Dependencies
 // ============================================================================
 
-export const createBdDepAdd = (runBd: BdRunner) =>
+export const createBdDepAdd = (runBd: BdRunner, reader?: JsonlReader) =>
 	tool({
-		description: "Add a dependency (issue A depends on issue B).",
+		description:
+			"Add a dependency (issue A depends on issue B). Self-dependencies, cycles, reversed edges and links to closed or missing issues are rejected unless force is set.",
 		args: {
 			id: tool.schema.string().describe("Issue ID that has the dependency"),
 			depends_on: tool.schema
 				.string()
 				.describe("Issue ID that must be completed first"),
+			force: tool.schema
+				.boolean()
+				.optional()
+				.describe("Add the dependency even if validation rejects it"),
 		},
-		async execute(args) {
-			return runBd(["dep", "add", args.id, args.depends_on], {
+		async execute(args, context) {
+			if (!args.force) {
+				const rejected = await preflightDependencies(
+					runBd,
+					reader,
+					(index) => validateDependency(index, args.id, args.depends_on),
+					context.abort,
+				);
+				if (rejected) return rejected;
+			}
+
+			return runBdTool(runBd, ["dep", "add", args.id, args.depends_on], {
 				successMessage: "Dependency added",
+				signal: context.abort,
 			});
 		},
 	});
@@ -487,9 +1577,10 @@ export const createBdDepRemove = (runBd: BdRunner) =>
 				.string()
 				.describe("Issue ID to remove from dependencies"),
 		},
-		async execute(args) {
-			return runBd(["dep", "remove", args.id, args.depends_on], {
+		async execute(args, context) {
+			return runBdTool(runBd, ["dep", "remove", args.id, args.depends_on], {
 				successMessage: "Dependency removed",
+				signal: context.abort,
 			});
 		},
 	});
@@ -500,10 +1591,49 @@ export const createBdDeps = (runBd: BdRunner) =>
 		args: {
 			id: tool.schema.string().describe("Issue ID to show dependencies for"),
 		},
-		async execute(args) {
-			return runBd(["dep", "tree", args.id], {
+		async execute(args, context) {
+			return runBdTool(runBd, ["dep", "tree", args.id], {
 				successMessage: "No dependencies",
+				signal: context.abort,
+			});
+		},
+	});
+
+export const createBdGraph = (runBd: BdRunner, reader?: JsonlReader) =>
+	tool({
+		description:
+			"Render the dependency and parent/child graph as Mermaid, Graphviz DOT or an ASCII tree. Scope it to an epic, a label or the whole project.",
+		args: {
+			format: tool.schema
+				.enum(["mermaid", "dot", "ascii"])
+				.optional()
+				.describe("Output format (default: mermaid)"),
+			epic: tool.schema
+				.string()
+				.optional()
+				.describe("Only this epic and its descendants"),
+			label: tool.schema
+				.string()
+				.optional()
+				.describe("Only issues with this label"),
+			include_closed: tool.schema
+				.boolean()
+				.optional()
+				.describe("Include closed issues (default: false)"),
+		},
+		async execute(args, context) {
+			const index = await loadIssueIndex(runBd, reader, context.abort);
+			if (index instanceof BdError) return bdErrorResult(index);
+			if (args.epic && !index.byId.has(args.epic)) {
+				return bdErrorResult(new IssueNotFoundError(args.epic));
+			}
+
+			const graph = buildIssueGraph(index, {
+				epic: args.epic,
+				label: args.label,
+				includeClosed: args.include_closed,
 			});
+			return renderGraph(graph, args.format ?? "mermaid");
 		},
 	});
 
@@ -518,17 +1648,72 @@ export const createBdEpicCreate = (runBd: BdRunner) =>
 			title: tool.schema.string().describe("Epic title"),
 			body: tool.schema.string().optional().describe("Epic description"),
 		},
-		async execute(args) {
+		async execute(args, context) {
 			// Epics are issues with -t epic, description uses -d
 			const flags: string[] = ["-t", "epic"];
 			if (args.body) flags.push("-d", args.body);
 
-			return runBd(["create", args.title, ...flags], {
+			return runBdTool(runBd, ["create", ...flags, "--", args.title], {
 				successMessage: "Epic created",
+				signal: context.abort,
 			});
 		},
 	});
 
+/**
+ * Count created and reused issues in an epic plan tree
+ */
+const countPlanActions = (
+	node: EpicPlanNode,
+	counts = { created: 0, existing: 0 },
+): { created: number; existing: number } => {
+	counts[node.action]++;
+	for (const child of node.children) countPlanActions(child, counts);
+	return counts;
+};
+
+export const createBdEpicPlan = (runBd: BdRunner, reader?: JsonlReader) =>
+	tool({
+		description:
+			'Create an epic and its child issues from a markdown outline or JSON tree in one step. Markdown: "# Epic", "## Child" headings and "-" bullets nest; numbered items run in order; markers [P0]-[P4], [bug|feature|task|epic|chore], #label and (after: Other title) set priority, type, labels and dependencies. Re-running reuses children with the same title and only adds what is new. Returns the created tree.',
+		args: {
+			outline: tool.schema
+				.string()
+				.describe(
+					'Markdown outline, or JSON {"title", "children": [{"title", "type", "priority", "labels", "after", "sequential", "children"}]}',
+				),
+			epic: tool.schema
+				.string()
+				.optional()
+				.describe(
+					"Existing epic ID to plan into (default: the outline's top heading)",
+				),
+		},
+		async execute(args, context) {
+			const outline = parseOutline(args.outline);
+			if (outline instanceof BdError) return bdErrorResult(outline);
+
+			// The index is needed to find existing children on re-runs
+			const index = await loadIssueIndex(runBd, reader, context.abort);
+			if (index instanceof BdError) return bdErrorResult(index);
+
+			const plan = planEpic(outline, index, args.epic);
+			if (plan instanceof BdError) return bdErrorResult(plan);
+
+			let tree = plan.tree;
+			if (plan.operations.length > 0) {
+				const result = await runBatch(runBd, plan.operations, {
+					index,
+					signal: context.abort,
+				});
+				if (result instanceof BdError) return bdErrorResult(result);
+				tree = resolvePlanIds(tree, result.handles);
+			}
+
+			return formatJson({ ...countPlanActions(tree), tree });
+		},
+	});
+
 export const createBdEpics = (runBd: BdRunner) =>
 	tool({
 		description: "List all epics.",
@@ -538,12 +1723,15 @@ export const createBdEpics = (runBd: BdRunner) =>
 				.optional()
 				.describe("Filter by status"),
 		},
-		async execute(args) {
+		async execute(args, context) {
 			// Epics are issues with -t epic
 			const flags: string[] = ["-t", "epic", "--json"];
 			if (args.status && args.status !== "all") flags.push("-s", args.status);
 
-			return runBd(["list", ...flags], { successMessage: "No epics" });
+			return runBdQuery(runBd, ["list", ...flags], parseIssueList, {
+				emptyMessage: "No epics",
+				signal: context.abort,
+			});
 		},
 	});
 
@@ -553,9 +1741,11 @@ export const createBdEpicShow = (runBd: BdRunner) =>
 		args: {
 			id: tool.schema.string().describe("Epic ID"),
 		},
-		async execute(args) {
+		async execute(args, context) {
 			// Use show command which displays dependents (child issues)
-			return runBd(["show", args.id, "--json"]);
+			return runBdQuery(runBd, ["show", args.id, "--json"], parseIssueDetails, {
+				signal: context.abort,
+			});
 		},
 	});
 
@@ -567,8 +1757,8 @@ export const createBdStatus = (runBd: BdRunner) =>
 	tool({
 		description: "Show issue database overview with counts by status.",
 		args: {},
-		async execute() {
-			return runBd(["status", "--json"]);
+		async execute(_args, context) {
+			return runBdTool(runBd, ["status", "--json"], { signal: context.abort });
 		},
 	});
 
@@ -576,8 +1766,8 @@ export const createBdStats = (runBd: BdRunner) =>
 	tool({
 		description: "Show detailed statistics about issues.",
 		args: {},
-		async execute() {
-			return runBd(["stats", "--json"]);
+		async execute(_args, context) {
+			return runBdTool(runBd, ["stats", "--json"], { signal: context.abort });
 		},
 	});
 
@@ -585,8 +1775,11 @@ export const createBdSync = (runBd: BdRunner) =>
 	tool({
 		description: "Synchronize issues with git remote.",
 		args: {},
-		async execute() {
-			return runBd(["sync"], { successMessage: "Sync completed" });
+		async execute(_args, context) {
+			return runBdTool(runBd, ["sync"], {
+				successMessage: "Sync completed",
+				signal: context.abort,
+			});
 		},
 	});
 
@@ -594,8 +1787,8 @@ export const createBdInfo = (runBd: BdRunner) =>
 	tool({
 		description: "Show database and daemon information.",
 		args: {},
-		async execute() {
-			return runBd(["info", "--json"]);
+		async execute(_args, context) {
+			return runBdTool(runBd, ["info", "--json"], { signal: context.abort });
 		},
 	});
 
@@ -603,8 +1796,10 @@ export const createBdValidate = (runBd: BdRunner) =>
 	tool({
 		description: "Run comprehensive database health checks.",
 		args: {},
-		async execute() {
-			return runBd(["validate", "--json"]);
+		async execute(_args, context) {
+			return runBdTool(runBd, ["validate", "--json"], {
+				signal: context.abort,
+			});
 		},
 	});
 
@@ -612,8 +1807,35 @@ export const createBdDoctor = (runBd: BdRunner) =>
 	tool({
 		description: "Check beads installation health and diagnose issues.",
 		args: {},
+		async execute(_args, context) {
+			return runBdTool(runBd, ["doctor"], { signal: context.abort });
+		},
+	});
+
+export const createBdWorkspaces = (
+	discovery: WorkspaceDiscovery,
+	current: Workspace,
+) =>
+	tool({
+		description:
+			"List the beads workspaces (.beads databases) in this repository. Pass a workspace name to other bd_* tools to target it.",
+		args: {},
 		async execute() {
-			return runBd(["doctor"]);
+			if (discovery.workspaces.length === 0) {
+				return `No .beads directory found in ${discovery.repoRoot}`;
+			}
+			const width = Math.max(
+				...discovery.workspaces.map((ws) => ws.name.length),
+			);
+			const lines = discovery.workspaces.map(
+				(ws) =>
+					`${ws.root === current.root ? "*" : " "} ${ws.name.padEnd(width)}  ${ws.root}`,
+			);
+			const notes = [`Default workspace (*): ${current.name}`];
+			if (discovery.workspaces.length > 1) {
+				notes.push('bd_list with workspace: "all" lists every workspace.');
+			}
+			return [...lines, "", ...notes].join("\n");
 		},
 	});
 
@@ -625,9 +1847,10 @@ export const createBdTemplates = (runBd: BdRunner) =>
 	tool({
 		description: "List available issue templates.",
 		args: {},
-		async execute() {
-			return runBd(["template", "list", "--json"], {
+		async execute(_args, context) {
+			return runBdTool(runBd, ["template", "list", "--json"], {
 				successMessage: "No templates",
+				signal: context.abort,
 			});
 		},
 	});
@@ -643,7 +1866,7 @@ export const createBdCreateFromTemplate = (runBd: BdRunner) =>
 				.optional()
 				.describe("Template variables as key=value pairs, comma-separated"),
 		},
-		async execute(args) {
+		async execute(args, context) {
 			const flags: string[] = [
 				"--template",
 				args.template,
@@ -656,8 +1879,9 @@ export const createBdCreateFromTemplate = (runBd: BdRunner) =>
 				}
 			}
 
-			return runBd(["create", ...flags], {
+			return runBdTool(runBd, ["create", ...flags], {
 				successMessage: "Issue created from template",
+				signal: context.abort,
 			});
 		},
 	});
@@ -675,12 +1899,13 @@ export const createBdCleanup = (runBd: BdRunner) =>
 				.optional()
 				.describe("Only cleanup issues closed more than N days ago"),
 		},
-		async execute(args) {
+		async execute(args, context) {
 			const flags: string[] = [];
 			if (args.older_than) flags.push("--older-than", String(args.older_than));
 
-			return runBd(["cleanup", ...flags], {
+			return runBdTool(runBd, ["cleanup", ...flags], {
 				successMessage: "Cleanup completed",
+				signal: context.abort,
 			});
 		},
 	});
@@ -695,12 +1920,13 @@ export const createBdCompact = (runBd: BdRunner) =>
 				.optional()
 				.describe("Only compact issues closed more than N days ago"),
 		},
-		async execute(args) {
+		async execute(args, context) {
 			const flags: string[] = [];
 			if (args.older_than) flags.push("--older-than", String(args.older_than));
 
-			return runBd(["compact", ...flags], {
+			return runBdTool(runBd, ["compact", ...flags], {
 				successMessage: "Compact completed",
+				signal: context.abort,
 			});
 		},
 	});
@@ -714,12 +1940,13 @@ export const createBdDuplicates = (runBd: BdRunner) =>
 				.optional()
 				.describe("Similarity threshold 0-100 (default: 80)"),
 		},
-		async execute(args) {
+		async execute(args, context) {
 			const flags: string[] = ["--json"];
 			if (args.threshold) flags.push("--threshold", String(args.threshold));
 
-			return runBd(["duplicates", ...flags], {
+			return runBdTool(runBd, ["duplicates", ...flags], {
 				successMessage: "No duplicates found",
+				signal: context.abort,
 			});
 		},
 	});
@@ -733,16 +1960,284 @@ export const createBdRepairDeps = (runBd: BdRunner) =>
 				.optional()
 				.describe("Actually fix the issues (default: dry-run)"),
 		},
-		async execute(args) {
+		async execute(args, context) {
 			const flags: string[] = [];
 			if (args.fix) flags.push("--fix");
 
-			return runBd(["repair-deps", ...flags], {
+			return runBdTool(runBd, ["repair-deps", ...flags], {
 				successMessage: "No orphaned dependencies",
+				signal: context.abort,
 			});
 		},
 	});
 
+// ============================================================================
+// Tool Factories - Import & Export
+// ============================================================================
+
+const todoLocation = (item: TodoItem) => ({
+	file: item.file,
+	line: item.line,
+	kind: item.kind,
+	title: item.text,
+	fingerprint: item.fingerprint,
+});
+
+export const createBdImportTodos = (
+	runBd: BdRunner,
+	directory: string,
+	reader?: JsonlReader,
+) =>
+	tool({
+		description:
+			"Import markdown checklist items (- [ ]) and TODO/FIXME comments from the working tree as issues, one per item, with the file and line in the body. Respects .gitignore. Each issue gets a todo-<hash> fingerprint label so re-running skips items already imported. Use dry_run to preview first.",
+		args: {
+			path: tool.schema
+				.string()
+				.optional()
+				.describe("Only scan this file or directory (relative path)"),
+			dry_run: tool.schema
+				.boolean()
+				.optional()
+				.describe("List what would be imported without creating issues"),
+			rewrite: tool.schema
+				.boolean()
+				.optional()
+				.describe(
+					"Add the new issue ID to each source line, e.g. TODO(proj-12): ...",
+				),
+			limit: tool.schema
+				.number()
+				.optional()
+				.describe("Maximum number of items to import (default: 50)"),
+		},
+		async execute(args, context) {
+			const git = createGitRunner(directory);
+			const files = await listScanFiles(
+				git,
+				directory,
+				args.path,
+				context.abort,
+			);
+			if (files instanceof BdError) return bdErrorResult(files);
+			const items = scanTodos(directory, files);
+
+			// Fingerprints are matched against every issue, closed ones included
+			const index = await loadIssueIndex(runBd, reader, context.abort);
+			if (index instanceof BdError) return bdErrorResult(index);
+			const imported = new Set(
+				index.issues.flatMap((issue) =>
+					(issue.labels ?? []).filter((label) =>
+						label.startsWith(TODO_FINGERPRINT_PREFIX),
+					),
+				),
+			);
+
+			const pending: TodoItem[] = [];
+			const skipped = { already_imported: 0, references_issue: 0 };
+			for (const item of items) {
+				if (imported.has(item.fingerprint)) skipped.already_imported++;
+				else if (referencesIssue(item.source, index))
+					skipped.references_issue++;
+				else pending.push(item);
+			}
+			const selected = pending.slice(0, args.limit ?? 50);
+			const remaining = pending.length - selected.length;
+
+			if (args.dry_run) {
+				return formatJson({
+					dry_run: true,
+					proposed: selected.map(todoLocation),
+					remaining,
+					skipped,
+				});
+			}
+			if (selected.length === 0) {
+				return formatJson({ created: [], remaining, skipped });
+			}
+
+			const result = await runBatch(
+				runBd,
+				selected.map((item, i) => ({
+					op: "create" as const,
+					handle: `todo${i + 1}`,
+					title:
+						item.text.length > 120 ? `${item.text.slice(0, 119)}…` : item.text,
+					body: `Imported from \`${item.file}:${item.line}\`:\n\n    ${item.source.trim()}`,
+					type: item.kind === "fixme" ? "bug" : "task",
+					labels: item.fingerprint,
+				})),
+				{ index, signal: context.abort },
+			);
+			if (result instanceof BdError) return bdErrorResult(result);
+
+			const created = selected.map((item, i) => ({
+				id: result.handles[`todo${i + 1}`],
+				...todoLocation(item),
+			}));
+			const rewrites = args.rewrite
+				? applyTodoRewrites(
+						directory,
+						selected.map((item, i) => ({ item, id: created[i].id })),
+					)
+				: undefined;
+
+			return formatJson({ created, remaining, skipped, rewrites });
+		},
+	});
+
+export const createBdExport = (
+	runBd: BdRunner,
+	directory: string,
+	reader?: JsonlReader,
+) =>
+	tool({
+		description:
+			"Export issues as a Markdown status report (grouped by epic and status), CSV, or GitHub-issues JSON for migration. Takes the same filters as bd_list plus an epic scope. Writes to a file inside the project when output is given, otherwise returns the result.",
+		args: {
+			format: tool.schema
+				.enum(["markdown", "csv", "github"])
+				.optional()
+				.describe("Output format (default: markdown)"),
+			status: tool.schema
+				.enum(["open", "closed", "in_progress", "all"])
+				.optional()
+				.describe("Filter by status (default: all)"),
+			label: tool.schema.string().optional().describe("Filter by label"),
+			priority: tool.schema
+				.enum(PRIORITY_NAMES)
+				.optional()
+				.describe("Filter by priority"),
+			assignee: tool.schema.string().optional().describe("Filter by assignee"),
+			type: tool.schema
+				.enum(ISSUE_TYPES)
+				.optional()
+				.describe("Filter by issue type"),
+			epic: tool.schema
+				.string()
+				.optional()
+				.describe("Only issues under this epic"),
+			limit: tool.schema
+				.number()
+				.optional()
+				.describe("Maximum number of issues to export"),
+			title: tool.schema
+				.string()
+				.optional()
+				.describe('Markdown report heading (default: "Issue Report")'),
+			output: tool.schema
+				.string()
+				.optional()
+				.describe(
+					"File to write, relative to the project (e.g. reports/status.md)",
+				),
+		},
+		async execute(args, context) {
+			const index = await loadIssueIndex(runBd, reader, context.abort);
+			if (index instanceof BdError) return bdErrorResult(index);
+			if (args.epic && !index.byId.has(args.epic)) {
+				return bdErrorResult(new IssueNotFoundError(args.epic));
+			}
+
+			const issues = selectExportIssues(index, {
+				status: args.status ?? "all",
+				label: args.label,
+				priority: args.priority ? priorityLevel(args.priority) : undefined,
+				assignee: args.assignee,
+				type: args.type,
+				epic: args.epic,
+				limit: args.limit,
+			});
+			const content = renderExport(index, issues, args.format ?? "markdown", {
+				title: args.title,
+			});
+			if (!args.output) return content;
+
+			const written = writeExport(directory, args.output, content);
+			if (written instanceof BdError) return bdErrorResult(written);
+			return `Exported ${issues.length} ${issues.length === 1 ? "issue" : "issues"} to ${written}`;
+		},
+	});
+
+export const createBdReleaseNotes = (
+	runBd: BdRunner,
+	directory: string,
+	reader?: JsonlReader,
+) =>
+	tool({
+		description:
+			"Generate a changelog section from the issues closed since a git ref or tag, by comparing .beads/issues.jsonl at that ref with the current issues. Groups entries by type (features, fixes, other) and epic, with issue IDs and close reasons.",
+		args: {
+			since: tool.schema
+				.string()
+				.describe("Git ref or tag of the previous release (e.g. v1.2.0)"),
+			format: tool.schema
+				.enum(["keep-a-changelog", "conventional"])
+				.optional()
+				.describe("Changelog style (default: keep-a-changelog)"),
+			version: tool.schema
+				.string()
+				.optional()
+				.describe('Version for the heading (default: "Unreleased")'),
+		},
+		async execute(args, context) {
+			const before = await loadIssuesAtRef(
+				createGitRunner(directory),
+				args.since,
+				context.abort,
+			);
+			if (before instanceof BdError) return bdErrorResult(before);
+			const index = await loadIssueIndex(runBd, reader, context.abort);
+			if (index instanceof BdError) return bdErrorResult(index);
+
+			const entries = collectReleaseEntries(
+				index,
+				closedSince(before, index.issues),
+			);
+			if (entries.length === 0) return `No issues closed since ${args.since}`;
+			return renderReleaseNotes(entries, {
+				format: args.format ?? "keep-a-changelog",
+				version: args.version,
+			});
+		},
+	});
+
+export const createBdDiff = (runBd: BdRunner, directory: string) =>
+	tool({
+		description:
+			"Show what changed in the issue tracker between two git refs, or between a ref and the current issues: issues created, deleted, closed or reopened, field changes (title, status, priority, assignee, type, description), labels and dependencies added or removed, and new comments.",
+		args: {
+			from: tool.schema
+				.string()
+				.describe("Git ref to compare from (e.g. main, v1.2.0, HEAD~5)"),
+			to: tool.schema
+				.string()
+				.optional()
+				.describe("Git ref to compare to (default: the current issues)"),
+			format: tool.schema
+				.enum(["summary", "json"])
+				.optional()
+				.describe("Readable summary (default) or structured JSON"),
+		},
+		async execute(args, context) {
+			const git = createGitRunner(directory);
+			const before = await loadIssuesAtRef(git, args.from, context.abort);
+			if (before instanceof BdError) return bdErrorResult(before);
+			// The current side always comes from bd: issues.jsonl may lag
+			// behind the database until the next sync
+			const after = args.to
+				? await loadIssuesAtRef(git, args.to, context.abort)
+				: await exportIssues(runBd, context.abort);
+			if (after instanceof BdError) return bdErrorResult(after);
+
+			const diff = diffIssues(before, after, {
+				from: args.from,
+				to: args.to ?? "current issues",
+			});
+			return args.format === "json" ? formatJson(diff) : renderIssueDiff(diff);
+		},
+	});
+
 // ============================================================================
 // Tool Factories - AI Integration
 // ============================================================================
@@ -752,8 +2247,8 @@ export const createBdPrime = (runBd: BdRunner) =>
 		description:
 			"Output AI-optimized workflow context for understanding the current beads state.",
 		args: {},
-		async execute() {
-			return runBd(["prime"]);
+		async execute(_args, context) {
+			return runBdTool(runBd, ["prime"], { signal: context.abort });
 		},
 	});
 
@@ -762,31 +2257,36 @@ export const createBdPrime = (runBd: BdRunner) =>
 // ============================================================================
 
 /**
- * Create all beads tools using the provided bd runner
+ * Create all beads tools using the provided bd runner.
+ * When a JSONL reader is given, read-only tools query issues.jsonl natively.
  */
-export function createAllTools(runBd: BdRunner) {
+export function createAllTools(runBd: BdRunner, reader?: JsonlReader) {
 	return {
-		bd_list: createBdList(runBd),
-		bd_show: createBdShow(runBd),
-		bd_create: createBdCreate(runBd),
-		bd_update: createBdUpdate(runBd),
-		bd_close: createBdClose(runBd),
+		bd_list: createBdList(runBd, reader),
+		bd_show: createBdShow(runBd, reader),
+		bd_create: createBdCreate(runBd, reader),
+		bd_update: createBdUpdate(runBd, reader),
+		bd_close: createBdClose(runBd, reader),
 		bd_reopen: createBdReopen(runBd),
 		bd_delete_issue: createBdDeleteIssue(runBd),
-		bd_ready: createBdReady(runBd),
-		bd_blocked: createBdBlocked(runBd),
-		bd_search: createBdSearch(runBd),
-		bd_count: createBdCount(runBd),
-		bd_stale: createBdStale(runBd),
+		bd_batch: createBdBatch(runBd, reader),
+		bd_ready: createBdReady(runBd, reader),
+		bd_blocked: createBdBlocked(runBd, reader),
+		bd_plan: createBdPlan(runBd, reader),
+		bd_search: createBdSearch(runBd, reader),
+		bd_count: createBdCount(runBd, reader),
+		bd_stale: createBdStale(runBd, reader),
 		bd_comment: createBdComment(runBd),
 		bd_comments: createBdComments(runBd),
 		bd_label_add: createBdLabelAdd(runBd),
 		bd_label_remove: createBdLabelRemove(runBd),
-		bd_labels: createBdLabels(runBd),
-		bd_dep_add: createBdDepAdd(runBd),
+		bd_labels: createBdLabels(runBd, reader),
+		bd_dep_add: createBdDepAdd(runBd, reader),
 		bd_dep_remove: createBdDepRemove(runBd),
 		bd_deps: createBdDeps(runBd),
+		bd_graph: createBdGraph(runBd, reader),
 		bd_epic_create: createBdEpicCreate(runBd),
+		bd_epic_plan: createBdEpicPlan(runBd, reader),
 		bd_epics: createBdEpics(runBd),
 		bd_epic_show: createBdEpicShow(runBd),
 		bd_status: createBdStatus(runBd),
@@ -804,3 +2304,39 @@ export function createAllTools(runBd: BdRunner) {
 		bd_prime: createBdPrime(runBd),
 	};
 }
+
+/**
+ * What the tools working on a workspace directory need besides the runner
+ */
+export type WorkspaceToolsOptions = {
+	/** Directory containing `.beads` */
+	directory: string;
+	reader?: JsonlReader;
+	close: Omit<CloseGates, "directory">;
+	sessions: SessionTracker;
+	/** Runner for the workspace a session's issue is in (default: runBd) */
+	runnerFor?: (workspace: string) => BdRunner;
+	leases: LeaseStore;
+};
+
+/**
+ * createAllTools plus the tools that read the workspace's files and git
+ * history, track sessions or hold leases
+ */
+export const createWorkspaceTools = (
+	runBd: BdRunner,
+	options: WorkspaceToolsOptions,
+) => {
+	const { directory, reader, sessions, runnerFor, leases } = options;
+	return {
+		...createAllTools(runBd, reader),
+		bd_close: createBdClose(runBd, reader, { directory, ...options.close }),
+		bd_current: createBdCurrent(runBd, sessions, runnerFor),
+		bd_claim: createBdClaim(runBd, leases),
+		bd_release: createBdRelease(runBd, leases),
+		bd_import_todos: createBdImportTodos(runBd, directory, reader),
+		bd_export: createBdExport(runBd, directory, reader),
+		bd_release_notes: createBdReleaseNotes(runBd, directory, reader),
+		bd_diff: createBdDiff(runBd, directory),
+	};
+};
@@ -0,0 +1,224 @@
+/**
+ * Workspace Discovery
+ *
+ * OpenCode may start in a subpackage of a monorepo, or in a repository
+ * with several beads databases. Discovery walks up from the working
+ * directory to the git root and scans the repository for `.beads`
+ * directories; each one is a workspace. The nearest workspace is the
+ * default, and every bd_* tool takes a `workspace` argument to target
+ * another one.
+ */
+
+import { type ToolDefinition, tool } from "@opencode-ai/plugin/tool";
+import { type Dirent, existsSync, readdirSync } from "node:fs";
+import { dirname, join, relative, resolve, sep } from "node:path";
+import { BdError, bdErrorResult, InvalidArgumentError } from "./errors.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type Workspace = {
+	/** Path relative to the repository root ("." for the root itself) */
+	name: string;
+	/** Directory that contains `.beads` */
+	root: string;
+};
+
+export type WorkspaceDiscovery = {
+	/** Git root, or the working directory outside a repository */
+	repoRoot: string;
+	/** Every workspace found, nearest to the working directory first */
+	workspaces: Workspace[];
+};
+
+/** `workspace` value that lists across every workspace */
+export const ALL_WORKSPACES = "all";
+
+/** Directories never searched for workspaces */
+const SKIPPED_DIRS = new Set([
+	"node_modules",
+	"dist",
+	"build",
+	"target",
+	"vendor",
+]);
+
+/** How deep below the repository root to look for `.beads` */
+const MAX_SCAN_DEPTH = 4;
+
+// ============================================================================
+// Discovery
+// ============================================================================
+
+const hasBeads = (directory: string): boolean =>
+	existsSync(join(directory, ".beads"));
+
+/**
+ * Nearest directory at or above `directory` containing `.git`, or null
+ */
+export const findGitRoot = (directory: string): string | null => {
+	let current = resolve(directory);
+	while (true) {
+		if (existsSync(join(current, ".git"))) return current;
+		const parent = dirname(current);
+		if (parent === current) return null;
+		current = parent;
+	}
+};
+
+/**
+ * Directories from `directory` up to `root`, nearest first
+ */
+const ancestors = (directory: string, root: string): string[] => {
+	const chain = [resolve(directory)];
+	let current = chain[0];
+	while (current !== root && current.startsWith(root + sep)) {
+		current = dirname(current);
+		chain.push(current);
+	}
+	return chain;
+};
+
+/**
+ * Nearest directory with a `.beads` directory, walking up to the git root
+ * (or checking only `directory` outside a repository)
+ */
+export const findBeadsRoot = (directory: string): string | null => {
+	const root = findGitRoot(directory) ?? resolve(directory);
+	return ancestors(directory, root).find(hasBeads) ?? null;
+};
+
+/**
+ * Directories below `root` containing `.beads`, shallowest first
+ */
+const scanBelow = (root: string): string[] => {
+	const found: string[] = [];
+	let level = [root];
+	for (let depth = 1; depth <= MAX_SCAN_DEPTH && level.length > 0; depth++) {
+		const next: string[] = [];
+		for (const directory of level) {
+			let entries: Dirent[];
+			try {
+				entries = readdirSync(directory, { withFileTypes: true });
+			} catch {
+				continue;
+			}
+			for (const entry of entries) {
+				if (!entry.isDirectory()) continue;
+				if (entry.name.startsWith(".") || SKIPPED_DIRS.has(entry.name)) {
+					continue;
+				}
+				const child = join(directory, entry.name);
+				if (hasBeads(child)) found.push(child);
+				next.push(child);
+			}
+		}
+		level = next.sort();
+	}
+	return found;
+};
+
+/**
+ * Find every workspace in the repository around `directory`. Workspaces
+ * at or above `directory` come first (nearest first), then those below it,
+ * then the rest of the repository.
+ */
+export const discoverWorkspaces = (directory: string): WorkspaceDiscovery => {
+	const start = resolve(directory);
+	const repoRoot = findGitRoot(start) ?? start;
+
+	const roots = ancestors(start, repoRoot).filter(hasBeads);
+	const below = scanBelow(repoRoot).filter((root) => !roots.includes(root));
+	const inside = (root: string) => root.startsWith(start + sep);
+	roots.push(...below.filter(inside), ...below.filter((root) => !inside(root)));
+
+	return {
+		repoRoot,
+		workspaces: roots.map((root) => ({
+			name: relative(repoRoot, root) || ".",
+			root,
+		})),
+	};
+};
+
+/**
+ * Workspace tools use when none is given: the nearest one, or the working
+ * directory itself when the repository has none
+ */
+export const defaultWorkspace = (
+	discovery: WorkspaceDiscovery,
+	directory: string,
+): Workspace =>
+	discovery.workspaces[0] ?? {
+		name: relative(discovery.repoRoot, resolve(directory)) || ".",
+		root: resolve(directory),
+	};
+
+/**
+ * Find a workspace by name, or by a path to its directory, its `.beads`
+ * directory or a file inside it (relative paths start at `directory`)
+ */
+export const resolveWorkspace = (
+	discovery: WorkspaceDiscovery,
+	value: string,
+	directory: string,
+): Workspace | InvalidArgumentError => {
+	const name = value.trim().replace(/[/\\]+$/, "") || ".";
+	const byName = discovery.workspaces.find((ws) => ws.name === name);
+	if (byName) return byName;
+
+	// Paths into a .beads directory (e.g. its database file) name its parent
+	const path = resolve(directory, name);
+	const segments = path.split(sep);
+	const beadsAt = segments.lastIndexOf(".beads");
+	const root = beadsAt > 0 ? segments.slice(0, beadsAt).join(sep) : path;
+	const byPath = discovery.workspaces.find((ws) => ws.root === root);
+	if (byPath) return byPath;
+
+	return new InvalidArgumentError(
+		"workspace",
+		`Unknown workspace: ${value}`,
+		discovery.workspaces.length > 0
+			? `Known workspaces: ${discovery.workspaces.map((ws) => ws.name).join(", ")} (see bd_workspaces)`
+			: "No .beads directory was found in this repository; run `bd init` first.",
+	);
+};
+
+// ============================================================================
+// Tool Routing
+// ============================================================================
+
+/**
+ * Add an optional `workspace` argument to each tool. Calls without it run
+ * the given tool; calls with it run the tool `select` returns for that
+ * workspace.
+ */
+export const withWorkspaceArg = (
+	tools: Record<string, ToolDefinition>,
+	select: (name: string, workspace: string) => ToolDefinition | BdError,
+): Record<string, ToolDefinition> =>
+	Object.fromEntries(
+		Object.entries(tools).map(([name, base]) => [
+			name,
+			tool({
+				description: base.description,
+				args: {
+					...base.args,
+					workspace: tool.schema
+						.string()
+						.optional()
+						.describe(
+							"Beads workspace to use: a name from bd_workspaces or a path (default: the nearest)",
+						),
+				},
+				async execute(args, context) {
+					const { workspace, ...rest } = args;
+					if (workspace === undefined) return base.execute(rest, context);
+					const target = select(name, workspace);
+					if (target instanceof BdError) return bdErrorResult(target);
+					return target.execute(rest, context);
+				},
+			}),
+		]),
+	);
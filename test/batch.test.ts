@@ -0,0 +1,90 @@
+import { describe, expect, test } from "bun:test";
+import { runBatch } from "../src/batch.js";
+import { buildIssueIndex, type JsonlIssue } from "../src/jsonl.js";
+import { createMemoryBdRunner } from "../src/memory.js";
+import type { BdRunner } from "../src/tools.js";
+
+const issue = (id: string, assignee?: string): JsonlIssue => ({
+	id,
+	title: `Issue ${id}`,
+	status: "open",
+	priority: 2,
+	issue_type: "task",
+	assignee,
+	created_at: "2026-01-01T00:00:00Z",
+	updated_at: "2026-01-01T00:00:00Z",
+});
+
+/**
+ * Run an assignee update followed by a step that fails, so the update is
+ * rolled back. The index knows an issue the runner does not.
+ */
+const updateThenFail = async (before: string | undefined, after: string) => {
+	const runBd = createMemoryBdRunner({ issues: [issue("mem-1", before)] });
+	const index = buildIssueIndex([issue("mem-1", before), issue("mem-9")]);
+	const result = await runBatch(
+		runBd,
+		[
+			{ op: "update", id: "mem-1", assignee: after },
+			{ op: "close", id: "mem-9" },
+		],
+		{ index },
+	);
+	return { result, assignee: runBd.issues()[0].assignee ?? "" };
+};
+
+describe("runBatch rollback", () => {
+	test("restores an assignee the batch cleared", async () => {
+		const { result, assignee } = await updateThenFail("alice", "");
+		expect(result).toBeInstanceOf(Error);
+		expect(assignee).toBe("alice");
+	});
+
+	test("clears an assignee the batch set on an unassigned issue", async () => {
+		const { result, assignee } = await updateThenFail(undefined, "bob");
+		expect(result).toBeInstanceOf(Error);
+		expect(assignee).toBe("");
+	});
+
+	test("an empty assignee unassigns the issue", async () => {
+		const runBd = createMemoryBdRunner({ issues: [issue("mem-1", "alice")] });
+		const result = await runBatch(runBd, [
+			{ op: "update", id: "mem-1", assignee: "" },
+		]);
+		expect(result).not.toBeInstanceOf(Error);
+		expect(runBd.issues()[0].assignee ?? "").toBe("");
+	});
+});
+
+describe("runBatch recovery", () => {
+	test("rolls back an issue created without a JSON reply", async () => {
+		const memory = createMemoryBdRunner({ issues: [issue("mem-1")] });
+		const runBd: BdRunner = async (args, options) => {
+			const result = await memory(args, options);
+			return args[0] === "create"
+				? { ...result, json: undefined, stdout: "" }
+				: result;
+		};
+		const result = await runBatch(runBd, [
+			{ op: "create", title: "Silent create" },
+			{ op: "close", id: "mem-9" },
+		]);
+		expect(result).toBeInstanceOf(Error);
+		expect(memory.issues().map((i) => i.title)).toEqual(["Issue mem-1"]);
+	});
+
+	test("leaves an issue closed before the batch closed", async () => {
+		const closed = { ...issue("mem-1"), status: "closed" };
+		const runBd = createMemoryBdRunner({ issues: [closed] });
+		const result = await runBatch(
+			runBd,
+			[
+				{ op: "close", id: "mem-1" },
+				{ op: "close", id: "mem-9" },
+			],
+			{ index: buildIssueIndex([closed, issue("mem-9")]) },
+		);
+		expect(result).toBeInstanceOf(Error);
+		expect(runBd.issues()[0].status).toBe("closed");
+	});
+});
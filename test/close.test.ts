@@ -0,0 +1,24 @@
+import { describe, expect, test } from "bun:test";
+import { tmpdir } from "node:os";
+import { runVerification, type VerificationResult } from "../src/close.js";
+
+const verify = async (command: string, timeoutMs: number) =>
+	(await runVerification(command, tmpdir(), {
+		timeoutMs,
+	})) as VerificationResult;
+
+describe("runVerification", () => {
+	test("the timeout stops commands the shell started", async () => {
+		const run = await verify("sleep 5; true", 300);
+		expect(run.timedOut).toBe(true);
+		expect(run.passed).toBe(false);
+		expect(run.durationMs).toBeLessThan(2_000);
+	});
+
+	test("settles when the shell exits despite background processes", async () => {
+		const run = await verify("sleep 5 & echo done", 10_000);
+		expect(run.passed).toBe(true);
+		expect(run.output).toBe("done");
+		expect(run.durationMs).toBeLessThan(2_000);
+	});
+});
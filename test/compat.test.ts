@@ -0,0 +1,48 @@
+import { describe, expect, test } from "bun:test";
+import { adaptArgs, type CommandFlags, parseBdVersion } from "../src/compat.js";
+
+/** `bd update` flags of a release that spells --parent as --epic */
+const flags: CommandFlags = new Map([
+	["--title", true],
+	["--status", true],
+	["-s", true],
+	["--epic", true],
+	["--json", false],
+]);
+
+describe("adaptArgs", () => {
+	test("replaces an aliased flag with the installed spelling", () => {
+		expect(adaptArgs(["update", "t-1", "--parent", "t-2"], flags)).toEqual({
+			args: ["update", "t-1", "--epic", "t-2"],
+		});
+	});
+
+	test("reports an aliased flag the installed bd cannot spell", () => {
+		expect(adaptArgs(["update", "t-1", "--parent", "t-2"], new Map())).toEqual({
+			unsupported: "--parent",
+		});
+	});
+
+	test("leaves positional values that start with - alone", () => {
+		expect(adaptArgs(["update", "-x", "--title", "-p"], flags)).toEqual({
+			args: ["update", "-x", "--title", "-p"],
+		});
+	});
+
+	test("leaves everything after -- alone", () => {
+		expect(adaptArgs(["update", "t-1", "--", "--parent"], flags)).toEqual({
+			args: ["update", "t-1", "--", "--parent"],
+		});
+	});
+
+	test("uses the version mapping when help cannot be read", () => {
+		const args = ["update", "t-1", "--parent", "t-2"];
+		expect(adaptArgs(args, null, parseBdVersion("bd version 0.1.9"))).toEqual({
+			args: ["update", "t-1", "--epic", "t-2"],
+		});
+		expect(adaptArgs(args, null, parseBdVersion("bd version 0.9.2"))).toEqual({
+			args,
+		});
+		expect(adaptArgs(args, null)).toEqual({ args });
+	});
+});
@@ -0,0 +1,118 @@
+import { describe, expect, test } from "bun:test";
+import {
+	BEADS_CONTEXT_INTRO,
+	BEADS_WORKFLOW_RULES,
+	buildSessionContext,
+	estimateTokens,
+	loadProjectSnapshot,
+	type ProjectSnapshot,
+	type SessionContextOptions,
+} from "../src/context.js";
+import type { JsonlIssue } from "../src/jsonl.js";
+import { createMemoryBdRunner } from "../src/memory.js";
+
+const issue = (n: number, status: string): JsonlIssue => ({
+	id: `t-${n}`,
+	title: `Issue number ${n} with a reasonably long title`,
+	status,
+	priority: 2,
+	issue_type: "task",
+	created_at: "2026-01-01T00:00:00Z",
+	updated_at: "2026-01-01T00:00:00Z",
+});
+
+const snapshot: ProjectSnapshot = {
+	inProgress: [issue(1, "in_progress")],
+	ready: Array.from({ length: 40 }, (_, i) => issue(i + 2, "open")),
+	blockedCount: 3,
+	recentlyClosed: [issue(50, "closed")],
+};
+
+/**
+ * Live state section of a built context
+ */
+const stateOf = (context: string): string => {
+	const start = context.indexOf("## Current State");
+	if (start < 0) return "";
+	const end = context.indexOf("\n\n## ", start);
+	return context.slice(start, end < 0 ? context.lastIndexOf("\n</") : end);
+};
+
+const options = (maxTokens: number): SessionContextOptions => ({
+	maxTokens,
+	readyLimit: 40,
+	recentlyClosedLimit: 5,
+});
+
+describe("buildSessionContext", () => {
+	const intro = estimateTokens(BEADS_CONTEXT_INTRO);
+
+	for (const budget of [0, 5, 40, 120, 300]) {
+		test(`state fits a budget of ${budget} tokens`, () => {
+			const state = stateOf(
+				buildSessionContext(snapshot, options(intro + budget)),
+			);
+			expect(estimateTokens(state)).toBeLessThanOrEqual(budget);
+		});
+	}
+
+	test("marks a truncated state", () => {
+		const state = stateOf(buildSessionContext(snapshot, options(intro + 120)));
+		expect(state).toContain("(truncated - use `bd_list` for more)");
+	});
+
+	test("counts the unavailable notice", () => {
+		expect(stateOf(buildSessionContext(null, options(intro + 10)))).toBe("");
+		expect(stateOf(buildSessionContext(null, options(intro + 100)))).toContain(
+			"unavailable",
+		);
+	});
+
+	test("adds the workflow rules after the state when they fit", () => {
+		const context = buildSessionContext(snapshot, options(2_000));
+		const state = stateOf(context);
+		expect(state).not.toContain("TASK TRACKING RULES");
+		expect(context).toContain(`${state}\n\n${BEADS_WORKFLOW_RULES.trim()}`);
+	});
+
+	test("points the workflow rules at the bd_* tools, not the shell", () => {
+		expect(BEADS_WORKFLOW_RULES).not.toMatch(
+			/`bd (ready|create|update|close)\b/,
+		);
+		expect(BEADS_WORKFLOW_RULES).toContain("`bd_claim`");
+	});
+});
+
+describe("loadProjectSnapshot without issues.jsonl", () => {
+	const cli = { load: () => null };
+
+	test("keeps the most recently closed issues", async () => {
+		const closed = [1, 2, 3].map((n) => ({
+			...issue(n, "closed"),
+			priority: n,
+			closed_at: `2026-02-0${n}T00:00:00Z`,
+		}));
+		const runBd = createMemoryBdRunner({ issues: closed });
+		const state = await loadProjectSnapshot(cli, runBd, {
+			...options(1_000),
+			recentlyClosedLimit: 2,
+		});
+		expect(state?.recentlyClosed.map((i) => i.id)).toEqual(["t-3", "t-2"]);
+	});
+
+	test("fills the ready list around in-progress work", async () => {
+		const runBd = createMemoryBdRunner({
+			issues: [
+				{ ...issue(1, "in_progress"), priority: 0 },
+				{ ...issue(2, "in_progress"), priority: 0 },
+				issue(3, "open"),
+				issue(4, "open"),
+			],
+		});
+		const state = await loadProjectSnapshot(cli, runBd, {
+			...options(1_000),
+			readyLimit: 2,
+		});
+		expect(state?.ready.map((i) => i.id)).toEqual(["t-3", "t-4"]);
+	});
+});
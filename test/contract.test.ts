@@ -0,0 +1,123 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { execFileSync } from "node:child_process";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createBdRunner } from "../src/tools.js";
+import {
+	BD_CONTRACT_CASES,
+	BD_WORKSPACE_CONTRACT_CASES,
+	type ContractResult,
+	createMemoryBdRunner,
+	runBdContract,
+} from "../src/testing.js";
+
+const git = (cwd: string, ...args: string[]) =>
+	execFileSync(
+		"git",
+		[
+			"-c",
+			"user.name=contract",
+			"-c",
+			"user.email=contract@example.com",
+		].concat(args),
+		{ cwd, stdio: "ignore" },
+	);
+
+/**
+ * Whether a real bd is installed on PATH
+ */
+const hasBd = (() => {
+	try {
+		execFileSync("bd", ["--version"], { stdio: "ignore" });
+		return true;
+	} catch {
+		return false;
+	}
+})();
+
+describe("core tools against the memory runner", () => {
+	let results: ContractResult[] = [];
+	beforeAll(async () => {
+		results = await runBdContract(createMemoryBdRunner());
+	});
+
+	for (const { name } of BD_CONTRACT_CASES) {
+		test(name, () => {
+			expect(results.find((result) => result.name === name)).toEqual({
+				name,
+				passed: true,
+			});
+		});
+	}
+});
+
+describe("workspace tools against the memory runner", () => {
+	let directory = "";
+	let results: ContractResult[] = [];
+	beforeAll(async () => {
+		// A git repository whose HEAD has an issues.jsonl to compare against
+		directory = mkdtempSync(join(tmpdir(), "beads-contract-"));
+		mkdirSync(join(directory, ".beads"));
+		const fixturePath = join(directory, ".beads", "issues.jsonl");
+		writeFileSync(
+			fixturePath,
+			`${JSON.stringify({
+				id: "mem-1",
+				title: "Existing issue",
+				status: "open",
+				priority: 2,
+				issue_type: "task",
+				created_at: "2026-01-01T00:00:00Z",
+				updated_at: "2026-01-01T00:00:00Z",
+			})}\n`,
+		);
+		git(directory, "init", "--quiet");
+		git(directory, "add", ".");
+		git(directory, "commit", "--quiet", "-m", "Initial issues");
+
+		results = await runBdContract(
+			createMemoryBdRunner({ fixturePath }),
+			BD_WORKSPACE_CONTRACT_CASES,
+			directory,
+		);
+	});
+	afterAll(() => {
+		rmSync(directory, { recursive: true, force: true });
+	});
+
+	for (const { name } of BD_WORKSPACE_CONTRACT_CASES) {
+		test(name, () => {
+			expect(results.find((result) => result.name === name)).toEqual({
+				name,
+				passed: true,
+			});
+		});
+	}
+});
+
+describe.skipIf(!hasBd)("core tools against the installed bd", () => {
+	let directory = "";
+	let results: ContractResult[] = [];
+	beforeAll(async () => {
+		directory = mkdtempSync(join(tmpdir(), "beads-contract-bd-"));
+		git(directory, "init", "--quiet");
+		execFileSync("bd", ["init", "--quiet"], {
+			cwd: directory,
+			stdio: "ignore",
+		});
+		results = await runBdContract(createBdRunner(directory));
+	}, 300_000);
+	afterAll(() => {
+		rmSync(directory, { recursive: true, force: true });
+	});
+
+	for (const { name } of BD_CONTRACT_CASES) {
+		test(name, () => {
+			expect(results.find((result) => result.name === name)).toEqual({
+				name,
+				passed: true,
+			});
+		});
+	}
+});
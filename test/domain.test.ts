@@ -0,0 +1,33 @@
+import { describe, expect, test } from "bun:test";
+import { findIssueIds, issuePrefix, parseIssue } from "../src/domain.js";
+
+describe("parseIssue", () => {
+	test("keeps statuses it does not know", () => {
+		const issue = (status?: string) =>
+			parseIssue({ id: "bd-1", title: "Gone", status })?.status;
+		expect(issue("tombstone")).toBe("tombstone");
+		expect(issue("deferred")).toBe("deferred");
+		expect(issue("Done")).toBe("closed");
+		expect(issue(undefined)).toBe("open");
+	});
+});
+
+describe("findIssueIds", () => {
+	test("matches only IDs with a known prefix", () => {
+		expect(
+			findIssueIds("non-blocking fix for bd-12 and bd-a1b2.3", ["bd"]),
+		).toEqual(["bd-12", "bd-a1b2.3"]);
+	});
+
+	test("takes hyphenated prefixes whole", () => {
+		const prefixes = ["my", issuePrefix("my-project-a1b2")];
+		expect(findIssueIds("TODO(my-project-a1b2): see my-3", prefixes)).toEqual([
+			"my-project-a1b2",
+			"my-3",
+		]);
+	});
+
+	test("finds nothing without prefixes", () => {
+		expect(findIssueIds("bd-12", [])).toEqual([]);
+	});
+});
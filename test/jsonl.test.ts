@@ -0,0 +1,93 @@
+import { describe, expect, test } from "bun:test";
+import {
+	buildIssueIndex,
+	countIssues,
+	listIssues,
+	parseIssues,
+	readyIssues,
+} from "../src/jsonl.js";
+
+const rows = [
+	{
+		id: "t-1",
+		title: "Dated",
+		status: "open",
+		priority: 1,
+		created_at: "2026-01-02T00:00:00Z",
+		updated_at: "2026-01-02T00:00:00Z",
+	},
+	// Hand-edited row: no timestamps, priority or status
+	{ id: "t-2", title: "Undated" },
+	{
+		id: "t-3",
+		title: "Older",
+		status: "open",
+		priority: 1,
+		created_at: "2026-01-01T00:00:00Z",
+	},
+	// Same priority as the undated row, so the sort compares created_at
+	{
+		id: "t-4",
+		title: "Later",
+		status: "open",
+		priority: 2,
+		created_at: "2026-01-03T00:00:00Z",
+	},
+];
+
+describe("parseIssues", () => {
+	test("fills in fields missing from a row", () => {
+		const [, undated, older] = parseIssues(
+			rows.map((row) => JSON.stringify(row)).join("\n"),
+		);
+		expect(undated).toMatchObject({
+			status: "open",
+			priority: 2,
+			issue_type: "task",
+			created_at: "",
+			updated_at: "",
+		});
+		expect(older.updated_at).toBe("2026-01-01T00:00:00Z");
+	});
+
+	test("skips malformed lines", () => {
+		const issues = parseIssues('{"id":"t-1","title":"Kept"}\n{"id":\n{}\n');
+		expect(issues.map((issue) => issue.id)).toEqual(["t-1"]);
+	});
+});
+
+describe("sorted queries", () => {
+	const index = buildIssueIndex(
+		parseIssues(rows.map((row) => JSON.stringify(row)).join("\n")),
+	);
+
+	test("list sorts rows without created_at first among equal priority", () => {
+		expect(listIssues(index).map((issue) => issue.id)).toEqual([
+			"t-3",
+			"t-1",
+			"t-2",
+			"t-4",
+		]);
+	});
+
+	test("count includes closed issues unless a status is given", () => {
+		const withClosed = buildIssueIndex(
+			parseIssues(
+				[...rows, { id: "t-5", title: "Done", status: "closed" }]
+					.map((row) => JSON.stringify(row))
+					.join("\n"),
+			),
+		);
+		expect(countIssues(withClosed, { status: undefined })).toBe(5);
+		expect(countIssues(withClosed, { status: "closed" })).toBe(1);
+	});
+
+	test("ready sorts rows without created_at first among equal priority", () => {
+		expect(readyIssues(index).map((issue) => issue.id)).toEqual([
+			"t-3",
+			"t-1",
+			"t-2",
+			"t-4",
+		]);
+	});
+});
@@ -0,0 +1,49 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import {
+	existsSync,
+	mkdirSync,
+	mkdtempSync,
+	readdirSync,
+	rmSync,
+	utimesSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createLeaseStore } from "../src/lease.js";
+
+const directory = mkdtempSync(join(tmpdir(), "beads-lease-"));
+afterAll(() => {
+	rmSync(directory, { recursive: true, force: true });
+});
+
+describe("withLock", () => {
+	const leaseDir = join(directory, ".beads", "leases");
+	const lockDir = join(leaseDir, ".lock");
+
+	test("takes over a lock left by a crashed process", async () => {
+		const store = createLeaseStore(directory, 60_000);
+		mkdirSync(lockDir, { recursive: true });
+		const longAgo = new Date(Date.now() - 60_000);
+		utimesSync(lockDir, longAgo, longAgo);
+
+		expect(await store.withLock(async () => "ran")).toBe("ran");
+		expect(existsSync(lockDir)).toBe(false);
+		expect(
+			readdirSync(leaseDir).filter((name) => name.startsWith(".lock")),
+		).toEqual([]);
+	});
+
+	test("runs callers one at a time", async () => {
+		const store = createLeaseStore(directory, 60_000);
+		let running = 0;
+		let most = 0;
+		const work = () =>
+			store.withLock(async () => {
+				most = Math.max(most, ++running);
+				await new Promise((resolve) => setTimeout(resolve, 20));
+				running--;
+			});
+		await Promise.all([work(), work(), work()]);
+		expect(most).toBe(1);
+	});
+});
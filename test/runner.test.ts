@@ -0,0 +1,93 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import {
+	chmodSync,
+	existsSync,
+	mkdtempSync,
+	readFileSync,
+	rmSync,
+	writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { ToolContext } from "@opencode-ai/plugin/tool";
+import { createAllTools, createBdRunner } from "../src/tools.js";
+
+const directory = mkdtempSync(join(tmpdir(), "beads-runner-"));
+afterAll(() => {
+	rmSync(directory, { recursive: true, force: true });
+});
+
+/**
+ * Executable standing in for bd
+ */
+const fakeBd = (name: string, source: string): string => {
+	const path = join(directory, name);
+	writeFileSync(path, `#!/usr/bin/env node\n${source}\n`);
+	chmodSync(path, 0o755);
+	return path;
+};
+
+const context = {
+	sessionID: "test",
+	abort: new AbortController().signal,
+} as ToolContext;
+
+const isRunning = (pid: number): boolean => {
+	try {
+		process.kill(pid, 0);
+		return true;
+	} catch {
+		return false;
+	}
+};
+
+describe("createBdRunner", () => {
+	test("passes free text after -- so it is not read as a flag", async () => {
+		const command = fakeBd(
+			"echo-args",
+			"console.log(JSON.stringify(process.argv.slice(2)));",
+		);
+		const tools = createAllTools(createBdRunner(directory, { command }));
+
+		const created = await tools.bd_create.execute(
+			{ title: "-p 0 --force" },
+			context,
+		);
+		expect(JSON.parse(String(created)).slice(-2)).toEqual([
+			"--",
+			"-p 0 --force",
+		]);
+		const commented = await tools.bd_comment.execute(
+			{ id: "t-1", body: "--help" },
+			context,
+		);
+		expect(JSON.parse(String(commented))).toEqual([
+			"comment",
+			"t-1",
+			"--",
+			"--help",
+		]);
+	});
+
+	test("kills bd with SIGKILL when it ignores SIGTERM", async () => {
+		const pidFile = join(directory, "stubborn.pid");
+		const command = fakeBd(
+			"stubborn",
+			[
+				`require("node:fs").writeFileSync(${JSON.stringify(pidFile)}, String(process.pid));`,
+				'process.on("SIGTERM", () => {});',
+				"setInterval(() => {}, 1000);",
+			].join("\n"),
+		);
+		const runBd = createBdRunner(directory, { command, timeoutMs: 1_000 });
+
+		const result = await runBd(["list"]);
+		expect(result.error?.code).toBe("timeout");
+		expect(existsSync(pidFile)).toBe(true);
+		const pid = Number(readFileSync(pidFile, "utf-8"));
+		expect(isRunning(pid)).toBe(true);
+
+		await new Promise((resolve) => setTimeout(resolve, 6_000));
+		expect(isRunning(pid)).toBe(false);
+	}, 15_000);
+});
@@ -0,0 +1,73 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { execFileSync } from "node:child_process";
+import {
+	mkdirSync,
+	mkdtempSync,
+	readFileSync,
+	rmSync,
+	symlinkSync,
+	writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createGitRunner } from "../src/git.js";
+import { applyTodoRewrites, listScanFiles, scanTodos } from "../src/scan.js";
+
+const base = mkdtempSync(join(tmpdir(), "beads-scan-"));
+const project = join(base, "project");
+const outside = join(base, "outside");
+mkdirSync(join(project, "src"), { recursive: true });
+mkdirSync(outside);
+writeFileSync(join(project, "src", "app.ts"), "// TODO: inside\n");
+writeFileSync(join(outside, "secret.ts"), "// TODO: outside\n");
+symlinkSync(join(outside, "secret.ts"), join(project, "src", "linked.ts"));
+execFileSync("git", ["init", "--quiet"], { cwd: project });
+
+afterAll(() => {
+	rmSync(base, { recursive: true, force: true });
+});
+
+const list = (directory: string, path?: string) =>
+	listScanFiles(createGitRunner(directory), directory, path);
+
+describe("listScanFiles", () => {
+	test("lists files git knows about", async () => {
+		expect(await list(project, "src")).toEqual(["src/app.ts", "src/linked.ts"]);
+	});
+
+	test("rejects paths outside the project", async () => {
+		for (const path of ["../outside", outside, "src/../../outside"]) {
+			const result = await list(project, path);
+			expect(result).toMatchObject({ code: "invalid_argument" });
+		}
+	});
+
+	test("refuses to scan outside a git work tree", async () => {
+		expect(await list(outside)).toMatchObject({ code: "command_failed" });
+	});
+});
+
+describe("links to files outside the project", () => {
+	test("are not scanned", () => {
+		const items = scanTodos(project, ["src/app.ts", "src/linked.ts"]);
+		expect(items.map((item) => item.file)).toEqual(["src/app.ts"]);
+	});
+
+	test("are not rewritten", () => {
+		const [item] = scanTodos(project, ["src/app.ts"]);
+		const result = applyTodoRewrites(project, [
+			{ item, id: "t-1" },
+			{
+				item: { ...item, file: "src/linked.ts", source: "// TODO: outside" },
+				id: "t-2",
+			},
+		]);
+		expect(result).toEqual({ rewritten: 1, skipped: ["src/linked.ts:1"] });
+		expect(readFileSync(join(outside, "secret.ts"), "utf-8")).toBe(
+			"// TODO: outside\n",
+		);
+		expect(readFileSync(join(project, "src", "app.ts"), "utf-8")).toBe(
+			"// TODO(t-1): inside\n",
+		);
+	});
+});
@@ -0,0 +1,39 @@
+import { describe, expect, test } from "bun:test";
+import type { ToolResult } from "@opencode-ai/plugin/tool";
+import type { Issue } from "../src/domain.js";
+import { renderIssuePage } from "../src/shape.js";
+
+const issue = (n: number, title = `Issue ${n}`): Issue => ({
+	id: `t-${n}`,
+	title,
+	status: "open",
+	priority: 2,
+	issue_type: "task",
+	labels: [],
+	dependencies: [],
+	created_at: "2026-01-01T00:00:00Z",
+	updated_at: "2026-01-01T00:00:00Z",
+});
+
+const page = { offset: 0, size: 10, query: "q" };
+
+const text = (result: ToolResult): string =>
+	typeof result === "string" ? result : result.output;
+
+describe("renderIssuePage", () => {
+	test("counts the paging trailer against the budget", () => {
+		const items = Array.from({ length: 20 }, (_, i) => issue(i + 1));
+		for (const max_chars of [150, 300, 600]) {
+			const output = text(renderIssuePage(items, page, { max_chars }, ""));
+			expect(output.length).toBeLessThanOrEqual(max_chars);
+			expect(output).toContain("Next page: cursor");
+		}
+	});
+
+	test("cuts off a single issue larger than the budget", () => {
+		const items = [issue(1, "x".repeat(1_000))];
+		const output = text(renderIssuePage(items, page, { max_chars: 300 }, ""));
+		expect(output.length).toBeLessThanOrEqual(300);
+		expect(output).toEndWith("…[truncated to fit max_chars]");
+	});
+});